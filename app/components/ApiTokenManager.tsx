@@ -0,0 +1,268 @@
+import { type FormEvent, useEffect, useState } from 'react';
+
+import { ToastManager } from './Toast';
+import { useToast } from '../hooks/useToast';
+import { TOKEN_SCOPE_LABELS, type TokenScope } from '../lib/api-tokens';
+
+interface ApiTokenSummary {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  allowedPrefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+interface TokensResponse {
+  success: boolean;
+  data?: ApiTokenSummary[] | ApiTokenSummary;
+  token?: string;
+  error?: string;
+  details?: string;
+}
+
+interface ApiTokenManagerProps {
+  availableScopes: TokenScope[];
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '永不过期', value: '' },
+  { label: '7 天', value: '7' },
+  { label: '30 天', value: '30' },
+  { label: '90 天', value: '90' },
+  { label: '365 天', value: '365' },
+];
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString('zh-CN') : fallback;
+}
+
+export default function ApiTokenManager({ availableScopes }: ApiTokenManagerProps) {
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(availableScopes.filter((scope) => scope !== 'delete'));
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [allowedPrefix, setAllowedPrefix] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+
+  const sendTokenRequest = async (method: 'GET' | 'POST' | 'DELETE', payload?: object) => {
+    const response = await fetch('/api/tokens', {
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign('/login?next=%2Fsettings');
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as TokensResponse;
+    if (!response.ok) {
+      throw new Error(result.error || result.details || '操作失败');
+    }
+
+    return result;
+  };
+
+  const loadTokens = async () => {
+    try {
+      setLoading(true);
+      const result = await sendTokenRequest('GET');
+      setTokens(Array.isArray(result.data) ? result.data : []);
+    } catch (err) {
+      console.error('加载令牌失败:', err);
+      showError(err instanceof Error ? err.message : '加载令牌失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadTokens();
+  }, []);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((item) => item !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      const result = await sendTokenRequest('POST', {
+        name,
+        scopes,
+        expiresInDays: expiresInDays || null,
+        allowedPrefix,
+      });
+      setCreatedToken(result.token ?? null);
+      setName('');
+      showSuccess('令牌已创建');
+      await loadTokens();
+    } catch (err) {
+      console.error('创建令牌失败:', err);
+      showError(err instanceof Error ? err.message : '创建令牌失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenSummary) => {
+    if (!window.confirm(`确定要吊销令牌「${token.name}」吗？使用它的脚本将立即失效。`)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await sendTokenRequest('DELETE', { id: token.id });
+      showSuccess('令牌已吊销');
+      await loadTokens();
+    } catch (err) {
+      console.error('吊销令牌失败:', err);
+      showError(err instanceof Error ? err.message : '吊销令牌失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyCreatedToken = async () => {
+    if (!createdToken) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      showSuccess('令牌已复制');
+    } catch {
+      showError('复制失败');
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <section className="panel panel-light p-5 sm:p-6">
+          <h1 className="text-lg font-semibold text-[var(--ink)]">API 令牌</h1>
+          <p className="mt-2 text-sm text-[var(--ink-soft)]">
+            供脚本、ShareX、PicGo 或 CI 使用：在请求头中携带 <code>Authorization: Bearer &lt;令牌&gt;</code>
+            即可调用 <code>/api/upload</code>、<code>/api/images</code> 等接口，权限不会超过你的账号角色。
+          </p>
+        </section>
+
+        <section className="panel panel-light p-5 sm:p-6">
+          <h2 className="text-sm font-semibold text-[var(--ink)]">新建令牌</h2>
+          <form className="mt-4 space-y-3" onSubmit={handleCreate}>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="名称，例如 ShareX"
+                maxLength={64}
+                required
+                className="input-surface w-full px-3 py-2 text-sm"
+              />
+              <input
+                type="text"
+                value={allowedPrefix}
+                onChange={(event) => setAllowedPrefix(event.target.value)}
+                placeholder="限定文件夹（可选），例如 screenshots"
+                className="input-surface w-full px-3 py-2 text-sm"
+              />
+              <select
+                value={expiresInDays}
+                onChange={(event) => setExpiresInDays(event.target.value)}
+                className="input-surface px-3 py-2 text-sm"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-[var(--ink)]">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="h-4 w-4 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)]"
+                  />
+                  <span>{TOKEN_SCOPE_LABELS[scope]}</span>
+                </label>
+              ))}
+              <button
+                type="submit"
+                disabled={saving || scopes.length === 0}
+                className="button-primary ml-auto px-4 py-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                创建
+              </button>
+            </div>
+          </form>
+
+          {createdToken ? (
+            <div className="mt-4 rounded-lg border border-[var(--line)] bg-[var(--surface)] p-3">
+              <p className="text-sm text-[var(--ink-soft)]">新令牌只显示这一次，请立即保存：</p>
+              <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+                <code className="min-w-0 flex-1 break-all text-sm text-[var(--ink)]">{createdToken}</code>
+                <button
+                  type="button"
+                  onClick={() => void copyCreatedToken()}
+                  className="button-secondary px-3 py-2 text-sm"
+                >
+                  复制
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </section>
+
+        <section className="panel panel-light p-5 sm:p-6">
+          <h2 className="text-sm font-semibold text-[var(--ink)]">我的令牌</h2>
+          {loading ? (
+            <p className="mt-4 text-sm text-[var(--ink-soft)]">加载中...</p>
+          ) : tokens.length === 0 ? (
+            <p className="mt-4 text-sm text-[var(--ink-soft)]">还没有令牌</p>
+          ) : (
+            <div className="mt-4 divide-y divide-[var(--line)]">
+              {tokens.map((token) => (
+                <div
+                  key={token.id}
+                  className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--ink)]">{token.name}</p>
+                    <p className="mt-1 text-xs text-[var(--muted)]">
+                      {token.scopes.map((scope) => TOKEN_SCOPE_LABELS[scope]).join(' / ')}
+                      {token.allowedPrefix ? ` · 仅限 ${token.allowedPrefix}` : ''}
+                      {` · 过期：${formatDate(token.expiresAt, '永不')}`}
+                      {` · 最近使用：${formatDate(token.lastUsedAt, '从未')}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => void handleRevoke(token)}
+                    disabled={saving}
+                    className="button-danger px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    吊销
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      <ToastManager toasts={toasts} removeToast={removeToast} />
+    </>
+  );
+}
@@ -2,12 +2,16 @@ import type { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router';
 
 import LogoutButton from './LogoutButton';
+import { ROLE_LABELS, hasPermission, type AuthUser } from '../lib/users';
 
 interface AppShellProps {
   authenticated?: boolean;
+  user?: AuthUser;
   children: ReactNode;
 }
 
+const NAV_PATHS = ['/gallery', '/about', '/settings', '/sessions', '/users'];
+
 function getNavClass(active: boolean) {
   return [
     'rounded-lg border px-3 py-2 text-sm font-medium transition-colors',
@@ -17,12 +21,10 @@ function getNavClass(active: boolean) {
   ].join(' ');
 }
 
-export default function AppShell({ authenticated = false, children }: AppShellProps) {
+export default function AppShell({ authenticated = false, user, children }: AppShellProps) {
   const location = useLocation();
-  const currentPath =
-    location.pathname === '/gallery' || location.pathname === '/about'
-      ? location.pathname
-      : '/';
+  const currentPath = NAV_PATHS.includes(location.pathname) ? location.pathname : '/';
+  const canUpload = !user || hasPermission(user.role, 'upload');
 
   return (
     <div className="site-shell">
@@ -38,16 +40,35 @@ export default function AppShell({ authenticated = false, children }: AppShellPr
           {authenticated ? (
             <div className="flex flex-wrap items-center justify-end gap-2">
               <nav className="flex flex-wrap items-center gap-1 rounded-xl border border-[var(--line)] bg-[var(--surface)] p-1">
-                <Link to="/" className={getNavClass(currentPath === '/')}>
-                  上传
-                </Link>
+                {canUpload ? (
+                  <Link to="/" className={getNavClass(currentPath === '/')}>
+                    上传
+                  </Link>
+                ) : null}
                 <Link to="/gallery" className={getNavClass(currentPath === '/gallery')}>
                   图库
                 </Link>
                 <Link to="/about" className={getNavClass(currentPath === '/about')}>
                   说明
                 </Link>
+                <Link to="/settings" className={getNavClass(currentPath === '/settings')}>
+                  设置
+                </Link>
+                <Link to="/sessions" className={getNavClass(currentPath === '/sessions')}>
+                  会话
+                </Link>
+                {user?.role === 'admin' ? (
+                  <Link to="/users" className={getNavClass(currentPath === '/users')}>
+                    用户
+                  </Link>
+                ) : null}
               </nav>
+              {user ? (
+                <span className="text-sm text-[var(--ink-soft)]">
+                  {user.username}
+                  <span className="ml-1 text-[var(--muted)]">· {ROLE_LABELS[user.role]}</span>
+                </span>
+              ) : null}
               <LogoutButton />
             </div>
           ) : (
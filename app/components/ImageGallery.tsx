@@ -1,13 +1,31 @@
-import { useEffect, useMemo, useState } from 'react';
+import { type FormEvent, useEffect, useState } from 'react';
+import ImageWithPlaceholder from './ImageWithPlaceholder';
 import { ToastManager } from './Toast';
+import TrashBin from './TrashBin';
 import { useToast } from '../hooks/useToast';
-
-interface ImageInfo {
+import type { ImageMetadata } from '../lib/image-metadata';
+import { getVariantSrcSet, getVariantUrl, type ImageVariant } from '../lib/image-variants';
+import {
+  DEFAULT_SHARE_HOURS,
+  SHARE_HOUR_OPTIONS,
+  getImageVisibility,
+  type ImageVisibility,
+} from '../lib/image-visibility';
+import { PRIVATE_FOLDER, PRIVATE_PREFIX, type ImageSort, type ImageSortField } from '../lib/images-api';
+import {
+  DEFAULT_LINK_FORMAT,
+  formatImageLinks,
+  getLinkFormatOptions,
+  type LinkTemplate,
+} from '../lib/link-formats';
+
+interface ImageInfo extends ImageMetadata {
   key: string;
   url: string;
   size: number;
   mimeType: string;
   uploadedAt: string;
+  variants?: ImageVariant[];
 }
 
 interface DeleteFailure {
@@ -18,6 +36,7 @@ interface DeleteFailure {
 interface ImagesResponse {
   success: boolean;
   data?: ImageInfo[];
+  folders?: string[];
   error?: string;
   details?: string;
   pagination?: {
@@ -34,18 +53,165 @@ interface DeleteImagesResponse {
   details?: string;
 }
 
-type SortOrder = 'time-desc' | 'time-asc';
+interface MoveImagesResponse {
+  success: boolean;
+  moved?: Array<{ from: string; to: string }>;
+  conflicts?: Array<{ from: string; to: string }>;
+  failed?: DeleteFailure[];
+  error?: string;
+  details?: string;
+}
+
+interface ImageMetadataResponse {
+  success: boolean;
+  data?: ImageInfo;
+  error?: string;
+  details?: string;
+}
+
+interface ShareLink {
+  url: string;
+  expiresAt: string;
+}
+
+interface ShareLinkResponse {
+  success: boolean;
+  data?: ShareLink;
+  error?: string;
+  details?: string;
+}
+
+interface MetadataDraft {
+  title: string;
+  alt: string;
+  tags: string;
+}
+
+interface FoldersResponse {
+  success: boolean;
+  data?: string[];
+  error?: string;
+  details?: string;
+}
+
+interface ObjectIndexStats {
+  objectCount: number;
+  totalSize: number;
+}
+
+interface ObjectIndexStatsResponse {
+  success: boolean;
+  data?: ObjectIndexStats;
+}
+
+interface LinkTemplatesResponse {
+  success: boolean;
+  data?: LinkTemplate[];
+}
+
+interface FolderMutationResponse {
+  success: boolean;
+  conflicts?: Array<{ from: string; to: string }>;
+  failed?: DeleteFailure[];
+  error?: string;
+  details?: string;
+}
+
+type SortOrder = ImageSort['order'];
+
+interface SearchFilters {
+  type: string;
+  tag: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+  from: string;
+  to: string;
+}
 
 const IMAGES_PER_PAGE = 60;
+const SORT_OPTIONS: Array<{ field: ImageSortField; label: string; asc: string; desc: string }> = [
+  { field: 'uploadedAt', label: '时间', asc: '最早优先', desc: '最新优先' },
+  { field: 'size', label: '大小', asc: '最小优先', desc: '最大优先' },
+  { field: 'name', label: '名称', asc: 'A → Z', desc: 'Z → A' },
+];
+const SEARCH_DEBOUNCE_MS = 300;
+const EMPTY_FILTERS: SearchFilters = { type: '', tag: '', minSizeMb: '', maxSizeMb: '', from: '', to: '' };
+const TYPE_FILTER_OPTIONS = [
+  { value: '', label: '全部格式' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/gif', label: 'GIF' },
+  { value: 'image/webp', label: 'WEBP' },
+  { value: 'image/avif', label: 'AVIF' },
+  { value: 'image/svg+xml', label: 'SVG' },
+];
 
 function getLoginPath(): string {
   return `/login?next=${encodeURIComponent('/gallery')}`;
 }
 
+function parseMegabytes(value: string): number | null {
+  const megabytes = Number(value);
+  return value.trim() && Number.isFinite(megabytes) && megabytes >= 0
+    ? Math.round(megabytes * 1024 * 1024)
+    : null;
+}
+
+/** Query string for `/api/images`; empty when nothing is being searched. */
+function buildSearchParams(query: string, filters: SearchFilters): string {
+  const params = new URLSearchParams();
+  const minSize = parseMegabytes(filters.minSizeMb);
+  const maxSize = parseMegabytes(filters.maxSizeMb);
+
+  if (query.trim()) {
+    params.set('q', query.trim());
+  }
+  if (filters.type) {
+    params.set('type', filters.type);
+  }
+  for (const tag of filters.tag.split(/[,，]/)) {
+    if (tag.trim()) {
+      params.append('tag', tag.trim());
+    }
+  }
+  if (minSize !== null) {
+    params.set('minSize', minSize.toString());
+  }
+  if (maxSize !== null) {
+    params.set('maxSize', maxSize.toString());
+  }
+  if (filters.from) {
+    params.set('from', filters.from);
+  }
+  if (filters.to) {
+    params.set('to', filters.to);
+  }
+
+  return params.toString();
+}
+
 function getDisplayName(key: string): string {
   return key.split('/').pop() || key;
 }
 
+function getFolderName(folder: string): string {
+  return folder === PRIVATE_PREFIX ? '私有' : folder.replace(/\/$/, '').split('/').pop() || folder;
+}
+
+function getParentFolder(folder: string): string {
+  const segments = folder.replace(/\/$/, '').split('/');
+  segments.pop();
+  return segments.length > 0 ? `${segments.join('/')}/` : '';
+}
+
+function getBreadcrumbs(folder: string): Array<{ label: string; path: string }> {
+  const segments = folder.split('/').filter(Boolean);
+  return segments.map((segment, index) => ({
+    label: index === 0 && segment === PRIVATE_FOLDER ? '私有' : segment,
+    path: `${segments.slice(0, index + 1).join('/')}/`,
+  }));
+}
+
 function getDisplayStem(key: string): string {
   const displayName = getDisplayName(key);
   const stem = displayName.replace(/\.[^.]+$/, '');
@@ -110,7 +276,12 @@ function getActionButtonClass(variant: 'secondary' | 'ghost' | 'danger'): string
   return `${base} border-[rgba(159,97,83,0.18)] bg-[rgba(159,97,83,0.9)] text-[var(--paper-strong)] hover:shadow-[0_10px_24px_rgba(159,97,83,0.14)]`;
 }
 
-export default function ImageGallery() {
+interface ImageGalleryProps {
+  canUpload?: boolean;
+  canDelete?: boolean;
+}
+
+export default function ImageGallery({ canUpload = true, canDelete = true }: ImageGalleryProps) {
   const [images, setImages] = useState<ImageInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingAll, setLoadingAll] = useState(false);
@@ -124,12 +295,42 @@ export default function ImageGallery() {
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [activeImage, setActiveImage] = useState<ImageInfo | null>(null);
+  const [metadataDraft, setMetadataDraft] = useState<MetadataDraft>({ title: '', alt: '', tags: '' });
   const [loadedCount, setLoadedCount] = useState(0);
-  const [sortOrder, setSortOrder] = useState<SortOrder>('time-desc');
+  const [sortField, setSortField] = useState<ImageSortField>('uploadedAt');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [currentFolder, setCurrentFolder] = useState('');
+  const [folders, setFolders] = useState<string[]>([]);
+  const [folderStats, setFolderStats] = useState<ObjectIndexStats | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [linkTemplates, setLinkTemplates] = useState<LinkTemplate[]>([]);
+  const [copyFormat, setCopyFormat] = useState<string>(DEFAULT_LINK_FORMAT);
+  const [shareHours, setShareHours] = useState(DEFAULT_SHARE_HOURS);
+  const [shareLink, setShareLink] = useState<ShareLink | null>(null);
   const { toasts, removeToast, showSuccess, showError, showInfo } = useToast();
 
   const currentCursor = cursorHistory[pageIndex] ?? null;
+  const pendingSearch = buildSearchParams(searchQuery, searchFilters);
+
+  useEffect(() => {
+    if (pendingSearch === appliedSearch) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      setAppliedSearch(pendingSearch);
+      setBrowseMode('page');
+      setPageIndex(0);
+      setCursorHistory([null]);
+      setNextCursor(null);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [pendingSearch, appliedSearch]);
 
   useEffect(() => {
     if (browseMode !== 'page') {
@@ -137,7 +338,25 @@ export default function ImageGallery() {
     }
 
     void loadPage(currentCursor);
-  }, [browseMode, currentCursor]);
+  }, [browseMode, currentCursor, currentFolder, appliedSearch, sortField, sortOrder]);
+
+  useEffect(() => {
+    void loadFolders();
+    void loadFolderStats();
+  }, [currentFolder]);
+
+  useEffect(() => {
+    void loadLinkTemplates();
+  }, []);
+
+  useEffect(() => {
+    setMetadataDraft({
+      title: activeImage?.title ?? '',
+      alt: activeImage?.alt ?? '',
+      tags: activeImage?.tags?.join(', ') ?? '',
+    });
+    setShareLink(null);
+  }, [activeImage?.key]);
 
   useEffect(() => {
     if (!activeImage) {
@@ -157,9 +376,18 @@ export default function ImageGallery() {
   }, [activeImage]);
 
   const fetchImagePage = async (cursor: string | null) => {
-    const params = new URLSearchParams({
-      limit: IMAGES_PER_PAGE.toString(),
-    });
+    // Searches cover every subfolder of the current one, so they skip the delimiter.
+    const params = new URLSearchParams(appliedSearch);
+    params.set('limit', IMAGES_PER_PAGE.toString());
+    params.set('sort', sortField);
+    params.set('order', sortOrder);
+    if (!appliedSearch) {
+      params.set('delimiter', '/');
+    }
+
+    if (currentFolder) {
+      params.set('prefix', currentFolder);
+    }
 
     if (cursor) {
       params.set('cursor', cursor);
@@ -184,6 +412,155 @@ export default function ImageGallery() {
     };
   };
 
+  const loadFolders = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (currentFolder) {
+        params.set('prefix', currentFolder);
+      }
+
+      const response = await fetch(`/api/folders?${params.toString()}`);
+      if (response.status === 401) {
+        window.location.assign(getLoginPath());
+        return;
+      }
+
+      const result = (await response.json().catch(() => ({}))) as FoldersResponse;
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || result.details || '加载文件夹失败');
+      }
+
+      setFolders(result.data);
+    } catch (err) {
+      console.error('加载文件夹失败:', err);
+      setFolders([]);
+      showError(err instanceof Error ? err.message : '加载文件夹失败');
+    }
+  };
+
+  /** Totals come from the server-side index; a failure only hides them. */
+  const loadFolderStats = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (currentFolder) {
+        params.set('prefix', currentFolder);
+      }
+
+      const response = await fetch(`/api/object-index?${params.toString()}`);
+      const result = (await response.json().catch(() => ({}))) as ObjectIndexStatsResponse;
+      setFolderStats(response.ok && result.success && result.data ? result.data : null);
+    } catch (err) {
+      console.error('加载图库统计失败:', err);
+      setFolderStats(null);
+    }
+  };
+
+  const loadLinkTemplates = async () => {
+    try {
+      const response = await fetch('/api/link-templates');
+      const result = (await response.json().catch(() => ({}))) as LinkTemplatesResponse;
+      setLinkTemplates(response.ok && result.success && result.data ? result.data : []);
+    } catch (err) {
+      console.error('加载复制模板失败:', err);
+    }
+  };
+
+  const openFolder = (folder: string) => {
+    setCurrentFolder(folder);
+    setBrowseMode('page');
+    setPageIndex(0);
+    setCursorHistory([null]);
+    setNextCursor(null);
+    setSelectedImages(new Set());
+  };
+
+  const sendFolderRequest = async (method: 'POST' | 'PATCH' | 'DELETE', payload: object) => {
+    const response = await fetch('/api/folders', {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (response.status === 401) {
+      window.location.assign(getLoginPath());
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as FolderMutationResponse;
+    if (!response.ok) {
+      throw new Error(result.error || result.details || '操作失败');
+    }
+
+    if (result.failed && result.failed.length > 0) {
+      throw new Error(`${result.failed.length} 个文件处理失败`);
+    }
+
+    if (result.conflicts && result.conflicts.length > 0) {
+      throw new Error(`${result.conflicts.length} 个文件在目标位置已存在，未移动`);
+    }
+  };
+
+  const createFolder = async () => {
+    const name = window.prompt('新建文件夹名称');
+    if (!name?.trim()) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await sendFolderRequest('POST', { path: `${currentFolder}${name.trim()}` });
+      showSuccess('文件夹已创建');
+      await loadFolders();
+    } catch (err) {
+      console.error('创建文件夹失败:', err);
+      showError(err instanceof Error ? err.message : '创建文件夹失败');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const renameFolder = async (folder: string) => {
+    const name = window.prompt('重命名文件夹', getFolderName(folder));
+    if (!name?.trim() || name.trim() === getFolderName(folder)) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await sendFolderRequest('PATCH', {
+        from: folder,
+        to: `${getParentFolder(folder)}${name.trim()}`,
+      });
+      showSuccess('文件夹已重命名');
+      await loadFolders();
+    } catch (err) {
+      console.error('重命名文件夹失败:', err);
+      showError(err instanceof Error ? err.message : '重命名文件夹失败');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const deleteFolder = async (folder: string) => {
+    if (!window.confirm(`确定要删除文件夹「${getFolderName(folder)}」及其中的全部图片吗？`)) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await sendFolderRequest('DELETE', { path: folder });
+      showSuccess('文件夹已删除');
+      await loadFolders();
+    } catch (err) {
+      console.error('删除文件夹失败:', err);
+      showError(err instanceof Error ? err.message : '删除文件夹失败');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const loadPage = async (cursor: string | null = currentCursor) => {
     try {
       setLoading(true);
@@ -312,6 +689,207 @@ export default function ImageGallery() {
     }
   };
 
+  const renameImage = async (image: ImageInfo) => {
+    const nextKey = window.prompt('新的文件路径（可包含文件夹，例如 albums/cover.png）', image.key);
+    if (!nextKey?.trim() || nextKey.trim() === image.key) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+
+      const response = await fetch('/api/images', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from: image.key, to: nextKey.trim() }),
+      });
+
+      if (response.status === 401) {
+        window.location.assign(getLoginPath());
+        return;
+      }
+
+      const result = (await response.json().catch(() => ({}))) as MoveImagesResponse;
+
+      if (response.status === 409 || (result.conflicts?.length ?? 0) > 0) {
+        showError('目标文件已存在，请换一个名称');
+        return;
+      }
+
+      if (!response.ok || (result.failed?.length ?? 0) > 0) {
+        showError(result.failed?.[0]?.error || result.error || '重命名失败');
+        return;
+      }
+
+      showSuccess('图片已重命名');
+      setActiveImage(null);
+
+      if (browseMode === 'all') {
+        await loadAllImages();
+      } else {
+        await loadPage(currentCursor);
+      }
+      await loadFolders();
+    } catch (err) {
+      console.error('重命名图片失败:', err);
+      showError('重命名失败: 网络错误');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const sendVisibilityRequest = async (payload: {
+    keys?: string[];
+    folder?: string;
+    visibility: ImageVisibility;
+  }) => {
+    const response = await fetch('/api/images/visibility', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (response.status === 401) {
+      window.location.assign(getLoginPath());
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as MoveImagesResponse;
+
+    if (response.status === 409 || (result.conflicts?.length ?? 0) > 0) {
+      throw new Error('目标位置已有同名文件');
+    }
+
+    if (!response.ok || (result.failed?.length ?? 0) > 0) {
+      throw new Error(result.failed?.[0]?.error || result.error || result.details || '操作失败');
+    }
+  };
+
+  /** Private images move under `.private/`; their public links stop working right away. */
+  const changeImageVisibility = async (image: ImageInfo, visibility: ImageVisibility) => {
+    if (visibility === 'private' && !window.confirm('设为私有后，现有的公开链接将立即失效，确定继续吗？')) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await sendVisibilityRequest({ keys: [image.key], visibility });
+      showSuccess(visibility === 'private' ? '图片已设为私有' : '图片已设为公开');
+      setActiveImage(null);
+
+      if (browseMode === 'all') {
+        await loadAllImages();
+      } else {
+        await loadPage(currentCursor);
+      }
+      await loadFolders();
+    } catch (err) {
+      console.error('修改可见性失败:', err);
+      showError(err instanceof Error ? err.message : '修改可见性失败');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const changeFolderVisibility = async (folder: string, visibility: ImageVisibility) => {
+    const message =
+      visibility === 'private'
+        ? `确定要将文件夹「${getFolderName(folder)}」设为私有吗？其中图片的公开链接将立即失效。`
+        : `确定要将文件夹「${getFolderName(folder)}」设为公开吗？`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await sendVisibilityRequest({ folder, visibility });
+      showSuccess(visibility === 'private' ? '文件夹已设为私有' : '文件夹已设为公开');
+      await loadFolders();
+    } catch (err) {
+      console.error('修改文件夹可见性失败:', err);
+      showError(err instanceof Error ? err.message : '修改文件夹可见性失败');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const shareImage = async (image: ImageInfo) => {
+    try {
+      setActionLoading(true);
+
+      const response = await fetch('/api/images/share', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key: image.key, hours: shareHours }),
+      });
+
+      if (response.status === 401) {
+        window.location.assign(getLoginPath());
+        return;
+      }
+
+      const result = (await response.json().catch(() => ({}))) as ShareLinkResponse;
+      if (!response.ok || !result.data) {
+        showError(result.error || result.details || '生成分享链接失败');
+        return;
+      }
+
+      setShareLink(result.data);
+      await copyToClipboard(result.data.url, '分享链接');
+    } catch (err) {
+      console.error('生成分享链接失败:', err);
+      showError('生成分享链接失败: 网络错误');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const saveMetadata = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!activeImage) {
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+
+      const response = await fetch('/api/images/metadata', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key: activeImage.key, ...metadataDraft }),
+      });
+
+      if (response.status === 401) {
+        window.location.assign(getLoginPath());
+        return;
+      }
+
+      const result = (await response.json().catch(() => ({}))) as ImageMetadataResponse;
+      if (!response.ok || !result.data) {
+        showError(result.error || result.details || '保存失败');
+        return;
+      }
+
+      const updated = result.data;
+      setImages((prev) => prev.map((image) => (image.key === updated.key ? updated : image)));
+      setActiveImage(updated);
+      showSuccess('图片信息已保存');
+    } catch (err) {
+      console.error('保存图片信息失败:', err);
+      showError('保存失败: 网络错误');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const deleteImage = async (key: string) => {
     if (!window.confirm('确定要删除这张图片吗？')) {
       return;
@@ -384,7 +962,7 @@ export default function ImageGallery() {
     setPageIndex((prev) => prev + 1);
   };
 
-  const copyToClipboard = async (text: string, label: '链接' | 'Markdown' = '链接') => {
+  const copyToClipboard = async (text: string, label = '链接') => {
     try {
       await navigator.clipboard.writeText(text);
       showSuccess(`已复制${label}`, 1800);
@@ -394,6 +972,16 @@ export default function ImageGallery() {
     }
   };
 
+  /** Copies one or more images as a single block in the chosen copy format. */
+  const copyImageLinks = (targets: ImageInfo[]) => {
+    if (targets.length === 0) {
+      return;
+    }
+
+    const label = targets.length > 1 ? ` ${targets.length} 张图片的${copyFormatLabel}` : copyFormatLabel;
+    void copyToClipboard(formatImageLinks(targets, copyFormat, linkTemplates), label);
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -403,6 +991,9 @@ export default function ImageGallery() {
   };
 
   const handleRefresh = async () => {
+    void loadFolders();
+    void loadFolderStats();
+
     if (browseMode === 'all') {
       await loadAllImages();
       return;
@@ -411,29 +1002,27 @@ export default function ImageGallery() {
     await loadPage(currentCursor);
   };
 
-  const normalizedSearch = searchQuery.trim().toLowerCase();
-  const visibleImages = useMemo(() => {
-    const filtered = normalizedSearch
-      ? images.filter((image) =>
-          getDisplayName(image.key).toLowerCase().includes(normalizedSearch)
-        )
-      : images;
-
-    const sorted = [...filtered];
-    sorted.sort((a, b) => {
-      const aTime = Date.parse(a.uploadedAt);
-      const bTime = Date.parse(b.uploadedAt);
-      const safeATime = Number.isNaN(aTime) ? 0 : aTime;
-      const safeBTime = Number.isNaN(bTime) ? 0 : bTime;
-      if (sortOrder === 'time-asc') {
-        return safeATime - safeBTime;
-      }
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchFilters(EMPTY_FILTERS);
+  };
 
-      return safeBTime - safeATime;
-    });
+  const updateSearchFilter = (field: keyof SearchFilters, value: string) => {
+    setSearchFilters((current) => ({ ...current, [field]: value }));
+  };
 
-    return sorted;
-  }, [images, normalizedSearch, sortOrder]);
+  /** The server sorts across every page, so paging restarts whenever the order changes. */
+  const changeSort = (field: ImageSortField, order: SortOrder) => {
+    setSortField(field);
+    setSortOrder(order);
+    setBrowseMode('page');
+    setPageIndex(0);
+    setCursorHistory([null]);
+    setNextCursor(null);
+  };
+
+  const visibleImages = images;
+  const activeSortOption = SORT_OPTIONS.find((option) => option.field === sortField) ?? SORT_OPTIONS[0];
 
   const isAllSelected =
     visibleImages.length > 0 &&
@@ -441,7 +1030,11 @@ export default function ImageGallery() {
   const visibleSelectedCount = visibleImages.filter((image) =>
     selectedImages.has(image.key)
   ).length;
-  const hasSearch = normalizedSearch.length > 0;
+  const linkFormatOptions = getLinkFormatOptions(linkTemplates);
+  const copyFormatLabel =
+    linkFormatOptions.find((option) => option.id === copyFormat)?.label ?? 'Markdown';
+  const hasSearch = pendingSearch.length > 0 || appliedSearch.length > 0;
+  const activeFilterCount = Object.values(searchFilters).filter((value) => value.trim()).length;
   const viewLabel = viewMode === 'grid' ? '网格' : '列表';
   const browseLabel = browseMode === 'all' ? '全部模式' : `第 ${pageIndex + 1} 页`;
 
@@ -503,6 +1096,12 @@ export default function ImageGallery() {
               <div>
                 <p className="eyebrow text-[var(--muted)]">图库管理</p>
                 <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2 text-sm text-[var(--ink-soft)]">
+                  {folderStats ? (
+                    <span>
+                      {currentFolder ? '本文件夹' : '图库'}共 {folderStats.objectCount} 张 ·{' '}
+                      {formatFileSize(folderStats.totalSize)}
+                    </span>
+                  ) : null}
                   <span>当前载入 {loadedCount}</span>
                   <span>当前显示 {visibleImages.length}</span>
                   <span>已选中 {selectedImages.size}</span>
@@ -516,18 +1115,103 @@ export default function ImageGallery() {
                   type="text"
                   value={searchQuery}
                   onChange={(event) => setSearchQuery(event.target.value)}
-                  placeholder="按文件名搜索..."
+                  placeholder="搜索文件名、标题、标签..."
                   className="input-surface w-full px-3 py-2 text-sm"
                 />
+                <button
+                  onClick={() => setShowFilters((current) => !current)}
+                  className={getToggleButtonClass(showFilters || activeFilterCount > 0)}
+                >
+                  {activeFilterCount > 0 ? `筛选 ${activeFilterCount}` : '筛选'}
+                </button>
                 {hasSearch ? (
                   <button
-                    onClick={() => setSearchQuery('')}
+                    onClick={clearSearch}
                     className="button-secondary px-3 py-2"
                   >
                     清空
                   </button>
                 ) : null}
               </div>
+
+              {showFilters ? (
+                <div className="grid gap-2 text-sm sm:grid-cols-2 xl:grid-cols-3">
+                  <label className="grid gap-1 text-[var(--ink-soft)]">
+                    格式
+                    <select
+                      value={searchFilters.type}
+                      onChange={(event) => updateSearchFilter('type', event.target.value)}
+                      className="input-surface px-3 py-2"
+                    >
+                      {TYPE_FILTER_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="grid gap-1 text-[var(--ink-soft)]">
+                    标签
+                    <input
+                      type="text"
+                      value={searchFilters.tag}
+                      onChange={(event) => updateSearchFilter('tag', event.target.value)}
+                      placeholder="多个标签用逗号分隔"
+                      className="input-surface px-3 py-2"
+                    />
+                  </label>
+                  <div className="grid gap-1 text-[var(--ink-soft)]">
+                    大小 (MB)
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={searchFilters.minSizeMb}
+                        onChange={(event) => updateSearchFilter('minSizeMb', event.target.value)}
+                        placeholder="最小"
+                        aria-label="最小大小 (MB)"
+                        className="input-surface w-full px-3 py-2"
+                      />
+                      <span className="text-[var(--muted)]">-</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={searchFilters.maxSizeMb}
+                        onChange={(event) => updateSearchFilter('maxSizeMb', event.target.value)}
+                        placeholder="最大"
+                        aria-label="最大大小 (MB)"
+                        className="input-surface w-full px-3 py-2"
+                      />
+                    </div>
+                  </div>
+                  <label className="grid gap-1 text-[var(--ink-soft)]">
+                    上传起始日期
+                    <input
+                      type="date"
+                      value={searchFilters.from}
+                      onChange={(event) => updateSearchFilter('from', event.target.value)}
+                      className="input-surface px-3 py-2"
+                    />
+                  </label>
+                  <label className="grid gap-1 text-[var(--ink-soft)]">
+                    上传截止日期
+                    <input
+                      type="date"
+                      value={searchFilters.to}
+                      onChange={(event) => updateSearchFilter('to', event.target.value)}
+                      className="input-surface px-3 py-2"
+                    />
+                  </label>
+                </div>
+              ) : null}
+
+              {appliedSearch ? (
+                <p className="text-xs text-[var(--muted)]">
+                  正在搜索{currentFolder ? `「${getFolderName(currentFolder)}」及其子文件夹` : '整个图库'}
+                </p>
+              ) : null}
             </div>
 
             <div className="grid gap-2">
@@ -582,23 +1266,27 @@ export default function ImageGallery() {
 
                 <div className="rounded-[16px] border border-[var(--line)] bg-[rgba(255,252,247,0.68)] p-2">
                   <div className="mb-2 flex items-center justify-between px-3">
-                    <p className="eyebrow text-[var(--muted)]">时间排序</p>
+                    <p className="eyebrow text-[var(--muted)]">排序</p>
                     <span className="text-[11px] font-semibold uppercase tracking-[0.22em] text-[var(--muted)]">
-                      {sortOrder === 'time-desc' ? '最新优先' : '最早优先'}
+                      {activeSortOption[sortOrder]}
                     </span>
                   </div>
                   <div className="flex flex-wrap gap-2">
+                    {SORT_OPTIONS.map((option) => (
+                      <button
+                        key={option.field}
+                        onClick={() => changeSort(option.field, sortOrder)}
+                        className={getToggleButtonClass(sortField === option.field)}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
                     <button
-                      onClick={() => setSortOrder('time-desc')}
-                      className={getToggleButtonClass(sortOrder === 'time-desc')}
-                    >
-                      新到旧
-                    </button>
-                    <button
-                      onClick={() => setSortOrder('time-asc')}
-                      className={getToggleButtonClass(sortOrder === 'time-asc')}
+                      onClick={() => changeSort(sortField, sortOrder === 'asc' ? 'desc' : 'asc')}
+                      className={getToggleButtonClass(false)}
+                      title={activeSortOption[sortOrder === 'asc' ? 'desc' : 'asc']}
                     >
-                      旧到新
+                      {sortOrder === 'asc' ? '升序' : '降序'}
                     </button>
                   </div>
                 </div>
@@ -628,22 +1316,152 @@ export default function ImageGallery() {
                   >
                     刷新
                   </button>
+                  <select
+                    value={copyFormat}
+                    onChange={(event) => setCopyFormat(event.target.value)}
+                    aria-label="复制格式"
+                    title="复制格式，可在设置页添加自定义模板"
+                    className="input-surface max-w-[12rem] px-3 py-2.5 text-sm"
+                  >
+                    {linkFormatOptions.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
                   <button
-                    onClick={() => void deleteSelectedImages()}
-                    disabled={selectedImages.size === 0 || actionLoading}
-                    className="button-danger px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+                    onClick={() =>
+                      copyImageLinks(visibleImages.filter((image) => selectedImages.has(image.key)))
+                    }
+                    disabled={visibleSelectedCount === 0}
+                    className="button-secondary px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
                   >
-                    {actionLoading ? '处理中...' : '删除'}
+                    复制选中
                   </button>
+                  {canDelete ? (
+                    <button
+                      onClick={() => void deleteSelectedImages()}
+                      disabled={selectedImages.size === 0 || actionLoading}
+                      className="button-danger px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {actionLoading ? '处理中...' : '删除'}
+                    </button>
+                  ) : null}
+                  {canDelete ? (
+                    <button
+                      onClick={() => setShowTrash((current) => !current)}
+                      className={getToggleButtonClass(showTrash)}
+                    >
+                      回收站
+                    </button>
+                  ) : null}
                 </div>
               </div>
             </div>
           </div>
         </section>
 
-        {images.length === 0 ? (
+        {showTrash ? (
+          <TrashBin
+            showSuccess={showSuccess}
+            showError={showError}
+            onRestored={() => void handleRefresh()}
+          />
+        ) : null}
+
+        <section className="panel panel-light p-4 sm:p-5">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <nav className="flex min-w-0 flex-wrap items-center gap-1 text-sm text-[var(--ink-soft)]">
+              <button
+                type="button"
+                onClick={() => openFolder('')}
+                className={`rounded-md px-2 py-1 ${currentFolder ? 'hover:bg-[var(--surface)] hover:text-[var(--ink)]' : 'font-semibold text-[var(--ink)]'}`}
+              >
+                全部
+              </button>
+              {getBreadcrumbs(currentFolder).map((crumb) => (
+                <span key={crumb.path} className="flex items-center gap-1">
+                  <span className="text-[var(--muted)]">/</span>
+                  <button
+                    type="button"
+                    onClick={() => openFolder(crumb.path)}
+                    className={`max-w-[12rem] truncate rounded-md px-2 py-1 ${crumb.path === currentFolder ? 'font-semibold text-[var(--ink)]' : 'hover:bg-[var(--surface)] hover:text-[var(--ink)]'}`}
+                  >
+                    {crumb.label}
+                  </button>
+                </span>
+              ))}
+            </nav>
+            {canUpload ? (
+              <button
+                onClick={() => void createFolder()}
+                disabled={actionLoading}
+                className="button-secondary px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                新建文件夹
+              </button>
+            ) : null}
+          </div>
+
+          {folders.length > 0 ? (
+            <div className="mt-4 grid gap-2 sm:grid-cols-2 xl:grid-cols-4">
+              {folders.map((folder) => (
+                <div
+                  key={folder}
+                  className="flex items-center gap-2 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2"
+                >
+                  <button
+                    type="button"
+                    onClick={() => openFolder(folder)}
+                    className="min-w-0 flex-1 truncate text-left text-sm font-medium text-[var(--ink)]"
+                    title={folder}
+                  >
+                    {getFolderName(folder)}
+                  </button>
+                  {canUpload ? (
+                    <button
+                      type="button"
+                      onClick={() => void renameFolder(folder)}
+                      disabled={actionLoading}
+                      className="rounded-md px-2 py-1 text-xs text-[var(--ink-soft)] hover:bg-white hover:text-[var(--ink)] disabled:opacity-50"
+                    >
+                      重命名
+                    </button>
+                  ) : null}
+                  {canUpload && folder !== PRIVATE_PREFIX ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void changeFolderVisibility(
+                          folder,
+                          getImageVisibility(folder) === 'private' ? 'public' : 'private'
+                        )
+                      }
+                      disabled={actionLoading}
+                      className="rounded-md px-2 py-1 text-xs text-[var(--ink-soft)] hover:bg-white hover:text-[var(--ink)] disabled:opacity-50"
+                    >
+                      {getImageVisibility(folder) === 'private' ? '设为公开' : '设为私有'}
+                    </button>
+                  ) : null}
+                  {canDelete ? (
+                    <button
+                      type="button"
+                      onClick={() => void deleteFolder(folder)}
+                      disabled={actionLoading}
+                      className="rounded-md px-2 py-1 text-xs text-[var(--danger)] hover:bg-white disabled:opacity-50"
+                    >
+                      删除
+                    </button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </section>
+
+        {images.length === 0 && !hasSearch ? (
           <div className="panel panel-light p-12 text-center sm:p-14">
-            <p className="eyebrow text-[var(--muted)]">空图库</p>
+            <p className="eyebrow text-[var(--muted)]">{currentFolder ? '空文件夹' : '空图库'}</p>
             <p className="mt-4 font-display text-4xl text-[var(--ink)]">这里还没有图片</p>
             <p className="mt-3 text-sm leading-8 text-[var(--muted)]">
               先上传一些内容，再回来整理和复制链接。
@@ -659,13 +1477,13 @@ export default function ImageGallery() {
           <div className="panel panel-light p-12 text-center sm:p-14">
             <p className="eyebrow text-[var(--muted)]">无搜索结果</p>
             <p className="mt-4 font-display text-4xl text-[var(--ink)]">
-              没找到匹配的文件名
+              没找到匹配的图片
             </p>
             <p className="mt-3 text-sm leading-8 text-[var(--muted)]">
-              试试其他关键词，或清空搜索。
+              试试其他关键词或筛选条件，或清空搜索。
             </p>
             <button
-              onClick={() => setSearchQuery('')}
+              onClick={clearSearch}
               className="button-secondary mt-7"
             >
               清空搜索
@@ -686,10 +1504,14 @@ export default function ImageGallery() {
                   <button
                     type="button"
                     onClick={() => setActiveImage(image)}
-                    className="block aspect-[5/4] w-full"
+                    className="relative block aspect-[5/4] w-full overflow-hidden"
                   >
-                    <img
-                      src={image.url}
+                    <ImageWithPlaceholder
+                      placeholder={image.placeholder}
+                      dominantColor={image.dominantColor}
+                      src={getVariantUrl(image, 768)}
+                      srcSet={getVariantSrcSet(image)}
+                      sizes="(min-width: 1536px) 25vw, (min-width: 1280px) 33vw, (min-width: 640px) 50vw, 100vw"
                       alt={getDisplayName(image.key)}
                       className="h-full w-full object-cover transition-transform duration-700 group-hover:scale-[1.03]"
                       loading="lazy"
@@ -754,18 +1576,20 @@ export default function ImageGallery() {
                       复制
                     </button>
                     <button
-                      onClick={() => void copyToClipboard(`![Image](${image.url})`, 'Markdown')}
-                      className={getActionButtonClass('ghost')}
-                      title="复制 Markdown"
+                      onClick={() => copyImageLinks([image])}
+                      className={`${getActionButtonClass('ghost')} truncate`}
+                      title={`复制 ${copyFormatLabel}`}
                     >
-                      Markdown
-                    </button>
-                    <button
-                      onClick={() => void deleteImage(image.key)}
-                      className={getActionButtonClass('danger')}
-                    >
-                      删除
+                      {copyFormatLabel}
                     </button>
+                    {canDelete ? (
+                      <button
+                        onClick={() => void deleteImage(image.key)}
+                        className={getActionButtonClass('danger')}
+                      >
+                        删除
+                      </button>
+                    ) : null}
                   </div>
                 </div>
               </article>
@@ -806,9 +1630,15 @@ export default function ImageGallery() {
                         onChange={() => toggleImageSelection(image.key)}
                         className="h-4 w-4 shrink-0 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)] focus:ring-[rgba(241,91,42,0.3)]"
                       />
-                      <button type="button" onClick={() => setActiveImage(image)} className="shrink-0">
-                        <img
-                          src={image.url}
+                      <button
+                        type="button"
+                        onClick={() => setActiveImage(image)}
+                        className="relative shrink-0 overflow-hidden rounded-[14px]"
+                      >
+                        <ImageWithPlaceholder
+                          placeholder={image.placeholder}
+                          dominantColor={image.dominantColor}
+                          src={getVariantUrl(image, 256)}
                           alt={getDisplayName(image.key)}
                           className="h-20 w-20 rounded-[14px] object-cover"
                           loading="lazy"
@@ -864,18 +1694,20 @@ export default function ImageGallery() {
                         复制
                       </button>
                       <button
-                        onClick={() => void copyToClipboard(`![Image](${image.url})`, 'Markdown')}
-                        className={getActionButtonClass('ghost')}
-                        title="复制 Markdown"
-                      >
-                        Markdown
-                      </button>
-                      <button
-                        onClick={() => void deleteImage(image.key)}
-                        className={getActionButtonClass('danger')}
+                        onClick={() => copyImageLinks([image])}
+                        className={`${getActionButtonClass('ghost')} truncate`}
+                        title={`复制 ${copyFormatLabel}`}
                       >
-                        删除
+                        {copyFormatLabel}
                       </button>
+                      {canDelete ? (
+                        <button
+                          onClick={() => void deleteImage(image.key)}
+                          className={getActionButtonClass('danger')}
+                        >
+                          删除
+                        </button>
+                      ) : null}
                     </div>
                   </div>
                 </article>
@@ -948,11 +1780,13 @@ export default function ImageGallery() {
             <div className="flex min-h-[320px] items-center justify-center bg-[linear-gradient(180deg,rgba(244,240,232,0.96),rgba(233,228,218,0.9))] p-6">
               <img
                 src={activeImage.url}
-                alt={getDisplayName(activeImage.key)}
+                width={activeImage.width}
+                height={activeImage.height}
+                alt={activeImage.alt || getDisplayName(activeImage.key)}
                 className="max-h-[72vh] w-auto max-w-full rounded-[16px] object-contain shadow-[0_26px_80px_rgba(24,30,24,0.14)]"
               />
             </div>
-            <aside className="flex flex-col justify-between gap-6 border-t border-[var(--line)] bg-[rgba(248,245,239,0.88)] p-6 text-[var(--ink)] lg:border-l lg:border-t-0">
+            <aside className="flex flex-col justify-between gap-6 overflow-y-auto border-t border-[var(--line)] bg-[rgba(248,245,239,0.88)] p-6 text-[var(--ink)] lg:border-l lg:border-t-0">
               <div>
                 <div className="flex items-center justify-between gap-4">
                   <p className="eyebrow text-[var(--muted)]">当前图片</p>
@@ -965,11 +1799,20 @@ export default function ImageGallery() {
                   </button>
                 </div>
                 <h3 className="mt-5 break-words font-display text-4xl leading-tight text-[var(--ink)]">
-                  {getDisplayName(activeImage.key)}
+                  {activeImage.title || getDisplayName(activeImage.key)}
                 </h3>
                 <p className="mt-4 break-all text-sm leading-7 text-[var(--ink-soft)]">
                   {activeImage.key}
                 </p>
+                {activeImage.tags?.length ? (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {activeImage.tags.map((tag) => (
+                      <span key={tag} className="status-pill">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
               </div>
 
               <div className="grid gap-4">
@@ -984,14 +1827,164 @@ export default function ImageGallery() {
                       <span>类型</span>
                       <span>{activeImage.mimeType}</span>
                     </div>
+                    {activeImage.width && activeImage.height ? (
+                      <div className="flex justify-between gap-4">
+                        <span>尺寸</span>
+                        <span className="flex items-center gap-2">
+                          {activeImage.dominantColor ? (
+                            <span
+                              className="h-3 w-3 rounded-full border border-[var(--line)]"
+                              style={{ backgroundColor: activeImage.dominantColor }}
+                              title={`主色 ${activeImage.dominantColor}`}
+                            />
+                          ) : null}
+                          {activeImage.width} × {activeImage.height}
+                        </span>
+                      </div>
+                    ) : null}
                     <div className="flex justify-between gap-4">
                       <span>上传时间</span>
                       <span>{formatDateTime(activeImage.uploadedAt)}</span>
                     </div>
+                    {activeImage.originalName ? (
+                      <div className="flex justify-between gap-4">
+                        <span className="shrink-0">原始文件名</span>
+                        <span className="truncate" title={activeImage.originalName}>
+                          {activeImage.originalName}
+                        </span>
+                      </div>
+                    ) : null}
+                    {activeImage.uploadedBy ? (
+                      <div className="flex justify-between gap-4">
+                        <span>上传者</span>
+                        <span>{activeImage.uploadedBy}</span>
+                      </div>
+                    ) : null}
                   </div>
                 </div>
 
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid gap-3 rounded-[14px] border border-[var(--line)] bg-[rgba(255,255,255,0.54)] p-4 text-sm">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="eyebrow text-[var(--muted)]">可见性</p>
+                    <span className="status-pill">
+                      {getImageVisibility(activeImage.key) === 'private' ? '私有' : '公开'}
+                    </span>
+                  </div>
+                  {getImageVisibility(activeImage.key) === 'private' ? (
+                    <>
+                      <p className="text-[var(--ink-soft)]">
+                        私有图片没有公开链接，只能通过限时分享链接访问。
+                      </p>
+                      <div className="flex gap-2">
+                        <select
+                          value={shareHours}
+                          onChange={(event) => setShareHours(Number(event.target.value))}
+                          aria-label="分享时长"
+                          className="input-surface px-3 py-2 text-sm"
+                        >
+                          {SHARE_HOUR_OPTIONS.map((hours) => (
+                            <option key={hours} value={hours}>
+                              {hours < 24 ? `${hours} 小时` : `${hours / 24} 天`}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => void shareImage(activeImage)}
+                          disabled={actionLoading}
+                          className={`${getActionButtonClass('secondary')} flex-1 disabled:cursor-not-allowed disabled:opacity-50`}
+                        >
+                          生成分享链接
+                        </button>
+                      </div>
+                      {shareLink ? (
+                        <div className="grid gap-1">
+                          <input
+                            type="text"
+                            value={shareLink.url}
+                            readOnly
+                            onFocus={(event) => event.target.select()}
+                            aria-label="分享链接"
+                            className="input-surface px-3 py-2 font-mono text-xs"
+                          />
+                          <span className="text-xs text-[var(--muted)]">
+                            {formatDateTime(shareLink.expiresAt)} 前有效
+                          </span>
+                        </div>
+                      ) : null}
+                    </>
+                  ) : null}
+                  {canUpload ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void changeImageVisibility(
+                          activeImage,
+                          getImageVisibility(activeImage.key) === 'private' ? 'public' : 'private'
+                        )
+                      }
+                      disabled={actionLoading}
+                      className={`${getActionButtonClass('ghost')} disabled:cursor-not-allowed disabled:opacity-50`}
+                    >
+                      {getImageVisibility(activeImage.key) === 'private' ? '设为公开' : '设为私有'}
+                    </button>
+                  ) : null}
+                </div>
+
+                {canUpload ? (
+                  <form
+                    className="grid gap-3 rounded-[14px] border border-[var(--line)] bg-[rgba(255,255,255,0.54)] p-4 text-sm"
+                    onSubmit={(event) => void saveMetadata(event)}
+                  >
+                    <p className="eyebrow text-[var(--muted)]">图片信息</p>
+                    <label className="grid gap-1 text-[var(--ink-soft)]">
+                      <span>标题</span>
+                      <input
+                        type="text"
+                        value={metadataDraft.title}
+                        onChange={(event) =>
+                          setMetadataDraft((draft) => ({ ...draft, title: event.target.value }))
+                        }
+                        maxLength={200}
+                        className="input-surface px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <label className="grid gap-1 text-[var(--ink-soft)]">
+                      <span>替代文本（alt）</span>
+                      <input
+                        type="text"
+                        value={metadataDraft.alt}
+                        onChange={(event) =>
+                          setMetadataDraft((draft) => ({ ...draft, alt: event.target.value }))
+                        }
+                        maxLength={500}
+                        placeholder="复制 Markdown 时使用"
+                        className="input-surface px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <label className="grid gap-1 text-[var(--ink-soft)]">
+                      <span>标签</span>
+                      <input
+                        type="text"
+                        value={metadataDraft.tags}
+                        onChange={(event) =>
+                          setMetadataDraft((draft) => ({ ...draft, tags: event.target.value }))
+                        }
+                        placeholder="用逗号分隔，例如 旅行, 2024"
+                        className="input-surface px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <button
+                      type="submit"
+                      disabled={actionLoading}
+                      className={`${getActionButtonClass('secondary')} disabled:cursor-not-allowed disabled:opacity-50`}
+                    >
+                      保存
+                    </button>
+                  </form>
+                ) : null}
+
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
                   <button
                     onClick={() => void copyToClipboard(activeImage.url, '链接')}
                     className={getActionButtonClass('secondary')}
@@ -999,18 +1992,29 @@ export default function ImageGallery() {
                     复制
                   </button>
                   <button
-                    onClick={() => void copyToClipboard(`![Image](${activeImage.url})`, 'Markdown')}
-                    className={getActionButtonClass('ghost')}
-                    title="复制 Markdown"
-                  >
-                    Markdown
-                  </button>
-                  <button
-                    onClick={() => void deleteImage(activeImage.key)}
-                    className={getActionButtonClass('danger')}
+                    onClick={() => copyImageLinks([activeImage])}
+                    className={`${getActionButtonClass('ghost')} truncate`}
+                    title={`复制 ${copyFormatLabel}`}
                   >
-                    删除
+                    {copyFormatLabel}
                   </button>
+                  {canUpload ? (
+                    <button
+                      onClick={() => void renameImage(activeImage)}
+                      disabled={actionLoading}
+                      className={getActionButtonClass('ghost')}
+                    >
+                      重命名
+                    </button>
+                  ) : null}
+                  {canDelete ? (
+                    <button
+                      onClick={() => void deleteImage(activeImage.key)}
+                      className={getActionButtonClass('danger')}
+                    >
+                      删除
+                    </button>
+                  ) : null}
                 </div>
               </div>
             </aside>
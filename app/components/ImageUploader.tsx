@@ -8,22 +8,79 @@ import {
 } from 'react';
 import { ToastManager } from './Toast';
 import { useToast } from '../hooks/useToast';
-
-interface UploadedImage {
+import { DIRECT_UPLOAD_THRESHOLD_BYTES } from '../lib/direct-upload';
+import { formatMarkdownImage, type ImageMetadata } from '../lib/image-metadata';
+import { parseRemoteImageUrls } from '../lib/remote-upload';
+import {
+  type MultipartSession,
+  type PresignedPartUpload,
+  type SendResult,
+  UploadAbortedError,
+  sendWithProgress,
+  uploadMultipartParts,
+} from '../lib/upload-client';
+
+interface UploadedImage extends ImageMetadata {
   key: string;
   url: string;
   size: number;
   mimeType: string;
   uploadedAt: string;
+  originalSize?: number;
 }
 
 interface UploadResponse {
   success: boolean;
   data?: UploadedImage;
+  deduplicated?: boolean;
+  error?: string;
+  details?: string;
+}
+
+interface PresignResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    upload?: {
+      url: string;
+      method: 'PUT';
+      headers: Record<string, string>;
+    };
+    multipart?: {
+      partSize: number;
+      partCount: number;
+    };
+  };
   error?: string;
   details?: string;
 }
 
+interface RemoteUploadResponse {
+  success: boolean;
+  uploaded?: Array<{ url: string; image: UploadedImage; deduplicated: boolean }>;
+  failed?: Array<{ url: string; error: string }>;
+  error?: string;
+  details?: string;
+}
+
+interface PresignPartsResponse {
+  success: boolean;
+  data?: PresignedPartUpload[];
+  error?: string;
+  details?: string;
+}
+
+interface UploadProgress {
+  loaded: number;
+  total: number;
+  state: 'uploading' | 'paused' | 'failed';
+}
+
+type UploadOutcome =
+  | { id: string; fileName: string; result: UploadResponse }
+  | { id: string; fileName: string; error: string }
+  | { id: string; paused: true };
+
 interface PreviewImage {
   id: string;
   file: File;
@@ -81,23 +138,55 @@ async function mapWithConcurrency<T, R>(
   return results;
 }
 
-export default function ImageUploader() {
+interface ImageUploaderProps {
+  /** `IMAGE_PROCESSING` is on: every upload is processed and nothing goes straight to the bucket. */
+  serverProcessing?: boolean;
+}
+
+export default function ImageUploader({ serverProcessing = false }: ImageUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [previewImages, setPreviewImages] = useState<PreviewImage[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({});
   const [quality, setQuality] = useState(80);
   const [useHashName, setUseHashName] = useState(false);
+  const [useContentHash, setUseContentHash] = useState(false);
+  const [useServerProcessing, setUseServerProcessing] = useState(serverProcessing);
   const [enableWebpCompression, setEnableWebpCompression] = useState(true);
+  const [targetFolder, setTargetFolder] = useState('');
+  const [remoteUrls, setRemoteUrls] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [folderOptions, setFolderOptions] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const previewImagesRef = useRef<PreviewImage[]>([]);
   const compressionRunIdRef = useRef(0);
+  const uploadControllersRef = useRef(new Map<string, AbortController>());
+  const multipartSessionsRef = useRef(new Map<string, MultipartSession>());
   const { toasts, removeToast, showSuccess, showError, showInfo } = useToast();
 
   useEffect(() => {
     previewImagesRef.current = previewImages;
   }, [previewImages]);
 
+  useEffect(() => {
+    const loadFolderOptions = async () => {
+      try {
+        const response = await fetch('/api/folders');
+        if (!response.ok) {
+          return;
+        }
+
+        const result = (await response.json()) as { data?: string[] };
+        setFolderOptions(result.data ?? []);
+      } catch (error) {
+        console.error('加载文件夹失败:', error);
+      }
+    };
+
+    void loadFolderOptions();
+  }, []);
+
   const createCompressedPreview = async (
     file: File,
     nextQuality: number
@@ -272,6 +361,7 @@ export default function ImageUploader() {
     return () => {
       compressionRunIdRef.current += 1;
       previewImagesRef.current.forEach(revokePreviewUrls);
+      uploadControllersRef.current.forEach((controller) => controller.abort());
     };
   }, []);
 
@@ -323,14 +413,11 @@ export default function ImageUploader() {
     }
   };
 
-  const uploadFile = async (file: File): Promise<UploadResponse> => {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('useHashName', useHashName.toString());
-
-    const response = await fetch('/api/upload', {
+  const postJson = async <T extends { error?: string; details?: string }>(url: string, payload: object) => {
+    const response = await fetch(url, {
       method: 'POST',
-      body: formData,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
     });
 
     if (response.status === 401) {
@@ -338,14 +425,315 @@ export default function ImageUploader() {
       throw new Error('登录已过期，请重新登录');
     }
 
-    const result = (await response.json().catch(() => ({}))) as UploadResponse;
-    if (!response.ok) {
+    return { response, result: (await response.json().catch(() => ({}))) as T };
+  };
+
+  const parseUploadResult = (response: SendResult): UploadResponse => {
+    if (response.status === 401) {
+      redirectToLogin();
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    let result: UploadResponse;
+    try {
+      result = JSON.parse(response.body) as UploadResponse;
+    } catch {
+      result = { success: false };
+    }
+
+    if (response.status < 200 || response.status >= 300) {
       throw new Error(result.error || result.details || '上传失败');
     }
 
     return result;
   };
 
+  const setProgress = (id: string, loaded: number, total: number, state: UploadProgress['state']) => {
+    setUploadProgress((prev) => ({ ...prev, [id]: { loaded, total, state } }));
+  };
+
+  const clearProgress = (ids: string[]) => {
+    setUploadProgress((prev) => {
+      const next = { ...prev };
+      ids.forEach((id) => delete next[id]);
+      return next;
+    });
+  };
+
+  /** Tells the server to drop a multipart upload so its parts don't linger in the bucket. */
+  const discardMultipartSession = (previewId: string) => {
+    const session = multipartSessionsRef.current.get(previewId);
+    if (!session) {
+      return;
+    }
+
+    multipartSessionsRef.current.delete(previewId);
+    void postJson('/api/upload/abort', { id: session.id }).catch((error) => {
+      console.error('取消分片上传失败:', error);
+    });
+  };
+
+  const completeMultipartUpload = async (
+    session: MultipartSession,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<UploadResponse> => {
+    // An expired or already consumed ticket can't be resumed; the next retry starts over.
+    const forgetSessionOn404 = (status: number) => {
+      if (status === 404) {
+        multipartSessionsRef.current.forEach((value, key) => {
+          if (value === session) {
+            multipartSessionsRef.current.delete(key);
+          }
+        });
+      }
+    };
+    const parts = await uploadMultipartParts(session, {
+      signal,
+      onProgress,
+      presignParts: async (partNumbers) => {
+        const { response, result } = await postJson<PresignPartsResponse>('/api/upload/parts', {
+          id: session.id,
+          partNumbers,
+        });
+        if (!response.ok || !result.data) {
+          forgetSessionOn404(response.status);
+          throw new Error(result.error || result.details || '上传失败');
+        }
+
+        return result.data;
+      },
+    });
+
+    const complete = await postJson<UploadResponse>('/api/upload/complete', { id: session.id, parts });
+    if (!complete.response.ok) {
+      forgetSessionOn404(complete.response.status);
+      throw new Error(complete.result.error || complete.result.details || '上传失败');
+    }
+
+    return complete.result;
+  };
+
+  /**
+   * Large files skip the app server: presign, PUT to the bucket (in parts when
+   * the server asks for a multipart upload), then ask the server to verify.
+   * Returns null when the server won't presign (the storage driver can't, or
+   * processing is enforced) so the caller falls back to a regular upload.
+   */
+  const uploadFileDirect = async (
+    file: File,
+    previewId: string,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<UploadResponse | null> => {
+    const pendingSession = multipartSessionsRef.current.get(previewId);
+    if (pendingSession?.file === file) {
+      const result = await completeMultipartUpload(pendingSession, signal, onProgress);
+      multipartSessionsRef.current.delete(previewId);
+      return result;
+    }
+
+    // The file changed (e.g. a different compression quality), so the old parts are useless.
+    discardMultipartSession(previewId);
+
+    const presign = await postJson<PresignResponse>('/api/upload/presign', {
+      fileName: file.name,
+      contentType: file.type,
+      size: file.size,
+      folder: targetFolder.trim(),
+      useHashName,
+    });
+
+    if (presign.response.status === 501) {
+      return null;
+    }
+
+    if (!presign.response.ok || !presign.result.data) {
+      throw new Error(presign.result.error || presign.result.details || '上传失败');
+    }
+
+    const { id, upload, multipart } = presign.result.data;
+    if (multipart) {
+      const session: MultipartSession = { id, file, ...multipart, completed: new Map() };
+      multipartSessionsRef.current.set(previewId, session);
+      const result = await completeMultipartUpload(session, signal, onProgress);
+      multipartSessionsRef.current.delete(previewId);
+      return result;
+    }
+
+    if (!upload) {
+      throw new Error('上传失败');
+    }
+
+    const putResponse = await sendWithProgress({
+      method: upload.method,
+      url: upload.url,
+      headers: upload.headers,
+      body: file,
+      signal,
+      onProgress,
+    }).catch((error) => {
+      if (error instanceof UploadAbortedError) {
+        throw error;
+      }
+
+      return null;
+    });
+
+    if (!putResponse || putResponse.status < 200 || putResponse.status >= 300) {
+      throw new Error('直传存储失败，请检查存储桶的 CORS 配置');
+    }
+
+    const complete = await postJson<UploadResponse>('/api/upload/complete', { id });
+    if (!complete.response.ok) {
+      throw new Error(complete.result.error || complete.result.details || '上传失败');
+    }
+
+    return complete.result;
+  };
+
+  const shouldUploadDirect = (file: File) =>
+    file.size > DIRECT_UPLOAD_THRESHOLD_BYTES &&
+    file.type !== 'image/svg+xml' &&
+    !useContentHash &&
+    !useServerProcessing;
+
+  const uploadFile = async (
+    file: File,
+    previewId: string,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<UploadResponse> => {
+    if (shouldUploadDirect(file)) {
+      const directResult = await uploadFileDirect(file, previewId, signal, onProgress);
+      if (directResult) {
+        return directResult;
+      }
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('useHashName', useHashName.toString());
+    formData.append('useContentHash', useContentHash.toString());
+    if (targetFolder.trim()) {
+      formData.append('folder', targetFolder.trim());
+    }
+    if (useServerProcessing) {
+      formData.append('process', 'true');
+    }
+
+    const response = await sendWithProgress({
+      method: 'POST',
+      url: '/api/upload',
+      body: formData,
+      signal,
+      onProgress: (loaded) => onProgress(Math.min(loaded, file.size)),
+    });
+
+    return parseUploadResult(response);
+  };
+
+  const uploadPreviewImage = async (image: PreviewImage): Promise<UploadOutcome> => {
+    const fileToUpload =
+      multipartSessionsRef.current.get(image.id)?.file ??
+      (enableWebpCompression && canCompress(image.file) && image.compressedFile
+        ? image.compressedFile
+        : image.file);
+    const controller = new AbortController();
+    let loaded = 0;
+
+    uploadControllersRef.current.set(image.id, controller);
+    setProgress(image.id, 0, fileToUpload.size, 'uploading');
+
+    try {
+      const result = await uploadFile(fileToUpload, image.id, controller.signal, (nextLoaded) => {
+        loaded = nextLoaded;
+        setProgress(image.id, nextLoaded, fileToUpload.size, 'uploading');
+      });
+      return {
+        id: image.id,
+        fileName: fileToUpload.name,
+        result,
+      };
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        setProgress(image.id, loaded, fileToUpload.size, 'paused');
+        return { id: image.id, paused: true };
+      }
+
+      setProgress(image.id, loaded, fileToUpload.size, 'failed');
+      return {
+        id: image.id,
+        fileName: image.file.name,
+        error: error instanceof Error ? error.message : '上传失败',
+      };
+    } finally {
+      uploadControllersRef.current.delete(image.id);
+    }
+  };
+
+  const applyUploadOutcomes = (outcomes: UploadOutcome[]) => {
+    const successfulIds = new Set<string>();
+    const nextUploadedImages: UploadedImage[] = [];
+    const failedFiles: string[] = [];
+    let deduplicatedCount = 0;
+
+    outcomes.forEach((item) => {
+      if ('paused' in item) {
+        return;
+      }
+
+      if ('result' in item && item.result.success && item.result.data) {
+        successfulIds.add(item.id);
+        nextUploadedImages.push(item.result.data);
+        if (item.result.deduplicated) {
+          deduplicatedCount += 1;
+        }
+        return;
+      }
+
+      failedFiles.push(
+        `${item.fileName}: ${('error' in item ? item.error : item.result.error) || '上传失败'}`
+      );
+    });
+
+    if (nextUploadedImages.length > 0) {
+      setUploadedImages((prev) => [...nextUploadedImages.reverse(), ...prev].slice(0, 12));
+      showSuccess(
+        nextUploadedImages.length === 1
+          ? '图片上传成功'
+          : `成功上传 ${nextUploadedImages.length} 张图片`
+      );
+    }
+
+    if (deduplicatedCount > 0) {
+      showInfo(
+        deduplicatedCount === 1
+          ? '已存在相同内容的图片，已复用原链接'
+          : `${deduplicatedCount} 张图片已存在，已复用原链接`
+      );
+    }
+
+    if (failedFiles.length > 0) {
+      showError(
+        failedFiles.length === 1
+          ? failedFiles[0]
+          : `${failedFiles.length} 张图片上传失败`
+      );
+    }
+
+    if (successfulIds.size > 0) {
+      clearProgress([...successfulIds]);
+      setPreviewImages((prev) => {
+        const remaining = prev.filter((image) => !successfulIds.has(image.id));
+        prev
+          .filter((image) => successfulIds.has(image.id))
+          .forEach(revokePreviewUrls);
+        return remaining;
+      });
+    }
+  };
+
   const uploadPreviewImages = async () => {
     if (previewImages.length === 0) {
       showInfo('没有可上传的图片');
@@ -355,76 +743,83 @@ export default function ImageUploader() {
     setIsUploading(true);
 
     try {
-      const snapshots = [...previewImagesRef.current];
-      const results = await mapWithConcurrency(
-        snapshots,
-        UPLOAD_CONCURRENCY,
-        async (image) => {
-          const fileToUpload =
-            enableWebpCompression && canCompress(image.file) && image.compressedFile
-              ? image.compressedFile
-              : image.file;
-
-          try {
-            const result = await uploadFile(fileToUpload);
-            return {
-              id: image.id,
-              fileName: fileToUpload.name,
-              result,
-            };
-          } catch (error) {
-            return {
-              id: image.id,
-              fileName: image.file.name,
-              error: error instanceof Error ? error.message : '上传失败',
-            };
-          }
-        }
+      const snapshots = previewImagesRef.current.filter(
+        (image) => !uploadControllersRef.current.has(image.id)
       );
+      applyUploadOutcomes(await mapWithConcurrency(snapshots, UPLOAD_CONCURRENCY, uploadPreviewImage));
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
-      const successfulIds = new Set<string>();
-      const nextUploadedImages: UploadedImage[] = [];
-      const failedFiles: string[] = [];
+  const importRemoteImages = async () => {
+    const parsed = parseRemoteImageUrls([remoteUrls]);
+    if (!parsed.ok) {
+      showError(remoteUrls.trim() ? '请输入有效的 http(s) 图片链接，每次最多 10 个' : '请输入图片链接');
+      return;
+    }
 
-      results.forEach((item) => {
-        if (item.result?.success && item.result.data) {
-          successfulIds.add(item.id);
-          nextUploadedImages.push(item.result.data);
-          return;
-        }
+    const formData = new FormData();
+    parsed.urls.forEach((url) => formData.append('url', url));
+    formData.append('useHashName', useHashName.toString());
+    formData.append('useContentHash', useContentHash.toString());
+    if (targetFolder.trim()) {
+      formData.append('folder', targetFolder.trim());
+    }
+    if (useServerProcessing) {
+      formData.append('process', 'true');
+    }
+
+    setIsImporting(true);
 
-        failedFiles.push(`${item.fileName}: ${item.error || item.result?.error || '上传失败'}`);
+    try {
+      const response = await fetch('/api/upload/remote', {
+        method: 'POST',
+        body: formData,
       });
 
-      if (nextUploadedImages.length > 0) {
-        setUploadedImages((prev) => [...nextUploadedImages.reverse(), ...prev].slice(0, 12));
-        showSuccess(
-          nextUploadedImages.length === 1
-            ? '图片上传成功'
-            : `成功上传 ${nextUploadedImages.length} 张图片`
-        );
+      if (response.status === 401) {
+        redirectToLogin();
+        return;
       }
 
-      if (failedFiles.length > 0) {
-        showError(
-          failedFiles.length === 1
-            ? failedFiles[0]
-            : `${failedFiles.length} 张图片上传失败`
-        );
+      const result = (await response.json().catch(() => ({}))) as RemoteUploadResponse;
+      if (!response.ok) {
+        throw new Error(result.error || result.details || '导入失败');
       }
 
-      if (successfulIds.size > 0) {
-        setPreviewImages((prev) => {
-          const remaining = prev.filter((image) => !successfulIds.has(image.id));
-          prev
-            .filter((image) => successfulIds.has(image.id))
-            .forEach(revokePreviewUrls);
-          return remaining;
-        });
-      }
+      const uploaded = result.uploaded ?? [];
+      const failed = result.failed ?? [];
+      applyUploadOutcomes([
+        ...uploaded.map((item) => ({
+          id: item.url,
+          fileName: item.url,
+          result: { success: true, data: item.image, deduplicated: item.deduplicated },
+        })),
+        ...failed.map((item) => ({ id: item.url, fileName: item.url, error: item.error })),
+      ]);
+      // Keep only the links that failed so they can be fixed and retried.
+      setRemoteUrls(failed.map((item) => item.url).join('\n'));
+    } catch (error) {
+      console.error('导入失败:', error);
+      showError(error instanceof Error ? error.message : '导入失败');
     } finally {
-      setIsUploading(false);
+      setIsImporting(false);
+    }
+  };
+
+  const pauseUpload = (id: string) => {
+    uploadControllersRef.current.get(id)?.abort();
+  };
+
+  /** Resumes a paused upload or retries a failed one; multipart uploads only send the missing parts. */
+  const resumeUpload = async (id: string) => {
+    const image = previewImagesRef.current.find((item) => item.id === id);
+    if (!image || uploadControllersRef.current.has(id)) {
+      return;
     }
+
+    applyUploadOutcomes([await uploadPreviewImage(image)]);
   };
 
   const removePreviewImage = async (id: string) => {
@@ -434,6 +829,9 @@ export default function ImageUploader() {
       return;
     }
 
+    pauseUpload(id);
+    discardMultipartSession(id);
+    clearProgress([id]);
     revokePreviewUrls(imageToRemove);
     const remainingImages = currentImages.filter((image) => image.id !== id);
     compressionRunIdRef.current += 1;
@@ -446,6 +844,9 @@ export default function ImageUploader() {
 
   const clearPreviews = () => {
     compressionRunIdRef.current += 1;
+    uploadControllersRef.current.forEach((controller) => controller.abort());
+    [...multipartSessionsRef.current.keys()].forEach(discardMultipartSession);
+    setUploadProgress({});
     setPreviewImages((prev) => {
       prev.forEach(revokePreviewUrls);
       return [];
@@ -594,12 +995,25 @@ export default function ImageUploader() {
             <label className="flex items-center gap-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5 text-sm text-[var(--ink)]">
               <input
                 type="checkbox"
-                checked={useHashName}
+                checked={useHashName && !useContentHash}
                 onChange={(event) => setUseHashName(event.target.checked)}
-                className="h-4 w-4 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)]"
+                disabled={useContentHash}
+                className="h-4 w-4 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)] disabled:opacity-50"
               />
               <span>随机文件名</span>
             </label>
+            <label
+              className="flex items-center gap-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5 text-sm text-[var(--ink)]"
+              title="以 SHA-256 作为文件名，重复内容直接复用已有图片"
+            >
+              <input
+                type="checkbox"
+                checked={useContentHash}
+                onChange={(event) => setUseContentHash(event.target.checked)}
+                className="h-4 w-4 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)]"
+              />
+              <span>内容去重</span>
+            </label>
             <label className="flex items-center gap-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5 text-sm text-[var(--ink)]">
               <input
                 type="checkbox"
@@ -609,6 +1023,60 @@ export default function ImageUploader() {
               />
               <span>WebP 压缩</span>
             </label>
+            <label
+              className="flex items-center gap-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5 text-sm text-[var(--ink)]"
+              title={
+                serverProcessing
+                  ? '部署已开启服务端处理，所有上传都会经过处理'
+                  : '由服务端去除 EXIF、自动旋转、限制尺寸并按部署配置重新编码'
+              }
+            >
+              <input
+                type="checkbox"
+                checked={useServerProcessing}
+                disabled={serverProcessing}
+                onChange={(event) => setUseServerProcessing(event.target.checked)}
+                className="h-4 w-4 rounded border-[var(--line-strong)] bg-[var(--paper)] text-[var(--accent)]"
+              />
+              <span>服务端优化</span>
+            </label>
+          </div>
+
+          <label className="mt-3 flex items-center gap-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5 text-sm text-[var(--ink)]">
+            <span className="shrink-0 text-[var(--ink-soft)]">目标文件夹</span>
+            <input
+              type="text"
+              value={targetFolder}
+              onChange={(event) => setTargetFolder(event.target.value)}
+              list="upload-folder-options"
+              placeholder="留空上传到根目录，例如 albums/2024"
+              className="min-w-0 flex-1 bg-transparent outline-none placeholder:text-[var(--muted)]"
+            />
+            <datalist id="upload-folder-options">
+              {folderOptions.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+          </label>
+
+          <div className="mt-3 rounded-lg border border-[var(--line)] bg-[var(--surface)] px-3 py-2.5">
+            <div className="mb-2 flex items-center justify-between gap-3 text-sm">
+              <span className="text-[var(--ink-soft)]">从链接导入</span>
+              <button
+                onClick={() => void importRemoteImages()}
+                disabled={isImporting || !remoteUrls.trim()}
+                className="button-secondary px-3 py-1.5 text-xs disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isImporting ? '导入中...' : '导入'}
+              </button>
+            </div>
+            <textarea
+              value={remoteUrls}
+              onChange={(event) => setRemoteUrls(event.target.value)}
+              rows={2}
+              placeholder="每行一个图片链接，一次最多 10 个"
+              className="w-full resize-y bg-transparent text-sm outline-none placeholder:text-[var(--muted)]"
+            />
           </div>
 
           {enableWebpCompression ? (
@@ -677,6 +1145,11 @@ export default function ImageUploader() {
                         100
                     )
                   : null;
+                const progress = uploadProgress[previewImage.id];
+                const progressPercent =
+                  progress && progress.total > 0
+                    ? Math.min(100, Math.round((progress.loaded / progress.total) * 100))
+                    : 0;
 
                 return (
                   <article
@@ -723,8 +1196,48 @@ export default function ImageUploader() {
                         {previewImage.isProcessing ? (
                           <span className="text-[var(--accent)]">压缩中...</span>
                         ) : null}
+                        {progress ? (
+                          <span
+                            className={
+                              progress.state === 'failed'
+                                ? 'text-[var(--danger)]'
+                                : 'text-[var(--accent)]'
+                            }
+                          >
+                            {progress.state === 'uploading'
+                              ? `上传中 ${progressPercent}%`
+                              : progress.state === 'paused'
+                                ? `已暂停 ${progressPercent}%`
+                                : '上传失败'}
+                          </span>
+                        ) : null}
                       </div>
+                      {progress ? (
+                        <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-[rgba(15,23,42,0.08)]">
+                          <div
+                            className={`h-full rounded-full ${
+                              progress.state === 'failed' ? 'bg-[var(--danger)]' : 'bg-[var(--accent)]'
+                            }`}
+                            style={{ width: `${progressPercent}%` }}
+                          />
+                        </div>
+                      ) : null}
                     </div>
+                    {progress?.state === 'uploading' ? (
+                      <button
+                        onClick={() => pauseUpload(previewImage.id)}
+                        className="rounded-md border border-[var(--line)] px-2 py-1 text-xs text-[var(--ink-soft)] hover:border-[var(--line-strong)] hover:text-[var(--ink)]"
+                      >
+                        暂停
+                      </button>
+                    ) : progress ? (
+                      <button
+                        onClick={() => void resumeUpload(previewImage.id)}
+                        className="rounded-md border border-[var(--line)] px-2 py-1 text-xs text-[var(--ink-soft)] hover:border-[var(--line-strong)] hover:text-[var(--ink)]"
+                      >
+                        {progress.state === 'paused' ? '继续' : '重试'}
+                      </button>
+                    ) : null}
                     <button
                       onClick={() => void removePreviewImage(previewImage.id)}
                       className="rounded-md border border-[var(--line)] px-2 py-1 text-xs text-[var(--ink-soft)] hover:border-[var(--line-strong)] hover:text-[var(--ink)]"
@@ -767,7 +1280,9 @@ export default function ImageUploader() {
                       {image.key.split('/').pop()}
                     </p>
                     <p className="mt-0.5 text-xs text-[var(--muted)]">
-                      {formatFileSize(image.size)}
+                      {image.originalSize && image.originalSize !== image.size
+                        ? `${formatFileSize(image.originalSize)} → ${formatFileSize(image.size)}`
+                        : formatFileSize(image.size)}
                     </p>
                   </div>
                 </div>
@@ -780,7 +1295,7 @@ export default function ImageUploader() {
                   </button>
                   <button
                     onClick={() =>
-                      void copyToClipboard(`![Image](${image.url})`, 'Markdown')
+                      void copyToClipboard(formatMarkdownImage(image), 'Markdown')
                     }
                     className="button-secondary px-2 py-2 text-xs"
                   >
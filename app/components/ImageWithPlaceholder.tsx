@@ -0,0 +1,56 @@
+import { type ImgHTMLAttributes, useEffect, useRef, useState } from 'react';
+
+interface ImageWithPlaceholderProps extends ImgHTMLAttributes<HTMLImageElement> {
+  /** Data URL of the tiny preview recorded at upload. */
+  placeholder?: string;
+  dominantColor?: string;
+}
+
+/**
+ * An image drawn over its blurred preview, which is removed once the image
+ * has loaded so transparent areas don't show it. The parent must be
+ * `relative overflow-hidden`.
+ */
+export default function ImageWithPlaceholder({
+  placeholder,
+  dominantColor,
+  className,
+  onLoad,
+  ...props
+}: ImageWithPlaceholderProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Cached images can finish loading before hydration attaches `onLoad`.
+  useEffect(() => {
+    if (imageRef.current?.complete) {
+      setLoaded(true);
+    }
+  }, []);
+
+  return (
+    <>
+      {!loaded && (placeholder || dominantColor) ? (
+        <span
+          aria-hidden="true"
+          className="absolute inset-0 scale-110 blur-lg"
+          style={{
+            backgroundColor: dominantColor,
+            backgroundImage: placeholder ? `url("${placeholder}")` : undefined,
+            backgroundPosition: 'center',
+            backgroundSize: 'cover',
+          }}
+        />
+      ) : null}
+      <img
+        {...props}
+        ref={imageRef}
+        className={`relative ${className ?? ''}`}
+        onLoad={(event) => {
+          setLoaded(true);
+          onLoad?.(event);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+import { type FormEvent, useEffect, useState } from 'react';
+
+import { ToastManager } from './Toast';
+import { useToast } from '../hooks/useToast';
+import {
+  LINK_TEMPLATE_PLACEHOLDERS,
+  MAX_LINK_TEMPLATES,
+  MAX_LINK_TEMPLATE_LENGTH,
+  MAX_LINK_TEMPLATE_NAME_LENGTH,
+  renderLinkTemplate,
+  type LinkTemplate,
+  type LinkTemplateInput,
+} from '../lib/link-formats';
+
+interface LinkTemplatesResponse {
+  success: boolean;
+  data?: LinkTemplate[];
+  error?: string;
+  details?: string;
+}
+
+/** Shown as the preview of every template. */
+const SAMPLE_IMAGE = {
+  key: 'blog/2024/sunset.jpg',
+  url: 'https://img.example.com/blog/2024/sunset.jpg',
+  size: 245760,
+  mimeType: 'image/jpeg',
+  title: '海边日落',
+  alt: '海边的日落',
+  width: 1600,
+  height: 1067,
+};
+
+export default function LinkTemplateManager() {
+  const [templates, setTemplates] = useState<LinkTemplateInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+
+  const sendTemplatesRequest = async (method: 'GET' | 'PUT', payload?: object) => {
+    const response = await fetch('/api/link-templates', {
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign('/login?next=%2Fsettings');
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as LinkTemplatesResponse;
+    if (!response.ok) {
+      throw new Error(
+        result.error === 'Invalid templates'
+          ? '模板名称和内容不能为空'
+          : result.error || result.details || '操作失败'
+      );
+    }
+
+    return result;
+  };
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const result = await sendTemplatesRequest('GET');
+      setTemplates(result.data ?? []);
+    } catch (err) {
+      console.error('加载复制模板失败:', err);
+      showError(err instanceof Error ? err.message : '加载复制模板失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadTemplates();
+  }, []);
+
+  const updateTemplate = (index: number, update: Partial<LinkTemplateInput>) => {
+    setTemplates((current) =>
+      current.map((template, candidate) => (candidate === index ? { ...template, ...update } : template))
+    );
+  };
+
+  const addTemplate = () => {
+    setTemplates((current) => [...current, { name: '', template: '<a href="{url}">{alt}</a>' }]);
+  };
+
+  const removeTemplate = (index: number) => {
+    setTemplates((current) => current.filter((_, candidate) => candidate !== index));
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      const result = await sendTemplatesRequest('PUT', { templates });
+      setTemplates(result.data ?? []);
+      showSuccess('复制模板已保存');
+    } catch (err) {
+      console.error('保存复制模板失败:', err);
+      showError(err instanceof Error ? err.message : '保存复制模板失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <section className="panel panel-light p-5 sm:p-6">
+        <h2 className="text-lg font-semibold text-[var(--ink)]">复制模板</h2>
+        <p className="mt-2 text-sm text-[var(--ink-soft)]">
+          在图库中复制链接时，除了内置的 Markdown、HTML、BBCode 等格式，还可以使用这里定义的模板。可用的占位符：
+        </p>
+        <div className="mt-3 flex flex-wrap gap-2 text-xs text-[var(--ink-soft)]">
+          {LINK_TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+            <span key={placeholder.name} className="rounded-md bg-[var(--surface)] px-2 py-1">
+              <code>{`{${placeholder.name}}`}</code> {placeholder.description}
+            </span>
+          ))}
+        </div>
+
+        <form className="mt-5 space-y-4" onSubmit={handleSave}>
+          {loading ? (
+            <p className="text-sm text-[var(--ink-soft)]">加载中...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-[var(--ink-soft)]">还没有自定义模板</p>
+          ) : (
+            templates.map((template, index) => (
+              <div key={template.id ?? `new-${index}`} className="rounded-lg border border-[var(--line)] p-3">
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <input
+                    type="text"
+                    value={template.name}
+                    onChange={(event) => updateTemplate(index, { name: event.target.value })}
+                    placeholder="名称，例如 博客配图"
+                    maxLength={MAX_LINK_TEMPLATE_NAME_LENGTH}
+                    required
+                    className="input-surface px-3 py-2 text-sm sm:w-48"
+                  />
+                  <textarea
+                    value={template.template}
+                    onChange={(event) => updateTemplate(index, { template: event.target.value })}
+                    maxLength={MAX_LINK_TEMPLATE_LENGTH}
+                    rows={2}
+                    required
+                    className="input-surface min-w-0 flex-1 px-3 py-2 font-mono text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeTemplate(index)}
+                    className="button-danger px-3 py-2 text-sm"
+                  >
+                    删除
+                  </button>
+                </div>
+                <pre className="mt-2 overflow-x-auto whitespace-pre-wrap break-all text-xs text-[var(--muted)]">
+                  {renderLinkTemplate(SAMPLE_IMAGE, template.template)}
+                </pre>
+              </div>
+            ))
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={addTemplate}
+              disabled={loading || templates.length >= MAX_LINK_TEMPLATES}
+              className="button-secondary px-4 py-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              添加模板
+            </button>
+            <button
+              type="submit"
+              disabled={loading || saving}
+              className="button-primary ml-auto px-4 py-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              保存
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <ToastManager toasts={toasts} removeToast={removeToast} />
+    </>
+  );
+}
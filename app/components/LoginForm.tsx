@@ -1,19 +1,57 @@
-import { type FormEvent, useState } from 'react';
+import { type FormEvent, useEffect, useState } from 'react';
 
 interface LoginFormProps {
   nextPath?: string;
 }
 
+interface LoginResponse {
+  error?: string;
+  redirectTo?: string;
+  twoFactorRequired?: boolean;
+  retryAfter?: number;
+  locked?: boolean;
+}
+
+function formatWait(seconds: number) {
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} 分钟` : `${seconds} 秒`;
+}
+
 export default function LoginForm({ nextPath = '/' }: LoginFormProps) {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [retryUntil, setRetryUntil] = useState<number | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const waitSeconds = retryUntil ? Math.max(0, Math.ceil((retryUntil - now) / 1000)) : 0;
+
+  useEffect(() => {
+    if (!retryUntil) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+
+      if (current >= retryUntil) {
+        setRetryUntil(null);
+        setLocked(false);
+        window.clearInterval(timer);
+      }
+    }, 1000);
+
+    return () => window.clearInterval(timer);
+  }, [retryUntil]);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
 
-    if (!password.trim()) {
-      setError('请输入密码');
+    if (twoFactorStep ? !code.trim() : !password.trim()) {
+      setError(twoFactorStep ? '请输入验证码' : '请输入密码');
       return;
     }
 
@@ -21,27 +59,59 @@ export default function LoginForm({ nextPath = '/' }: LoginFormProps) {
     setError('');
 
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await fetch(twoFactorStep ? '/api/auth/two-factor' : '/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          password,
-          next: nextPath,
-        }),
+        body: JSON.stringify(
+          twoFactorStep
+            ? { code, next: nextPath }
+            : {
+                username,
+                password,
+                next: nextPath,
+              }
+        ),
       });
 
-      const data = (await response
-        .json()
-        .catch(() => ({}))) as { error?: string; redirectTo?: string };
+      const data = (await response.json().catch(() => ({}))) as LoginResponse;
+
+      if (response.ok && data.twoFactorRequired) {
+        setTwoFactorStep(true);
+        setPassword('');
+        return;
+      }
 
       if (response.ok) {
         window.location.assign(data.redirectTo || nextPath || '/');
         return;
       }
 
-      setError(data.error || '登录失败');
+      if (data.retryAfter) {
+        setNow(Date.now());
+        setRetryUntil(Date.now() + data.retryAfter * 1000);
+        setLocked(Boolean(data.locked));
+      }
+
+      if (response.status === 429) {
+        setError(data.locked ? '失败次数过多，登录已临时锁定' : '尝试过于频繁');
+        return;
+      }
+
+      if (twoFactorStep) {
+        if (response.status === 401) {
+          setTwoFactorStep(false);
+          setCode('');
+          setError('验证已超时，请重新输入密码');
+          return;
+        }
+
+        setError(response.status === 400 ? '验证码无效' : data.error || '验证失败');
+        return;
+      }
+
+      setError(response.status === 401 ? '用户名或密码错误' : data.error || '登录失败');
     } catch {
       setError('网络错误，请重试');
     } finally {
@@ -52,40 +122,92 @@ export default function LoginForm({ nextPath = '/' }: LoginFormProps) {
   return (
     <div className="mx-auto max-w-md py-6">
       <section className="panel panel-light px-6 py-7 sm:px-7">
-        <h2 className="text-lg font-semibold text-[var(--ink)]">管理员登录</h2>
-        <p className="mt-1 text-sm text-[var(--ink-soft)]">输入密码后继续</p>
+        <h2 className="text-lg font-semibold text-[var(--ink)]">登录</h2>
+        <p className="mt-1 text-sm text-[var(--ink-soft)]">
+          {twoFactorStep ? '输入身份验证器中的 6 位验证码，或一个未使用的恢复码' : '输入用户名和密码后继续'}
+        </p>
 
         <form className="mt-5 space-y-4" onSubmit={handleSubmit}>
-          <div className="space-y-2">
-            <label htmlFor="password" className="text-sm font-medium text-[var(--ink)]">
-              密码
-            </label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              required
-              className="input-surface block w-full px-4 py-3 text-sm placeholder:text-[var(--muted-soft)]"
-              placeholder="请输入管理员密码"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              disabled={loading}
-              autoFocus
-            />
-          </div>
+          {twoFactorStep ? (
+            <div className="space-y-2">
+              <label htmlFor="code" className="text-sm font-medium text-[var(--ink)]">
+                验证码
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="input-surface block w-full px-4 py-3 text-sm tracking-widest placeholder:text-[var(--muted-soft)]"
+                placeholder="123456 或 abcd-efgh"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={loading}
+                autoFocus
+              />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <label htmlFor="username" className="text-sm font-medium text-[var(--ink)]">
+                  用户名
+                </label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  autoComplete="username"
+                  className="input-surface block w-full px-4 py-3 text-sm placeholder:text-[var(--muted-soft)]"
+                  placeholder="未创建用户时留空，使用管理员密码登录"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  disabled={loading}
+                  autoFocus
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="password" className="text-sm font-medium text-[var(--ink)]">
+                  密码
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  className="input-surface block w-full px-4 py-3 text-sm placeholder:text-[var(--muted-soft)]"
+                  autoComplete="current-password"
+                  placeholder="请输入密码"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            </>
+          )}
 
           {error ? (
             <div className="rounded-lg border border-[rgba(220,38,38,0.24)] bg-[rgba(254,242,242,0.9)] px-3 py-2 text-sm text-[var(--danger)]">
               {error}
+              {waitSeconds > 0 ? `，请在 ${formatWait(waitSeconds)}后重试` : ''}
             </div>
           ) : null}
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || waitSeconds > 0}
             className="button-primary w-full disabled:cursor-not-allowed disabled:opacity-50"
           >
-            {loading ? '登录中...' : '登录'}
+            {loading
+              ? '登录中...'
+              : waitSeconds > 0
+                ? locked
+                  ? '已锁定'
+                  : `请等待 ${waitSeconds} 秒`
+                : twoFactorStep
+                  ? '验证'
+                  : '登录'}
           </button>
         </form>
       </section>
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+
+import { ToastManager } from './Toast';
+import { useToast } from '../hooks/useToast';
+
+interface ActiveSession {
+  id: string;
+  username: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+interface SessionsResponse {
+  success: boolean;
+  data?: ActiveSession[];
+  redirectTo?: string;
+  error?: string;
+  details?: string;
+}
+
+interface SessionManagerProps {
+  showUsernames: boolean;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('zh-CN');
+}
+
+export default function SessionManager({ showUsernames }: SessionManagerProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+
+  const sendSessionRequest = async (method: 'GET' | 'DELETE', payload?: object) => {
+    const response = await fetch('/api/sessions', {
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign('/login?next=%2Fsessions');
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as SessionsResponse;
+    if (!response.ok) {
+      throw new Error(result.error || result.details || '操作失败');
+    }
+
+    return result;
+  };
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      const result = await sendSessionRequest('GET');
+      setSessions(result.data ?? []);
+    } catch (err) {
+      console.error('加载会话失败:', err);
+      showError(err instanceof Error ? err.message : '加载会话失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadSessions();
+  }, []);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (session.current) {
+      showError('当前会话请使用“退出登录”');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await sendSessionRequest('DELETE', { id: session.id });
+      showSuccess('会话已注销');
+      await loadSessions();
+    } catch (err) {
+      console.error('注销会话失败:', err);
+      showError(err instanceof Error ? err.message : '注销会话失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!window.confirm('确定要退出所有设备上的登录吗？当前设备也会退出。')) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await sendSessionRequest('DELETE', { all: true });
+      window.location.assign(result.redirectTo || '/login');
+    } catch (err) {
+      console.error('退出所有会话失败:', err);
+      showError(err instanceof Error ? err.message : '退出所有会话失败');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <section className="panel panel-light p-5 sm:p-6">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-lg font-semibold text-[var(--ink)]">登录会话</h1>
+              <p className="mt-2 text-sm text-[var(--ink-soft)]">
+                {showUsernames ? '所有用户当前有效的登录会话。' : '你的账号当前有效的登录会话。'}
+                注销后对应设备需要重新登录。
+              </p>
+            </div>
+            <button
+              onClick={() => void handleSignOutEverywhere()}
+              disabled={saving}
+              className="button-danger px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              退出所有设备
+            </button>
+          </div>
+        </section>
+
+        <section className="panel panel-light p-5 sm:p-6">
+          {loading ? (
+            <p className="text-sm text-[var(--ink-soft)]">加载中...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-[var(--ink-soft)]">没有有效的会话</p>
+          ) : (
+            <div className="divide-y divide-[var(--line)]">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--ink)]">
+                      {showUsernames ? `${session.username} · ` : ''}
+                      {session.ip}
+                      {session.current ? (
+                        <span className="ml-2 text-xs text-[var(--muted)]">（当前会话）</span>
+                      ) : null}
+                    </p>
+                    <p className="mt-1 truncate text-xs text-[var(--muted)]" title={session.userAgent}>
+                      {session.userAgent || '未知设备'}
+                    </p>
+                    <p className="mt-1 text-xs text-[var(--muted)]">
+                      登录于 {formatDate(session.createdAt)} · 最近活动 {formatDate(session.lastSeenAt)}
+                    </p>
+                  </div>
+                  {session.current ? null : (
+                    <button
+                      onClick={() => void handleRevoke(session)}
+                      disabled={saving}
+                      className="button-secondary px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      注销
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      <ToastManager toasts={toasts} removeToast={removeToast} />
+    </>
+  );
+}
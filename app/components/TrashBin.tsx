@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+
+import type { TrashItem } from '../lib/trash';
+
+interface TrashResponse {
+  success: boolean;
+  data?: TrashItem[];
+  retentionDays?: number;
+  restored?: string[];
+  conflicts?: string[];
+  purged?: string[];
+  failed?: Array<{ id: string; error: string }>;
+  error?: string;
+  details?: string;
+}
+
+interface TrashBinProps {
+  showSuccess: (message: string) => void;
+  showError: (message: string) => void;
+  /** Called after images were restored, so the gallery can reload. */
+  onRestored: () => void;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('zh-CN');
+}
+
+function getFileName(key: string): string {
+  return key.split('/').pop() || key;
+}
+
+export default function TrashBin({ showSuccess, showError, onRestored }: TrashBinProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const sendTrashRequest = async (method: 'GET' | 'POST' | 'DELETE', ids?: string[]) => {
+    const response = await fetch('/api/trash', {
+      method,
+      headers: ids ? { 'Content-Type': 'application/json' } : undefined,
+      body: ids ? JSON.stringify({ ids }) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign(`/login?next=${encodeURIComponent('/gallery')}`);
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as TrashResponse;
+    if (!response.ok && response.status !== 409) {
+      throw new Error(result.error || result.details || '操作失败');
+    }
+
+    return result;
+  };
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      const result = await sendTrashRequest('GET');
+      setItems(result.data ?? []);
+      setRetentionDays(result.retentionDays ?? null);
+      setSelected(new Set());
+    } catch (err) {
+      console.error('加载回收站失败:', err);
+      showError(err instanceof Error ? err.message : '加载回收站失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadTrash();
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const restoreItems = async (ids: string[]) => {
+    try {
+      setSaving(true);
+      const result = await sendTrashRequest('POST', ids);
+      const restoredCount = result.restored?.length ?? 0;
+      const conflictCount = result.conflicts?.length ?? 0;
+      const failedCount = result.failed?.length ?? 0;
+
+      if (restoredCount > 0) {
+        showSuccess(restoredCount === 1 ? '图片已恢复' : `已恢复 ${restoredCount} 张图片`);
+        onRestored();
+      }
+      if (conflictCount > 0) {
+        showError(`${conflictCount} 张图片的原位置已有同名文件，请先重命名或移走后再恢复`);
+      }
+      if (failedCount > 0) {
+        showError(`${failedCount} 张图片恢复失败`);
+      }
+      await loadTrash();
+    } catch (err) {
+      console.error('恢复图片失败:', err);
+      showError(err instanceof Error ? err.message : '恢复图片失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const purgeItems = async (ids: string[]) => {
+    const message =
+      ids.length === items.length
+        ? '确定要清空回收站吗？其中的图片将被永久删除，无法恢复。'
+        : `确定要永久删除选中的 ${ids.length} 张图片吗？此操作无法恢复。`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await sendTrashRequest('DELETE', ids);
+      const failedCount = result.failed?.length ?? 0;
+
+      if (failedCount > 0) {
+        showError(`${failedCount} 张图片删除失败`);
+      } else {
+        showSuccess(`已永久删除 ${result.purged?.length ?? 0} 张图片`);
+      }
+      await loadTrash();
+    } catch (err) {
+      console.error('永久删除失败:', err);
+      showError(err instanceof Error ? err.message : '永久删除失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedIds = [...selected];
+
+  return (
+    <section className="panel panel-light p-5 sm:p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-[var(--ink)]">回收站</h2>
+          <p className="mt-2 text-sm text-[var(--ink-soft)]">
+            删除的图片会在这里保留{retentionDays ? ` ${retentionDays} 天` : '一段时间'}，到期后自动永久删除。
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => void restoreItems(selectedIds)}
+            disabled={selected.size === 0 || saving}
+            className="button-secondary px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            恢复选中
+          </button>
+          <button
+            onClick={() => void purgeItems(selectedIds)}
+            disabled={selected.size === 0 || saving}
+            className="button-danger px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            永久删除
+          </button>
+          <button
+            onClick={() => void purgeItems(items.map((item) => item.id))}
+            disabled={items.length === 0 || saving}
+            className="button-danger px-4 py-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            清空回收站
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-5">
+        {loading ? (
+          <p className="text-sm text-[var(--ink-soft)]">加载中...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-[var(--ink-soft)]">回收站是空的</p>
+        ) : (
+          <div className="divide-y divide-[var(--line)]">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 py-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  aria-label={`选择 ${getFileName(item.key)}`}
+                  className="h-4 w-4 shrink-0"
+                />
+                <img
+                  src={item.url}
+                  alt={getFileName(item.key)}
+                  loading="lazy"
+                  className="h-14 w-14 shrink-0 rounded-lg border border-[var(--line)] bg-[var(--surface)] object-cover"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-mono text-sm text-[var(--ink)]" title={item.key}>
+                    {item.key}
+                  </p>
+                  <p className="mt-1 text-xs text-[var(--muted)]">
+                    {item.deletedBy ? `${item.deletedBy} ` : ''}删除于 {formatDate(item.deletedAt)} · 将于{' '}
+                    {formatDate(item.expiresAt)} 永久删除
+                  </p>
+                </div>
+                <button
+                  onClick={() => void restoreItems([item.id])}
+                  disabled={saving}
+                  className="button-secondary px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  恢复
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
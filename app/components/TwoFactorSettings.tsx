@@ -0,0 +1,259 @@
+import { type FormEvent, useEffect, useState } from 'react';
+
+import { ToastManager } from './Toast';
+import { useToast } from '../hooks/useToast';
+
+interface TwoFactorStatus {
+  available: boolean;
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorResponse {
+  success: boolean;
+  data?: TwoFactorStatus;
+  secret?: string;
+  qrCode?: string;
+  recoveryCodes?: string[];
+  error?: string;
+  details?: string;
+}
+
+interface Enrolment {
+  secret: string;
+  qrCode: string;
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+
+  const sendTwoFactorRequest = async (method: 'GET' | 'POST' | 'DELETE', payload?: object) => {
+    const response = await fetch('/api/two-factor', {
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign('/login?next=%2Fsettings');
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as TwoFactorResponse;
+    if (!response.ok) {
+      throw new Error(
+        result.error === 'Invalid verification code' ? '验证码无效' : result.error || result.details || '操作失败'
+      );
+    }
+
+    return result;
+  };
+
+  const loadStatus = async () => {
+    try {
+      const result = await sendTwoFactorRequest('GET');
+      setStatus(result.data ?? null);
+    } catch (err) {
+      console.error('加载两步验证状态失败:', err);
+      showError(err instanceof Error ? err.message : '加载两步验证状态失败');
+    }
+  };
+
+  useEffect(() => {
+    void loadStatus();
+  }, []);
+
+  const runAction = async (label: string, task: () => Promise<void>) => {
+    try {
+      setSaving(true);
+      await task();
+    } catch (err) {
+      console.error(`${label}失败:`, err);
+      showError(err instanceof Error ? err.message : `${label}失败`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBegin = () =>
+    runAction('开始设置', async () => {
+      const result = await sendTwoFactorRequest('POST', { action: 'begin' });
+      setEnrolment(result.secret && result.qrCode ? { secret: result.secret, qrCode: result.qrCode } : null);
+      setRecoveryCodes(null);
+      setCode('');
+    });
+
+  const handleConfirm = (event: FormEvent) => {
+    event.preventDefault();
+    void runAction('启用两步验证', async () => {
+      const result = await sendTwoFactorRequest('POST', { action: 'confirm', code });
+      setRecoveryCodes(result.recoveryCodes ?? []);
+      setEnrolment(null);
+      setCode('');
+      showSuccess('两步验证已启用');
+      await loadStatus();
+    });
+  };
+
+  const handleRegenerate = () => {
+    if (!code.trim()) {
+      showError('请先输入当前验证码');
+      return;
+    }
+
+    void runAction('重新生成恢复码', async () => {
+      const result = await sendTwoFactorRequest('POST', { action: 'regenerate', code });
+      setRecoveryCodes(result.recoveryCodes ?? []);
+      setCode('');
+      showSuccess('恢复码已重新生成');
+      await loadStatus();
+    });
+  };
+
+  const handleDisable = () => {
+    if (!code.trim()) {
+      showError('请先输入当前验证码');
+      return;
+    }
+
+    if (!window.confirm('确定要关闭两步验证吗？')) {
+      return;
+    }
+
+    void runAction('关闭两步验证', async () => {
+      await sendTwoFactorRequest('DELETE', { code });
+      setRecoveryCodes(null);
+      setCode('');
+      showSuccess('两步验证已关闭');
+      await loadStatus();
+    });
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      showSuccess('恢复码已复制');
+    } catch {
+      showError('复制失败');
+    }
+  };
+
+  return (
+    <>
+      <section className="panel panel-light p-5 sm:p-6">
+        <h2 className="text-sm font-semibold text-[var(--ink)]">两步验证</h2>
+        <p className="mt-2 text-sm text-[var(--ink-soft)]">
+          登录时除密码外还需输入身份验证器（如 Google Authenticator、1Password）生成的 6 位验证码。
+        </p>
+
+        {!status ? (
+          <p className="mt-4 text-sm text-[var(--ink-soft)]">加载中...</p>
+        ) : !status.available ? (
+          <p className="mt-4 text-sm text-[var(--ink-soft)]">
+            使用管理员密码的临时账号无法启用两步验证，请先在“用户”页面创建管理员账号。
+          </p>
+        ) : status.enabled ? (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-[var(--ink)]">
+              已启用 · 剩余 {status.recoveryCodesRemaining} 个恢复码
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="当前验证码或恢复码"
+                className="input-surface w-full px-3 py-2 text-sm sm:max-w-xs"
+              />
+              <button
+                type="button"
+                onClick={handleRegenerate}
+                disabled={saving}
+                className="button-secondary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                重新生成恢复码
+              </button>
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={saving}
+                className="button-danger px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                关闭
+              </button>
+            </div>
+          </div>
+        ) : enrolment ? (
+          <form className="mt-4 space-y-3" onSubmit={handleConfirm}>
+            <p className="text-sm text-[var(--ink-soft)]">用身份验证器扫描二维码，或手动输入密钥：</p>
+            <img src={enrolment.qrCode} alt="两步验证二维码" width={224} height={224} className="rounded-lg" />
+            <code className="block break-all text-sm text-[var(--ink)]">{enrolment.secret}</code>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="输入 6 位验证码完成设置"
+                required
+                className="input-surface w-full px-3 py-2 text-sm sm:max-w-xs"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="button-primary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                启用
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void handleBegin()}
+            disabled={saving}
+            className="button-primary mt-4 px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            设置两步验证
+          </button>
+        )}
+
+        {recoveryCodes ? (
+          <div className="mt-4 rounded-lg border border-[var(--line)] bg-[var(--surface)] p-3">
+            <p className="text-sm text-[var(--ink-soft)]">
+              恢复码只显示这一次，每个只能使用一次，请保存在安全的地方：
+            </p>
+            <div className="mt-2 grid grid-cols-2 gap-1 sm:grid-cols-5">
+              {recoveryCodes.map((recoveryCode) => (
+                <code key={recoveryCode} className="text-sm text-[var(--ink)]">
+                  {recoveryCode}
+                </code>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => void copyRecoveryCodes()}
+              className="button-secondary mt-3 px-3 py-2 text-sm"
+            >
+              复制全部
+            </button>
+          </div>
+        ) : null}
+      </section>
+
+      <ToastManager toasts={toasts} removeToast={removeToast} />
+    </>
+  );
+}
@@ -0,0 +1,261 @@
+import { type FormEvent, useEffect, useState } from 'react';
+
+import { ToastManager } from './Toast';
+import { useToast } from '../hooks/useToast';
+import { MIN_PASSWORD_LENGTH, ROLE_LABELS, USER_ROLES, type UserRole } from '../lib/users';
+
+interface UserSummary {
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  twoFactorEnabled: boolean;
+}
+
+interface UsersResponse {
+  success: boolean;
+  data?: UserSummary[];
+  error?: string;
+  details?: string;
+}
+
+interface UserManagerProps {
+  currentUsername: string;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('zh-CN');
+}
+
+export default function UserManager({ currentUsername }: UserManagerProps) {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('uploader');
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+
+  const sendUserRequest = async (method: 'GET' | 'POST' | 'PATCH' | 'DELETE', payload?: object) => {
+    const response = await fetch('/api/users', {
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    if (response.status === 401) {
+      window.location.assign('/login?next=%2Fusers');
+      throw new Error('登录已过期，请重新登录');
+    }
+
+    const result = (await response.json().catch(() => ({}))) as UsersResponse;
+    if (!response.ok) {
+      throw new Error(result.error || result.details || '操作失败');
+    }
+
+    return result;
+  };
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      const result = await sendUserRequest('GET');
+      setUsers(result.data ?? []);
+    } catch (err) {
+      console.error('加载用户失败:', err);
+      showError(err instanceof Error ? err.message : '加载用户失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadUsers();
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      showSuccess(successMessage);
+      await loadUsers();
+    } catch (err) {
+      console.error('用户操作失败:', err);
+      showError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+
+    await runAction(async () => {
+      await sendUserRequest('POST', { username, password, role });
+      setUsername('');
+      setPassword('');
+    }, '用户已创建');
+  };
+
+  const handleRoleChange = (target: UserSummary, nextRole: UserRole) =>
+    runAction(() => sendUserRequest('PATCH', { username: target.username, role: nextRole }), '角色已更新');
+
+  const handleResetPassword = async (target: UserSummary) => {
+    const nextPassword = window.prompt(`为 ${target.username} 设置新密码（至少 ${MIN_PASSWORD_LENGTH} 位）`);
+    if (!nextPassword) {
+      return;
+    }
+
+    await runAction(
+      () => sendUserRequest('PATCH', { username: target.username, password: nextPassword }),
+      '密码已重置'
+    );
+  };
+
+  const handleResetTwoFactor = async (target: UserSummary) => {
+    if (!window.confirm(`确定要关闭 ${target.username} 的两步验证吗？其所有登录会话也会被注销。`)) {
+      return;
+    }
+
+    await runAction(
+      () => sendUserRequest('PATCH', { username: target.username, resetTwoFactor: true }),
+      '两步验证已关闭'
+    );
+  };
+
+  const handleDelete = async (target: UserSummary) => {
+    if (!window.confirm(`确定要删除用户 ${target.username} 吗？`)) {
+      return;
+    }
+
+    await runAction(() => sendUserRequest('DELETE', { username: target.username }), '用户已删除');
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <section className="panel panel-light p-5 sm:p-6">
+          <h1 className="text-lg font-semibold text-[var(--ink)]">用户管理</h1>
+          <p className="mt-2 text-sm text-[var(--ink-soft)]">
+            管理员可管理用户；上传者可上传、整理和删除图片；只读用户只能浏览图库。
+            {users.length === 0 && !loading
+              ? ' 当前使用 ADMIN_PASSWORD 引导登录，第一个账号必须是管理员，创建后引导登录即失效。'
+              : ''}
+          </p>
+        </section>
+
+        <section className="panel panel-light p-5 sm:p-6">
+          <h2 className="text-sm font-semibold text-[var(--ink)]">新建用户</h2>
+          <form className="mt-4 grid gap-3 sm:grid-cols-[1fr_1fr_auto_auto]" onSubmit={handleCreate}>
+            <input
+              type="text"
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              placeholder="用户名"
+              autoComplete="off"
+              required
+              className="input-surface w-full px-3 py-2 text-sm"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder={`密码（至少 ${MIN_PASSWORD_LENGTH} 位）`}
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              required
+              className="input-surface w-full px-3 py-2 text-sm"
+            />
+            <select
+              value={role}
+              onChange={(event) => setRole(event.target.value as UserRole)}
+              className="input-surface px-3 py-2 text-sm"
+            >
+              {USER_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={saving}
+              className="button-primary px-4 py-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              创建
+            </button>
+          </form>
+        </section>
+
+        <section className="panel panel-light p-5 sm:p-6">
+          <h2 className="text-sm font-semibold text-[var(--ink)]">全部用户</h2>
+          {loading ? (
+            <p className="mt-4 text-sm text-[var(--ink-soft)]">加载中...</p>
+          ) : users.length === 0 ? (
+            <p className="mt-4 text-sm text-[var(--ink-soft)]">还没有用户</p>
+          ) : (
+            <div className="mt-4 divide-y divide-[var(--line)]">
+              {users.map((user) => (
+                <div
+                  key={user.username}
+                  className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--ink)]">
+                      {user.username}
+                      {user.username === currentUsername ? (
+                        <span className="ml-2 text-xs text-[var(--muted)]">（当前登录）</span>
+                      ) : null}
+                    </p>
+                    <p className="mt-1 text-xs text-[var(--muted)]">
+                      创建于 {formatDate(user.createdAt)}
+                      {user.twoFactorEnabled ? ' · 已启用两步验证' : ''}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={user.role}
+                      onChange={(event) => void handleRoleChange(user, event.target.value as UserRole)}
+                      disabled={saving}
+                      className="input-surface px-3 py-2 text-sm"
+                    >
+                      {USER_ROLES.map((option) => (
+                        <option key={option} value={option}>
+                          {ROLE_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => void handleResetPassword(user)}
+                      disabled={saving}
+                      className="button-secondary px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      重置密码
+                    </button>
+                    {user.twoFactorEnabled ? (
+                      <button
+                        onClick={() => void handleResetTwoFactor(user)}
+                        disabled={saving}
+                        className="button-secondary px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        关闭两步验证
+                      </button>
+                    ) : null}
+                    <button
+                      onClick={() => void handleDelete(user)}
+                      disabled={saving}
+                      className="button-danger px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      <ToastManager toasts={toasts} removeToast={removeToast} />
+    </>
+  );
+}
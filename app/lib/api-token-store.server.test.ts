@@ -0,0 +1,95 @@
+import { beforeEach, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  revokeApiTokensForUser,
+  verifyApiToken,
+} from './api-token-store.server';
+import { getDataFilePath } from './json-store.server';
+import { useTemporaryDataDir } from './test-data-dir';
+import { createUser, deleteUser, updateUser } from './user-store.server';
+
+describe('API token store', () => {
+  useTemporaryDataDir('tokens', { perTest: true });
+
+  beforeEach(async () => {
+    await createUser({ username: 'alice', password: 'alice-password', role: 'admin' });
+    await createUser({ username: 'bob', password: 'bob-password', role: 'uploader' });
+  });
+
+  it('stores only a hash and verifies the plaintext token', async () => {
+    const { value, token } = await createApiToken({
+      owner: { username: 'bob', role: 'uploader' },
+      name: 'ShareX',
+      scopes: ['upload', 'list'],
+      allowedPrefix: 'shots/',
+      expiresInDays: 30,
+    });
+
+    const stored = await readFile(getDataFilePath('api-tokens.json'), 'utf8');
+    assert.equal(stored.includes(value), false);
+    assert.match(value, /^lf_/);
+    assert.ok(token.expiresAt);
+
+    const verified = await verifyApiToken(value);
+    assert.deepEqual(verified?.user, { username: 'bob', role: 'uploader' });
+    assert.deepEqual(verified?.token.scopes, ['upload', 'list']);
+    assert.equal(verified?.token.allowedPrefix, 'shots/');
+    assert.ok((await listApiTokens('bob'))[0].lastUsedAt);
+
+    assert.equal(await verifyApiToken(`${value}x`), null);
+  });
+
+  it('narrows scopes to the owner role and stops working once revoked', async () => {
+    const { value, token } = await createApiToken({
+      owner: { username: 'bob', role: 'uploader' },
+      name: 'CI',
+      scopes: ['upload', 'list'],
+      allowedPrefix: '',
+      expiresInDays: null,
+    });
+
+    await updateUser('bob', { role: 'viewer' });
+    assert.deepEqual((await verifyApiToken(value))?.token.scopes, ['list']);
+
+    assert.equal(await revokeApiToken(token.id, 'alice'), false);
+    assert.equal(await revokeApiToken(token.id, 'bob'), true);
+    assert.equal(await verifyApiToken(value), null);
+  });
+
+  it('does not hand the tokens of a deleted user to a new account with the same name', async () => {
+    const { value } = await createApiToken({
+      owner: { username: 'bob', role: 'uploader' },
+      name: 'old',
+      scopes: ['upload'],
+      allowedPrefix: '',
+      expiresInDays: null,
+    });
+
+    await deleteUser('bob');
+    assert.equal(await revokeApiTokensForUser('bob'), 1);
+    await createUser({ username: 'bob', password: 'new-bob-password', role: 'admin' });
+
+    assert.equal(await verifyApiToken(value), null);
+    assert.deepEqual(await listApiTokens('bob'), []);
+  });
+
+  it('refuses scopes the owner role does not have', async () => {
+    await updateUser('bob', { role: 'viewer' });
+
+    await assert.rejects(
+      () =>
+        createApiToken({
+          owner: { username: 'bob', role: 'viewer' },
+          name: 'bad',
+          scopes: ['upload'],
+          allowedPrefix: '',
+          expiresInDays: null,
+        }),
+      /does not allow/
+    );
+  });
+});
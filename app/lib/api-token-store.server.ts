@@ -0,0 +1,164 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { API_TOKEN_PREFIX, type TokenScope } from './api-tokens';
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+import { findUser } from './user-store.server';
+import { hasPermission, type AuthUser } from './users';
+
+const TOKENS_FILE = 'api-tokens.json';
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+interface StoredApiToken {
+  id: string;
+  owner: string;
+  name: string;
+  scopes: TokenScope[];
+  allowedPrefix: string;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+interface ApiTokenStoreData {
+  tokens: StoredApiToken[];
+}
+
+export type ApiTokenSummary = Omit<StoredApiToken, 'tokenHash'>;
+
+export interface CreateApiTokenInput {
+  owner: AuthUser;
+  name: string;
+  scopes: TokenScope[];
+  allowedPrefix: string;
+  expiresInDays: number | null;
+}
+
+export interface VerifiedApiToken {
+  user: AuthUser;
+  token: ApiTokenSummary;
+}
+
+const EMPTY_STORE: ApiTokenStoreData = { tokens: [] };
+
+function getTokensFilePath(): string {
+  return getDataFilePath(TOKENS_FILE);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toSummary({ tokenHash: _tokenHash, ...summary }: StoredApiToken): ApiTokenSummary {
+  return summary;
+}
+
+function isExpired(token: StoredApiToken, now = Date.now()): boolean {
+  return token.expiresAt !== null && Date.parse(token.expiresAt) <= now;
+}
+
+export async function listApiTokens(owner: string): Promise<ApiTokenSummary[]> {
+  const { tokens } = await readJsonFile(getTokensFilePath(), EMPTY_STORE);
+  return tokens.filter((token) => token.owner === owner).map(toSummary);
+}
+
+/**
+ * Stores a new token and returns its plaintext value. Only the SHA-256 hash
+ * is persisted, so the caller must show the value to the user right away.
+ */
+export async function createApiToken(
+  input: CreateApiTokenInput
+): Promise<{ value: string; token: ApiTokenSummary }> {
+  const excessScope = input.scopes.find((scope) => !hasPermission(input.owner.role, scope));
+  if (excessScope) {
+    throw new Error(`Your role does not allow the "${excessScope}" scope`);
+  }
+
+  const value = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const now = new Date();
+  const stored: StoredApiToken = {
+    id: randomUUID(),
+    owner: input.owner.username,
+    name: input.name,
+    scopes: input.scopes,
+    allowedPrefix: input.allowedPrefix,
+    tokenHash: hashToken(value),
+    createdAt: now.toISOString(),
+    expiresAt: input.expiresInDays
+      ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    lastUsedAt: null,
+  };
+
+  await updateJsonFile(getTokensFilePath(), EMPTY_STORE, ({ tokens }) => ({
+    data: { tokens: [...tokens, stored] },
+    result: undefined,
+  }));
+
+  return { value, token: toSummary(stored) };
+}
+
+export async function revokeApiToken(id: string, owner: string): Promise<boolean> {
+  return updateJsonFile(getTokensFilePath(), EMPTY_STORE, ({ tokens }) => {
+    const nextTokens = tokens.filter((token) => !(token.id === id && token.owner === owner));
+    return { data: { tokens: nextTokens }, result: nextTokens.length !== tokens.length };
+  });
+}
+
+/**
+ * Removes every token of a user, e.g. once the account is deleted: a new
+ * account with the same name must not inherit them.
+ */
+export async function revokeApiTokensForUser(owner: string): Promise<number> {
+  return updateJsonFile(getTokensFilePath(), EMPTY_STORE, ({ tokens }) => {
+    const nextTokens = tokens.filter((token) => token.owner !== owner);
+    return { data: { tokens: nextTokens }, result: tokens.length - nextTokens.length };
+  });
+}
+
+async function touchApiToken(id: string) {
+  await updateJsonFile(getTokensFilePath(), EMPTY_STORE, ({ tokens }) => ({
+    data: {
+      tokens: tokens.map((token) =>
+        token.id === id ? { ...token, lastUsedAt: new Date().toISOString() } : token
+      ),
+    },
+    result: undefined,
+  }));
+}
+
+/**
+ * Resolves a bearer token to its owner. Scopes are narrowed to what the
+ * owner's current role allows, so downgrading a user also limits their tokens.
+ */
+export async function verifyApiToken(value: string): Promise<VerifiedApiToken | null> {
+  const { tokens } = await readJsonFile(getTokensFilePath(), EMPTY_STORE);
+  const expected = Buffer.from(hashToken(value));
+  const stored = tokens.find((token) => {
+    const candidate = Buffer.from(token.tokenHash);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+
+  if (!stored || isExpired(stored)) {
+    return null;
+  }
+
+  const user = await findUser(stored.owner);
+  if (!user) {
+    return null;
+  }
+
+  if (!stored.lastUsedAt || Date.now() - Date.parse(stored.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    await touchApiToken(stored.id).catch((error) => {
+      console.error('Failed to record API token usage:', error);
+    });
+  }
+
+  return {
+    user,
+    token: {
+      ...toSummary(stored),
+      scopes: stored.scopes.filter((scope) => hasPermission(user.role, scope)),
+    },
+  };
+}
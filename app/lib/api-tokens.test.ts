@@ -0,0 +1,66 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  isKeyWithinPrefix,
+  parseAllowedPrefix,
+  parseBearerToken,
+  parseTokenExpiryDays,
+  parseTokenScopes,
+} from './api-tokens';
+
+describe('parseTokenScopes', () => {
+  it('keeps known scopes in canonical order', () => {
+    assert.deepEqual(parseTokenScopes(['delete', 'upload']), ['upload', 'delete']);
+  });
+
+  it('rejects empty or unknown scope lists', () => {
+    assert.equal(parseTokenScopes([]), null);
+    assert.equal(parseTokenScopes(['upload', 'admin']), null);
+    assert.equal(parseTokenScopes('upload'), null);
+  });
+});
+
+describe('parseTokenExpiryDays', () => {
+  it('treats empty values as never expiring', () => {
+    assert.equal(parseTokenExpiryDays(null), null);
+    assert.equal(parseTokenExpiryDays(''), null);
+    assert.equal(parseTokenExpiryDays('30'), 30);
+  });
+
+  it('flags invalid values', () => {
+    assert.equal(parseTokenExpiryDays(0), undefined);
+    assert.equal(parseTokenExpiryDays(1.5), undefined);
+    assert.equal(parseTokenExpiryDays(99999), undefined);
+  });
+});
+
+describe('parseAllowedPrefix', () => {
+  it('normalizes folder prefixes', () => {
+    assert.equal(parseAllowedPrefix(undefined), '');
+    assert.equal(parseAllowedPrefix('/screenshots'), 'screenshots/');
+    assert.equal(parseAllowedPrefix('../x'), null);
+  });
+});
+
+describe('parseBearerToken', () => {
+  it('extracts app tokens from the Authorization header', () => {
+    assert.equal(parseBearerToken('Bearer lf_abc'), 'lf_abc');
+    assert.equal(parseBearerToken('bearer  lf_abc '), 'lf_abc');
+    assert.equal(parseBearerToken('Bearer other'), null);
+    assert.equal(parseBearerToken('Basic lf_abc'), null);
+    assert.equal(parseBearerToken(null), null);
+  });
+});
+
+describe('isKeyWithinPrefix', () => {
+  it('allows everything for an empty prefix', () => {
+    assert.equal(isKeyWithinPrefix('a.png', ''), true);
+    assert.equal(isKeyWithinPrefix('shots/a.png', 'shots/'), true);
+    assert.equal(isKeyWithinPrefix('shotsx/a.png', 'shots/'), false);
+  });
+
+  it('keeps private copies of in-scope keys in scope', () => {
+    assert.equal(isKeyWithinPrefix('.private/shots/a.png', 'shots/'), true);
+    assert.equal(isKeyWithinPrefix('.private/other/a.png', 'shots/'), false);
+  });
+});
@@ -0,0 +1,51 @@
+import { PRIVATE_PREFIX, normalizeFolderPath } from './images-api';
+import type { Permission } from './users';
+
+export type TokenScope = Permission;
+
+export const TOKEN_SCOPES: TokenScope[] = ['upload', 'list', 'delete'];
+export const API_TOKEN_PREFIX = 'lf_';
+export const MAX_TOKEN_EXPIRY_DAYS = 3650;
+
+export const TOKEN_SCOPE_LABELS: Record<TokenScope, string> = {
+  upload: '上传',
+  list: '列出',
+  delete: '删除',
+};
+
+/** Returns the de-duplicated scopes, or null if the list is empty or unknown. */
+export function parseTokenScopes(value: unknown): TokenScope[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const scopes = TOKEN_SCOPES.filter((scope) => value.includes(scope));
+  return scopes.length === new Set(value).size ? scopes : null;
+}
+
+/** Accepts a positive whole number of days, or null/empty for a token that never expires. */
+export function parseTokenExpiryDays(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const days = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(days) && days > 0 && days <= MAX_TOKEN_EXPIRY_DAYS ? days : undefined;
+}
+
+export function parseAllowedPrefix(value: unknown): string | null {
+  return value === null || value === undefined ? '' : normalizeFolderPath(value);
+}
+
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match && match[1].startsWith(API_TOKEN_PREFIX) ? match[1] : null;
+}
+
+/**
+ * An empty allowed prefix means the token may touch any key. Private images
+ * stay in scope: `.private/shots/a.png` is within `shots/`.
+ */
+export function isKeyWithinPrefix(key: string, allowedPrefix: string): boolean {
+  return key.startsWith(allowedPrefix) || key.startsWith(`${PRIVATE_PREFIX}${allowedPrefix}`);
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { getClientIp } from './client-ip';
+import { DEFAULT_LOGIN_THROTTLE_OPTIONS, createLoginThrottle } from './login-throttle';
+
+function requestFrom(forwardedFor: string) {
+  return new Request('http://localhost/api/auth/login', { headers: { 'X-Forwarded-For': forwardedFor } });
+}
+
+describe('getClientIp', () => {
+  it('uses the entry added by the outermost trusted proxy', () => {
+    assert.equal(getClientIp(requestFrom('6.6.6.6, 1.2.3.4'), 1), '1.2.3.4');
+    assert.equal(getClientIp(requestFrom('6.6.6.6, 1.2.3.4, 10.0.0.2'), 2), '1.2.3.4');
+  });
+
+  it('ignores the header without trusted proxies or when it is shorter than the chain', () => {
+    assert.equal(getClientIp(requestFrom('1.2.3.4'), 0), 'unknown');
+    assert.equal(getClientIp(requestFrom('1.2.3.4'), 2), 'unknown');
+    assert.equal(getClientIp(new Request('http://localhost/'), 1), 'unknown');
+  });
+
+  it('keeps throttling a client that rotates the forwarded value it sends', () => {
+    const throttle = createLoginThrottle(DEFAULT_LOGIN_THROTTLE_OPTIONS);
+
+    for (let attempt = 0; attempt < DEFAULT_LOGIN_THROTTLE_OPTIONS.lockoutThreshold; attempt += 1) {
+      throttle.recordFailure(getClientIp(requestFrom(`203.0.113.${attempt}, 1.2.3.4`), 1));
+    }
+
+    const status = throttle.check(getClientIp(requestFrom('198.51.100.7, 1.2.3.4'), 1));
+    assert.equal(status.allowed, false);
+    assert.equal(status.allowed ? false : status.locked, true);
+    assert.equal(throttle.check(getClientIp(requestFrom('1.2.3.4, 5.6.7.8'), 1)).allowed, true);
+  });
+});
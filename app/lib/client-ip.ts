@@ -0,0 +1,34 @@
+const DEFAULT_TRUSTED_PROXY_COUNT = 0;
+const MAX_CLIENT_IP_LENGTH = 64;
+
+/**
+ * Reverse proxies in front of the app, each of which appends the address it
+ * received the request from to `X-Forwarded-For`. Vercel and a single
+ * nginx/Caddy count as `1`. Defaults to `0` (reached directly), since a
+ * header no proxy vouches for is whatever the client sent.
+ */
+export function getTrustedProxyCount(): number {
+  const count = Number.parseInt(process.env.TRUSTED_PROXY_COUNT || '', 10);
+  return Number.isNaN(count) || count < 0 ? DEFAULT_TRUSTED_PROXY_COUNT : count;
+}
+
+/**
+ * The address the outermost trusted proxy saw. Entries to the left of it are
+ * whatever the client sent and are never used, so rotating them cannot
+ * escape the login throttle. Without trusted proxies, or when the header is
+ * shorter than the proxy chain (the request bypassed it), every caller is
+ * `unknown` and shares one throttle bucket.
+ */
+export function getClientIp(request: Request, trustedProxies = getTrustedProxyCount()): string {
+  if (trustedProxies === 0) {
+    return 'unknown';
+  }
+
+  const entries = (request.headers.get('X-Forwarded-For') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const address = entries[entries.length - trustedProxies];
+
+  return address && address.length <= MAX_CLIENT_IP_LENGTH ? address : 'unknown';
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { MULTIPART_PART_SIZE_BYTES } from './direct-upload';
+import {
+  DirectUploadError,
+  abortDirectUpload,
+  completeDirectUpload,
+  createDirectUpload,
+  presignDirectUploadParts,
+} from './direct-upload.server';
+import { UPLOAD_STAGING_PREFIX } from './images-api';
+import { listImages } from './r2.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+const PNG_BYTES = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(24),
+]);
+
+function putStaged(id: string, body: Buffer) {
+  return getStorageBackend().putObject({
+    key: `${UPLOAD_STAGING_PREFIX}${id}`,
+    body,
+    contentType: 'image/png',
+  });
+}
+
+/** Stands in for R2 multipart uploads; parts are "PUT" by writing to the returned map. */
+function installMultipartShim() {
+  const uploads = new Map<string, { key: string; parts: Map<number, Buffer> }>();
+
+  getStorageBackend().multipart = {
+    create: async ({ key }) => {
+      const uploadId = `upload-${uploads.size + 1}`;
+      uploads.set(uploadId, { key, parts: new Map() });
+      return uploadId;
+    },
+    presignPart: async ({ uploadId, partNumber }) => ({
+      url: `memory://${uploadId}/${partNumber}`,
+      method: 'PUT',
+      headers: {},
+    }),
+    complete: async ({ key, uploadId, parts }) => {
+      const upload = uploads.get(uploadId);
+      const bodies = parts.map((part) => upload?.parts.get(part.partNumber));
+      if (!upload || bodies.some((body) => !body)) {
+        throw new Error('InvalidPart');
+      }
+
+      await getStorageBackend().putObject({ key, body: Buffer.concat(bodies as Buffer[]), contentType: 'image/png' });
+      uploads.delete(uploadId);
+    },
+    abort: async ({ uploadId }) => {
+      uploads.delete(uploadId);
+    },
+    list: async (prefix) =>
+      Array.from(uploads)
+        .filter(([, upload]) => upload.key.startsWith(prefix))
+        .map(([uploadId, upload]) => ({ key: upload.key, uploadId, initiatedAt: new Date() })),
+  };
+
+  return uploads;
+}
+
+async function assertDirectUploadError(promise: Promise<unknown>, status: number) {
+  await assert.rejects(promise, (error) => error instanceof DirectUploadError && error.status === status);
+}
+
+describe('direct uploads', () => {
+  useTemporaryDataDir('direct', { perTest: true, memoryStorage: true });
+
+  beforeEach(async () => {
+    // The memory driver can't presign; stand in for R2 so the flow can run.
+    getStorageBackend().createPresignedUpload = async ({ key, contentType }) => ({
+      url: `memory://${key}`,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+    });
+  });
+
+  afterEach(async () => {
+    delete getStorageBackend().createPresignedUpload;
+    delete getStorageBackend().multipart;
+  });
+
+  const request = {
+    fileName: 'large.png',
+    contentType: 'image/png',
+    size: PNG_BYTES.length,
+    folder: 'albums/',
+    useHashName: false,
+  };
+
+  it('is unavailable on drivers that cannot presign', async () => {
+    delete getStorageBackend().createPresignedUpload;
+    await assertDirectUploadError(createDirectUpload('alice', request), 501);
+  });
+
+  it('is unavailable while server-side processing is enforced', async () => {
+    process.env.IMAGE_PROCESSING = 'on';
+    try {
+      await assertDirectUploadError(createDirectUpload('alice', request), 501);
+    } finally {
+      delete process.env.IMAGE_PROCESSING;
+    }
+  });
+
+  it('rejects oversized and non-image uploads before presigning', async () => {
+    await assertDirectUploadError(createDirectUpload('alice', { ...request, size: 1024 ** 3 }), 400);
+    await assertDirectUploadError(createDirectUpload('alice', { ...request, contentType: 'text/html' }), 415);
+    await assertDirectUploadError(createDirectUpload('alice', { ...request, contentType: 'image/svg+xml' }), 415);
+  });
+
+  it('publishes a verified upload once, for its owner only', async () => {
+    const created = await createDirectUpload('alice', request);
+    assert.match(created.key, /^albums\/\d+_large\.png$/);
+    assert.equal(created.upload?.url, `memory://${UPLOAD_STAGING_PREFIX}${created.id}`);
+
+    await assertDirectUploadError(completeDirectUpload(created.id, 'alice'), 400);
+    await putStaged(created.id, PNG_BYTES);
+    assert.equal((await listImages('', 100, null, '/')).folders.includes(UPLOAD_STAGING_PREFIX), false);
+
+    await assertDirectUploadError(completeDirectUpload(created.id, 'bob'), 404);
+
+    const image = await completeDirectUpload(created.id, 'alice');
+    assert.equal(image.key, created.key);
+    assert.equal(image.size, PNG_BYTES.length);
+    assert.equal(await getStorageBackend().headObject(`${UPLOAD_STAGING_PREFIX}${created.id}`), null);
+
+    await assertDirectUploadError(completeDirectUpload(created.id, 'alice'), 404);
+    await getStorageBackend().deleteObject(created.key);
+  });
+
+  it('stages private uploads in the private store', async () => {
+    process.env.SIGNED_URL_SECRET = 'test-secret';
+    const backend = getStorageBackend();
+    const getObject = backend.getObject;
+    const readBack: string[] = [];
+    backend.getObject = async (key) => {
+      readBack.push(key);
+      return getObject.call(backend, key);
+    };
+    const created = await createDirectUpload('alice', { ...request, folder: '.private/albums/' });
+    const stagingKey = `${UPLOAD_STAGING_PREFIX}.private/${created.id}`;
+    assert.equal(created.upload?.url, `memory://${stagingKey}`);
+
+    await backend.putObject({ key: stagingKey, body: PNG_BYTES, contentType: 'image/png' });
+    const image = await completeDirectUpload(created.id, 'alice');
+    assert.match(image.key, /^\.private\/albums\//);
+    assert.deepEqual(readBack, [image.key]);
+    assert.equal(await backend.headObject(stagingKey), null);
+    backend.getObject = getObject;
+    await backend.deleteObject(image.key);
+    delete process.env.SIGNED_URL_SECRET;
+  });
+
+  it('discards staged objects whose content does not match', async () => {
+    const created = await createDirectUpload('alice', request);
+    await putStaged(created.id, Buffer.alloc(PNG_BYTES.length, 0x41));
+
+    await assertDirectUploadError(completeDirectUpload(created.id, 'alice'), 415);
+    assert.equal(await getStorageBackend().headObject(`${UPLOAD_STAGING_PREFIX}${created.id}`), null);
+    assert.equal(await getStorageBackend().headObject(created.key), null);
+  });
+
+  it('assembles multipart uploads from their parts and can resume', async () => {
+    const uploads = installMultipartShim();
+    const backend = getStorageBackend();
+    const getObject = backend.getObject;
+    const readBack: string[] = [];
+    backend.getObject = async (key) => {
+      readBack.push(key);
+      return getObject.call(backend, key);
+    };
+    const body = Buffer.concat([PNG_BYTES, Buffer.alloc(MULTIPART_PART_SIZE_BYTES)]);
+    const created = await createDirectUpload('alice', { ...request, size: body.length });
+    assert.equal(created.upload, undefined);
+    assert.deepEqual(created.multipart, { partSize: MULTIPART_PART_SIZE_BYTES, partCount: 2 });
+
+    const [uploadId] = uploads.keys();
+    const presigned = await presignDirectUploadParts(created.id, 'alice', [1, 2]);
+    assert.deepEqual(
+      presigned.map((part) => part.url),
+      [`memory://${uploadId}/1`, `memory://${uploadId}/2`]
+    );
+    await assertDirectUploadError(presignDirectUploadParts(created.id, 'alice', [3]), 400);
+    await assertDirectUploadError(presignDirectUploadParts(created.id, 'bob', [1]), 404);
+
+    const parts = [
+      { partNumber: 1, etag: '"one"' },
+      { partNumber: 2, etag: '"two"' },
+    ];
+    uploads.get(uploadId)?.parts.set(1, body.subarray(0, MULTIPART_PART_SIZE_BYTES));
+    await assertDirectUploadError(completeDirectUpload(created.id, 'alice', parts), 400);
+
+    uploads.get(uploadId)?.parts.set(2, body.subarray(MULTIPART_PART_SIZE_BYTES));
+    const image = await completeDirectUpload(created.id, 'alice', parts);
+    assert.equal(image.key, created.key);
+    assert.equal(image.size, body.length);
+    // Too large to read back for variants and analysis.
+    assert.deepEqual(readBack, []);
+    backend.getObject = getObject;
+    await getStorageBackend().deleteObject(created.key);
+  });
+
+  it('aborts multipart uploads and frees their parts', async () => {
+    const uploads = installMultipartShim();
+    const created = await createDirectUpload('alice', { ...request, size: MULTIPART_PART_SIZE_BYTES + 1 });
+
+    assert.equal(await abortDirectUpload(created.id, 'bob'), false);
+    assert.equal(await abortDirectUpload(created.id, 'alice'), true);
+    assert.equal(uploads.size, 0);
+    await assertDirectUploadError(presignDirectUploadParts(created.id, 'alice', [1]), 404);
+  });
+});
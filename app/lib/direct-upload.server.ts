@@ -0,0 +1,415 @@
+import { randomUUID } from 'node:crypto';
+
+import {
+  DIRECT_UPLOAD_EXPIRY_SECONDS,
+  MULTIPART_PART_SIZE_BYTES,
+  MULTIPART_UPLOAD_TTL_SECONDS,
+  getMultipartPartSize,
+  getPartCount,
+  type DirectUploadRequest,
+} from './direct-upload';
+import { SNIFF_BYTE_LENGTH, checkImageContentType } from './file-type';
+import { recordImageUpload } from './image-metadata.server';
+import { analyzeImage } from './image-analysis.server';
+import { getDefaultImageProcessingOptions } from './image-processing.server';
+import { createImageVariants } from './image-variants.server';
+import { isPrivateObjectKey } from './image-visibility';
+import { PRIVATE_FOLDER, UPLOAD_STAGING_PREFIX } from './images-api';
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+import { indexObjects } from './object-index.server';
+import { buildUploadKey, getImage, getMaxFileSize, type ImageInfo } from './r2.server';
+import type { PresignedUpload, UploadedPart } from './storage';
+import { getStorageBackend } from './storage.server';
+import { getAllowedImageTypes } from './upload-validation.server';
+
+const DIRECT_UPLOADS_FILE = 'direct-uploads.json';
+const UPLOAD_CACHE_CONTROL = 'public, max-age=31536000';
+const UNTRACKED_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+/**
+ * Larger uploads are not read back for variants and analysis, so completing
+ * one never holds more than a single part in memory. The gallery shows them
+ * from the original, without a placeholder.
+ */
+const MAX_READ_BACK_BYTES = MULTIPART_PART_SIZE_BYTES;
+
+interface PendingMultipart {
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+}
+
+interface PendingDirectUpload {
+  id: string;
+  owner: string;
+  key: string;
+  stagingKey: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  multipart?: PendingMultipart;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface DirectUploadStoreData {
+  uploads: PendingDirectUpload[];
+}
+
+/** Either a single presigned PUT, or a multipart upload whose part URLs are requested as needed. */
+export interface CreatedDirectUpload {
+  id: string;
+  key: string;
+  upload?: PresignedUpload;
+  multipart?: {
+    partSize: number;
+    partCount: number;
+  };
+  expiresAt: string;
+}
+
+export interface PresignedPart extends PresignedUpload {
+  partNumber: number;
+}
+
+export class DirectUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 415 | 501
+  ) {
+    super(message);
+    this.name = 'DirectUploadError';
+  }
+}
+
+const EMPTY_STORE: DirectUploadStoreData = { uploads: [] };
+
+let lastUntrackedSweepAt = 0;
+
+function getDirectUploadsFilePath(): string {
+  return getDataFilePath(DIRECT_UPLOADS_FILE);
+}
+
+function isExpired(upload: PendingDirectUpload, now = Date.now()): boolean {
+  return Date.parse(upload.expiresAt) <= now;
+}
+
+/** SVG is left out: it has to pass through the server to be sanitized. */
+function getDirectUploadTypes(): string[] {
+  return getAllowedImageTypes().filter((type) => type !== 'image/svg+xml');
+}
+
+async function findPendingUpload(id: string, owner: string): Promise<PendingDirectUpload> {
+  const pending = (await readJsonFile(getDirectUploadsFilePath(), EMPTY_STORE)).uploads.find(
+    (upload) => upload.id === id && upload.owner === owner && !isExpired(upload)
+  );
+  if (!pending) {
+    throw new DirectUploadError('Upload not found or expired', 404);
+  }
+
+  return pending;
+}
+
+async function discardStagedObject(stagingKey: string) {
+  await getStorageBackend()
+    .deleteObject(stagingKey)
+    .catch((error) => {
+      console.error('Failed to delete staged upload:', error);
+    });
+}
+
+/** Frees whatever a ticket left behind: uploaded parts as well as a staged object. */
+async function discardPendingUpload(upload: PendingDirectUpload) {
+  const { multipart } = getStorageBackend();
+
+  if (upload.multipart && multipart) {
+    await multipart.abort({ key: upload.stagingKey, uploadId: upload.multipart.uploadId }).catch((error) => {
+      console.error('Failed to abort multipart upload:', error);
+    });
+  }
+
+  await discardStagedObject(upload.stagingKey);
+}
+
+/**
+ * Parts of a multipart upload the store no longer tracks (say the data
+ * directory was reset) are invisible but still billed, so they are aborted
+ * once they are older than any ticket could be. Runs at most once an hour.
+ */
+async function abortUntrackedMultipartUploads(tracked: ReadonlySet<string>): Promise<number> {
+  const { multipart } = getStorageBackend();
+  const now = Date.now();
+  if (!multipart || now - lastUntrackedSweepAt < UNTRACKED_SWEEP_INTERVAL_MS) {
+    return 0;
+  }
+
+  lastUntrackedSweepAt = now;
+  const cutoff = now - MULTIPART_UPLOAD_TTL_SECONDS * 1000;
+  const untracked = (await multipart.list(UPLOAD_STAGING_PREFIX)).filter(
+    (upload) => !tracked.has(upload.uploadId) && upload.initiatedAt.getTime() < cutoff
+  );
+
+  await Promise.all(
+    untracked.map((upload) =>
+      multipart.abort(upload).catch((error) => {
+        console.error('Failed to abort multipart upload:', error);
+      })
+    )
+  );
+  return untracked.length;
+}
+
+/** Forgets expired tickets and deletes whatever their browsers managed to upload. */
+export async function cleanupExpiredDirectUploads(): Promise<number> {
+  const { expired, tracked } = await updateJsonFile(getDirectUploadsFilePath(), EMPTY_STORE, ({ uploads }) => {
+    const live = uploads.filter((upload) => !isExpired(upload));
+    return {
+      data: { uploads: live },
+      result: {
+        expired: uploads.filter((upload) => isExpired(upload)),
+        tracked: new Set(live.flatMap((upload) => (upload.multipart ? [upload.multipart.uploadId] : []))),
+      },
+    };
+  });
+
+  await Promise.all(expired.map(discardPendingUpload));
+  const untracked = await abortUntrackedMultipartUploads(tracked).catch((error) => {
+    console.error('Failed to list multipart uploads:', error);
+    return 0;
+  });
+
+  return expired.length + untracked;
+}
+
+/**
+ * Private uploads are staged in the private store too, so publishing them is a
+ * copy within one backend rather than a read of the whole file into memory.
+ */
+function getStagingKey(id: string, key: string): string {
+  return isPrivateObjectKey(key)
+    ? `${UPLOAD_STAGING_PREFIX}${PRIVATE_FOLDER}/${id}`
+    : `${UPLOAD_STAGING_PREFIX}${id}`;
+}
+
+/**
+ * Checks type and size up front and hands back a presigned PUT, or for files
+ * spanning several parts a multipart upload, targeting a staging key. Nothing
+ * becomes visible in the gallery until `completeDirectUpload` has verified
+ * what actually arrived. Unavailable while `IMAGE_PROCESSING` is on: the
+ * bytes would never pass through the server to be processed.
+ */
+export async function createDirectUpload(
+  owner: string,
+  request: DirectUploadRequest
+): Promise<CreatedDirectUpload> {
+  const backend = getStorageBackend();
+  const partSize = getMultipartPartSize(request.size);
+  const partCount = getPartCount(request.size, partSize);
+  const multipart = partCount > 1 ? backend.multipart : undefined;
+
+  if (getDefaultImageProcessingOptions().enabled) {
+    throw new DirectUploadError('Direct uploads are disabled while server-side image processing is on', 501);
+  }
+
+  if (!multipart && !backend.createPresignedUpload) {
+    throw new DirectUploadError(`Direct uploads are not supported by the ${backend.driver} storage driver`, 501);
+  }
+
+  const maxSize = getMaxFileSize();
+  if (request.size > maxSize) {
+    throw new DirectUploadError(`File size exceeds limit of ${maxSize / 1024 / 1024}MB`, 400);
+  }
+
+  if (!getDirectUploadTypes().includes(request.contentType)) {
+    throw new DirectUploadError(`Unsupported image type: ${request.contentType || 'unknown'}`, 415);
+  }
+
+  await cleanupExpiredDirectUploads();
+
+  const id = randomUUID();
+  const now = Date.now();
+  const key = buildUploadKey(request.fileName, request.contentType, request);
+  const stagingKey = getStagingKey(id, key);
+  const target = { key: stagingKey, contentType: request.contentType, cacheControl: UPLOAD_CACHE_CONTROL };
+  let upload: PresignedUpload | undefined;
+  let pendingMultipart: PendingMultipart | undefined;
+
+  if (multipart) {
+    pendingMultipart = { uploadId: await multipart.create(target), partSize, partCount };
+  } else if (backend.createPresignedUpload) {
+    upload = await backend.createPresignedUpload({ ...target, expiresInSeconds: DIRECT_UPLOAD_EXPIRY_SECONDS });
+  }
+
+  const ttlSeconds = pendingMultipart ? MULTIPART_UPLOAD_TTL_SECONDS : DIRECT_UPLOAD_EXPIRY_SECONDS;
+  const pending: PendingDirectUpload = {
+    id,
+    owner,
+    key,
+    stagingKey,
+    fileName: request.fileName,
+    contentType: request.contentType,
+    size: request.size,
+    multipart: pendingMultipart,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+  };
+
+  await updateJsonFile(getDirectUploadsFilePath(), EMPTY_STORE, ({ uploads }) => ({
+    data: { uploads: [...uploads, pending] },
+    result: undefined,
+  }));
+
+  return {
+    id,
+    key: pending.key,
+    upload,
+    multipart: pendingMultipart ? { partSize, partCount } : undefined,
+    expiresAt: pending.expiresAt,
+  };
+}
+
+/** Number of parts of a pending multipart upload, for validating request bodies. */
+export async function getDirectUploadPartCount(id: string, owner: string): Promise<number> {
+  const pending = await findPendingUpload(id, owner);
+  if (!pending.multipart) {
+    throw new DirectUploadError('Not a multipart upload', 400);
+  }
+
+  return pending.multipart.partCount;
+}
+
+/**
+ * Presigns PUTs for individual parts. The URLs are short-lived, so a client
+ * resuming after a pause simply asks again for the parts it is still missing.
+ */
+export async function presignDirectUploadParts(
+  id: string,
+  owner: string,
+  partNumbers: number[]
+): Promise<PresignedPart[]> {
+  const pending = await findPendingUpload(id, owner);
+  const { multipart } = getStorageBackend();
+  if (!pending.multipart || !multipart) {
+    throw new DirectUploadError('Not a multipart upload', 400);
+  }
+
+  const { uploadId, partCount } = pending.multipart;
+  if (partNumbers.some((partNumber) => partNumber < 1 || partNumber > partCount)) {
+    throw new DirectUploadError('Invalid part number', 400);
+  }
+
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      ...(await multipart.presignPart({
+        key: pending.stagingKey,
+        uploadId,
+        partNumber,
+        expiresInSeconds: DIRECT_UPLOAD_EXPIRY_SECONDS,
+      })),
+    }))
+  );
+}
+
+/**
+ * Verifies the staged object (present, the announced size, and really the
+ * announced image type), then moves it to its final key. Multipart uploads are
+ * first assembled from `parts`. A ticket can only be completed once, and only
+ * by the user it was issued to; completing before all bytes have landed
+ * leaves the ticket in place so the client can retry.
+ */
+export async function completeDirectUpload(
+  id: string,
+  owner: string,
+  parts?: UploadedPart[]
+): Promise<ImageInfo> {
+  const filePath = getDirectUploadsFilePath();
+  const pending = await findPendingUpload(id, owner);
+  const backend = getStorageBackend();
+
+  // A retried completion finds the object already assembled.
+  if (pending.multipart && !(await backend.headObject(pending.stagingKey))) {
+    if (!parts || !backend.multipart) {
+      throw new DirectUploadError('All uploaded parts are required', 400);
+    }
+
+    try {
+      await backend.multipart.complete({ key: pending.stagingKey, uploadId: pending.multipart.uploadId, parts });
+    } catch (error) {
+      console.error('Complete multipart upload error:', error);
+      throw new DirectUploadError('Some parts are missing or invalid', 400);
+    }
+  }
+
+  const staged = await backend.headObject(pending.stagingKey);
+  if (!staged) {
+    throw new DirectUploadError('The file has not been uploaded yet', 400);
+  }
+
+  // Claim the ticket so two concurrent completions can't both publish it.
+  const claimed = await updateJsonFile(filePath, EMPTY_STORE, ({ uploads }) => ({
+    data: { uploads: uploads.filter((upload) => upload.id !== id) },
+    result: uploads.some((upload) => upload.id === id),
+  }));
+  if (!claimed) {
+    throw new DirectUploadError('Upload not found or expired', 404);
+  }
+
+  if (staged.size !== pending.size || staged.size > getMaxFileSize()) {
+    await discardStagedObject(pending.stagingKey);
+    throw new DirectUploadError('Uploaded file size does not match', 400);
+  }
+
+  const contentType = checkImageContentType(
+    new Uint8Array((await backend.readObjectBytes(pending.stagingKey, SNIFF_BYTE_LENGTH)) ?? []),
+    pending.contentType,
+    getDirectUploadTypes()
+  );
+  if (!contentType.ok) {
+    await discardStagedObject(pending.stagingKey);
+    throw new DirectUploadError(contentType.error, 415);
+  }
+
+  await backend.copyObject(pending.stagingKey, pending.key);
+  await discardStagedObject(pending.stagingKey);
+
+  const stored = await backend.headObject(pending.key);
+  if (!stored) {
+    throw new Error(`Uploaded object disappeared: ${pending.key}`);
+  }
+
+  // The bytes never passed through the server, so read them back once for the variants and analysis.
+  const object = stored.size <= MAX_READ_BACK_BYTES ? await backend.getObject(pending.key) : null;
+  const variantWidths = object ? await createImageVariants(pending.key, object.body, contentType.mimeType) : [];
+  const analysis = object ? await analyzeImage(object.body) : null;
+
+  await indexObjects([stored]);
+  await recordImageUpload(
+    pending.key,
+    { originalName: pending.fileName, uploadedBy: owner, ...analysis },
+    variantWidths
+  );
+
+  const image = await getImage(pending.key);
+  if (!image) {
+    throw new Error(`Uploaded object disappeared: ${pending.key}`);
+  }
+
+  return image;
+}
+
+/** Cancels a ticket and frees any parts or staged bytes already uploaded for it. */
+export async function abortDirectUpload(id: string, owner: string): Promise<boolean> {
+  const removed = await updateJsonFile(getDirectUploadsFilePath(), EMPTY_STORE, ({ uploads }) => {
+    const match = uploads.find((upload) => upload.id === id && upload.owner === owner);
+    return {
+      data: { uploads: uploads.filter((upload) => upload !== match) },
+      result: match,
+    };
+  });
+
+  if (removed) {
+    await discardPendingUpload(removed);
+  }
+
+  return Boolean(removed);
+}
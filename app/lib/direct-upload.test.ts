@@ -0,0 +1,104 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_MULTIPART_PARTS,
+  MULTIPART_PART_SIZE_BYTES,
+  getMissingParts,
+  getMultipartPartSize,
+  getPartCount,
+  getPartRange,
+  getRetryDelayMs,
+  parsePartNumbers,
+  parseDirectUploadRequest,
+  parseUploadedParts,
+} from './direct-upload';
+
+describe('parseDirectUploadRequest', () => {
+  it('normalizes the content type and folder', () => {
+    assert.deepEqual(
+      parseDirectUploadRequest({
+        fileName: ' big.jpg ',
+        contentType: 'image/JPG',
+        size: 12_000_000,
+        folder: '/albums//2024',
+        useHashName: true,
+      }),
+      {
+        fileName: 'big.jpg',
+        contentType: 'image/jpeg',
+        size: 12_000_000,
+        folder: 'albums/2024/',
+        useHashName: true,
+      }
+    );
+  });
+
+  it('rejects missing sizes, path-like names and bad folders', () => {
+    assert.equal(parseDirectUploadRequest(null), null);
+    assert.equal(parseDirectUploadRequest({ fileName: 'a.png', contentType: 'image/png', size: 0 }), null);
+    assert.equal(parseDirectUploadRequest({ fileName: 'a.png', contentType: 'image/png', size: 1.5 }), null);
+    assert.equal(parseDirectUploadRequest({ fileName: '../a.png', contentType: 'image/png', size: 1 }), null);
+    assert.equal(
+      parseDirectUploadRequest({ fileName: 'a.png', contentType: 'image/png', size: 1, folder: '../up' }),
+      null
+    );
+    assert.equal(
+      parseDirectUploadRequest({ fileName: 'a.png', contentType: 'image/png', size: 1, folder: '.uploads' }),
+      null
+    );
+  });
+});
+
+describe('multipart helpers', () => {
+  it('splits files into parts within the part limit', () => {
+    assert.equal(getMultipartPartSize(20_000_000), MULTIPART_PART_SIZE_BYTES);
+    assert.equal(getPartCount(20_000_000, MULTIPART_PART_SIZE_BYTES), 3);
+    assert.equal(getPartCount(1, MULTIPART_PART_SIZE_BYTES), 1);
+
+    const hugeSize = MULTIPART_PART_SIZE_BYTES * MAX_MULTIPART_PARTS * 2;
+    assert.equal(getPartCount(hugeSize, getMultipartPartSize(hugeSize)), MAX_MULTIPART_PARTS);
+
+    assert.deepEqual(getPartRange(3, 10, 25), { start: 20, end: 25 });
+    assert.deepEqual(getMissingParts(4, new Set([1, 3])), [2, 4]);
+  });
+
+  it('validates requested part numbers', () => {
+    assert.deepEqual(parsePartNumbers([2, 1, 2], 3), [2, 1]);
+    assert.equal(parsePartNumbers([], 3), null);
+    assert.equal(parsePartNumbers([4], 3), null);
+    assert.equal(parsePartNumbers([1.5], 3), null);
+    assert.equal(parsePartNumbers(Array.from({ length: 21 }, (_, index) => index + 1), 100), null);
+  });
+
+  it('requires every uploaded part exactly once', () => {
+    assert.deepEqual(
+      parseUploadedParts(
+        [
+          { partNumber: 2, etag: ' "b" ' },
+          { partNumber: 1, etag: '"a"' },
+        ],
+        2
+      ),
+      [
+        { partNumber: 1, etag: '"a"' },
+        { partNumber: 2, etag: '"b"' },
+      ]
+    );
+    assert.equal(parseUploadedParts([{ partNumber: 1, etag: '"a"' }], 2), null);
+    assert.equal(
+      parseUploadedParts(
+        [
+          { partNumber: 1, etag: '"a"' },
+          { partNumber: 1, etag: '"b"' },
+        ],
+        2
+      ),
+      null
+    );
+    assert.equal(parseUploadedParts([{ partNumber: 1, etag: '' }], 1), null);
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    assert.deepEqual([0, 1, 2, 10].map(getRetryDelayMs), [1000, 2000, 4000, 15_000]);
+  });
+});
@@ -0,0 +1,128 @@
+import { normalizeMimeType } from './file-type';
+import { normalizeFolderPath } from './images-api';
+import type { UploadedPart } from './storage';
+
+/** Files above this go straight to the bucket; serverless request bodies top out around 4.5MB. */
+export const DIRECT_UPLOAD_THRESHOLD_BYTES = 4 * 1024 * 1024;
+export const DIRECT_UPLOAD_EXPIRY_SECONDS = 15 * 60;
+/** Files that span more than one part are uploaded in chunks that can be paused and retried. */
+export const MULTIPART_PART_SIZE_BYTES = 8 * 1024 * 1024;
+export const MAX_MULTIPART_PARTS = 10000;
+export const MAX_PART_URLS_PER_REQUEST = 20;
+/** A paused multipart upload can be resumed for this long before it is cleaned up. */
+export const MULTIPART_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+export interface DirectUploadRequest {
+  fileName: string;
+  contentType: string;
+  size: number;
+  folder: string;
+  useHashName: boolean;
+}
+
+interface DirectUploadPayload {
+  fileName?: unknown;
+  contentType?: unknown;
+  size?: unknown;
+  folder?: unknown;
+  useHashName?: unknown;
+}
+
+/** Validates the shape of a presign request; type and size limits are checked on the server. */
+export function parseDirectUploadRequest(
+  payload: DirectUploadPayload | null | undefined
+): DirectUploadRequest | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const fileName = typeof payload.fileName === 'string' ? payload.fileName.trim() : '';
+  const size = payload.size;
+  const folder = normalizeFolderPath(payload.folder ?? '');
+
+  if (
+    !fileName ||
+    fileName.length > MAX_FILE_NAME_LENGTH ||
+    /[\\/\u0000-\u001f\u007f]/.test(fileName) ||
+    typeof payload.contentType !== 'string' ||
+    typeof size !== 'number' ||
+    !Number.isSafeInteger(size) ||
+    size <= 0 ||
+    folder === null
+  ) {
+    return null;
+  }
+
+  return {
+    fileName,
+    contentType: normalizeMimeType(payload.contentType),
+    size,
+    folder,
+    useHashName: payload.useHashName === true,
+  };
+}
+
+/** Grows the part size for huge files so the part count stays within the S3 limit. */
+export function getMultipartPartSize(size: number): number {
+  return Math.max(MULTIPART_PART_SIZE_BYTES, Math.ceil(size / MAX_MULTIPART_PARTS));
+}
+
+export function getPartCount(size: number, partSize: number): number {
+  return Math.max(1, Math.ceil(size / partSize));
+}
+
+/** Byte range `[start, end)` of a 1-based part. */
+export function getPartRange(partNumber: number, partSize: number, size: number) {
+  const start = (partNumber - 1) * partSize;
+  return { start, end: Math.min(start + partSize, size) };
+}
+
+export function getMissingParts(partCount: number, completed: ReadonlySet<number>): number[] {
+  return Array.from({ length: partCount }, (_, index) => index + 1).filter(
+    (partNumber) => !completed.has(partNumber)
+  );
+}
+
+function isPartNumber(value: unknown, partCount: number): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 1 && (value as number) <= partCount;
+}
+
+export function parsePartNumbers(value: unknown, partCount: number): number[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PART_URLS_PER_REQUEST) {
+    return null;
+  }
+
+  return value.every((partNumber) => isPartNumber(partNumber, partCount)) ? [...new Set(value)] : null;
+}
+
+/** Completion must list every part exactly once; returns them sorted by part number. */
+export function parseUploadedParts(value: unknown, partCount: number): UploadedPart[] | null {
+  if (!Array.isArray(value) || value.length !== partCount) {
+    return null;
+  }
+
+  const parts: UploadedPart[] = [];
+
+  for (const entry of value as Array<{ partNumber?: unknown; etag?: unknown } | null>) {
+    if (
+      !entry ||
+      !isPartNumber(entry.partNumber, partCount) ||
+      typeof entry.etag !== 'string' ||
+      !entry.etag.trim() ||
+      parts.some((part) => part.partNumber === entry.partNumber)
+    ) {
+      return null;
+    }
+
+    parts.push({ partNumber: entry.partNumber, etag: entry.etag.trim() });
+  }
+
+  return parts.sort((left, right) => left.partNumber - right.partNumber);
+}
+
+/** Exponential backoff between attempts at a failed part: 1s, 2s, 4s ... capped at 15s. */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 15_000);
+}
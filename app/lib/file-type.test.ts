@@ -0,0 +1,67 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { checkImageContentType, detectImageType, normalizeMimeType } from './file-type';
+
+function bytes(...values: Array<number | string>): Uint8Array {
+  return new Uint8Array(
+    values.flatMap((value) =>
+      typeof value === 'string' ? [...value].map((char) => char.charCodeAt(0)) : [value]
+    )
+  );
+}
+
+const jpeg = bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 'JFIF');
+const png = bytes(0x89, 'PNG', 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 'IHDR');
+const webp = bytes('RIFF', 0x24, 0, 0, 0, 'WEBPVP8 ');
+const avif = bytes(0, 0, 0, 0x1c, 'ftyp', 'mif1', 0, 0, 0, 0, 'mif1', 'avif', 'miaf');
+
+describe('detectImageType', () => {
+  it('recognises binary signatures', () => {
+    assert.equal(detectImageType(jpeg), 'image/jpeg');
+    assert.equal(detectImageType(png), 'image/png');
+    assert.equal(detectImageType(bytes('GIF89a', 1, 0)), 'image/gif');
+    assert.equal(detectImageType(webp), 'image/webp');
+    assert.equal(detectImageType(avif), 'image/avif');
+  });
+
+  it('recognises SVG after an XML prologue', () => {
+    const svg = new TextEncoder().encode(
+      '\uFEFF<?xml version="1.0"?>\n<!-- Generator: test -->\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x">\n<svg xmlns="http://www.w3.org/2000/svg"></svg>'
+    );
+    assert.equal(detectImageType(svg), 'image/svg+xml');
+  });
+
+  it('returns null for arbitrary bytes', () => {
+    assert.equal(detectImageType(new TextEncoder().encode('<html><script></script>')), null);
+    assert.equal(detectImageType(bytes('MZ', 0x90, 0)), null);
+  });
+});
+
+describe('normalizeMimeType', () => {
+  it('folds aliases and parameters', () => {
+    assert.equal(normalizeMimeType('image/JPG'), 'image/jpeg');
+    assert.equal(normalizeMimeType('image/svg+xml; charset=utf-8'), 'image/svg+xml');
+  });
+});
+
+describe('checkImageContentType', () => {
+  it('accepts matching or generic declarations and returns the detected type', () => {
+    assert.deepEqual(checkImageContentType(png, 'image/png'), { ok: true, mimeType: 'image/png' });
+    assert.deepEqual(checkImageContentType(png, ''), { ok: true, mimeType: 'image/png' });
+    assert.deepEqual(checkImageContentType(jpeg, 'application/octet-stream'), {
+      ok: true,
+      mimeType: 'image/jpeg',
+    });
+  });
+
+  it('rejects mismatched declarations', () => {
+    const result = checkImageContentType(jpeg, 'image/png');
+    assert.equal(result.ok, false);
+    assert.match(!result.ok ? result.error : '', /image\/jpeg but was declared as image\/png/);
+  });
+
+  it('rejects non-images and disallowed formats', () => {
+    assert.equal(checkImageContentType(new TextEncoder().encode('hello'), 'image/png').ok, false);
+    assert.equal(checkImageContentType(bytes('BM', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0), 'image/bmp').ok, false);
+  });
+});
@@ -0,0 +1,138 @@
+export const ALLOWED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/svg+xml',
+];
+
+/** Enough bytes to cover every binary signature and a typical SVG prologue. */
+export const SNIFF_BYTE_LENGTH = 8192;
+
+const GENERIC_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+const TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+};
+
+export type ContentTypeCheck =
+  | { ok: true; mimeType: string }
+  | { ok: false; error: string };
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((value, index) => bytes[offset + index] === value);
+}
+
+function readAscii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function isSvg(bytes: Uint8Array): boolean {
+  const text = new TextDecoder('utf-8', { fatal: false })
+    .decode(bytes)
+    .replace(/^\uFEFF/, '');
+  // Skip the XML declaration, comments, doctype and processing instructions
+  // to find the first real element.
+  const prologue = /^(?:\s+|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>)*/i;
+  const rest = text.replace(prologue, '');
+
+  return /^<svg[\s>/]/i.test(rest);
+}
+
+function detectIsoBmffImage(bytes: Uint8Array): string | null {
+  if (bytes.length < 12 || readAscii(bytes, 4, 8) !== 'ftyp') {
+    return null;
+  }
+
+  const boxSize = Math.min(
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0,
+    bytes.length
+  );
+  const brands = [readAscii(bytes, 8, 12)];
+
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(readAscii(bytes, offset, offset + 4));
+  }
+
+  return brands.some((brand) => brand === 'avif' || brand === 'avis') ? 'image/avif' : null;
+}
+
+/**
+ * Detects the image format from the file signature rather than the
+ * client-supplied MIME type. Returns null for anything that is not one of the
+ * formats we know how to recognise.
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+
+  if (readAscii(bytes, 0, 6) === 'GIF87a' || readAscii(bytes, 0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+
+  if (startsWith(bytes, [0x42, 0x4d]) && bytes.length >= 14) {
+    return 'image/bmp';
+  }
+
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return 'image/tiff';
+  }
+
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) {
+    return 'image/x-icon';
+  }
+
+  return detectIsoBmffImage(bytes) ?? (isSvg(bytes) ? 'image/svg+xml' : null);
+}
+
+export function normalizeMimeType(mimeType: string | null | undefined): string {
+  const normalized = mimeType?.split(';')[0].trim().toLowerCase() || '';
+  return TYPE_ALIASES[normalized] || normalized;
+}
+
+/**
+ * Compares the sniffed format with the declared one. Generic declarations such
+ * as `application/octet-stream` defer to the sniffed type; anything else must
+ * match it exactly.
+ */
+export function checkImageContentType(
+  bytes: Uint8Array,
+  declaredType: string | null | undefined,
+  allowedTypes: string[] = ALLOWED_IMAGE_TYPES
+): ContentTypeCheck {
+  const detectedType = detectImageType(bytes);
+  const normalizedDeclaredType = normalizeMimeType(declaredType);
+
+  if (!detectedType || !allowedTypes.includes(detectedType)) {
+    return {
+      ok: false,
+      error: detectedType
+        ? `Unsupported image type: ${detectedType}`
+        : 'File content is not a supported image',
+    };
+  }
+
+  if (!GENERIC_TYPES.includes(normalizedDeclaredType) && normalizedDeclaredType !== detectedType) {
+    return {
+      ok: false,
+      error: `File content is ${detectedType} but was declared as ${normalizedDeclaredType}`,
+    };
+  }
+
+  return { ok: true, mimeType: detectedType };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { analyzeImage } from './image-analysis.server';
+import { listImages, uploadImage } from './r2.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('analysis', { memoryStorage: true });
+
+describe('analyzeImage', () => {
+  it('measures the displayed size, dominant colour and a placeholder', async () => {
+    const body = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#ff0000' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    const analysis = await analyzeImage(body);
+
+    assert.equal(analysis?.width, 200);
+    assert.equal(analysis?.height, 300);
+    assert.equal(analysis?.orientation, 'portrait');
+    assert.match(analysis?.dominantColor ?? '', /^#f[0-9a-f]0[0-9a-f]0[0-9a-f]$/);
+    assert.match(analysis?.placeholder ?? '', /^data:image\/webp;base64,/);
+  });
+
+  it('returns null for content it cannot decode', async () => {
+    assert.equal(await analyzeImage(Buffer.from('not an image')), null);
+  });
+
+  it('is recorded at upload and returned with listed images', async () => {
+    const body = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#0000ff' } })
+      .png()
+      .toBuffer();
+    await uploadImage(new File([body], 'square.png', { type: 'image/png' }), { folder: 'analysis/' });
+
+    const [image] = (await listImages('analysis/')).images;
+    assert.equal(image.width, 64);
+    assert.equal(image.height, 64);
+    assert.equal(image.orientation, 'square');
+    assert.ok(image.placeholder);
+  });
+});
@@ -0,0 +1,53 @@
+import sharp from 'sharp';
+
+import type { ImageAnalysis, ImageOrientation } from './image-metadata';
+
+const PLACEHOLDER_SIZE = 16;
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0');
+}
+
+function getOrientation(width: number, height: number): ImageOrientation {
+  return width === height ? 'square' : width > height ? 'landscape' : 'portrait';
+}
+
+/**
+ * Reads the displayed size, a blurred placeholder and the dominant colour.
+ * Animated images are measured by their first frame. Returns null for
+ * anything sharp cannot decode, so a failed analysis never fails an upload.
+ */
+export async function analyzeImage(body: Buffer): Promise<ImageAnalysis | null> {
+  try {
+    const metadata = await sharp(body).metadata();
+    const storedWidth = metadata.width;
+    const storedHeight = metadata.pageHeight ?? metadata.height;
+    if (!storedWidth || !storedHeight) {
+      return null;
+    }
+
+    // EXIF orientations 5-8 swap the axes.
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const width = rotated ? storedHeight : storedWidth;
+    const height = rotated ? storedWidth : storedHeight;
+    const [placeholder, stats] = await Promise.all([
+      sharp(body)
+        .autoOrient()
+        .resize({ width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE, fit: 'inside' })
+        .webp({ quality: 40 })
+        .toBuffer(),
+      sharp(body).stats(),
+    ]);
+    const { r, g, b } = stats.dominant;
+
+    return {
+      width,
+      height,
+      orientation: getOrientation(width, height),
+      placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      dominantColor: `#${toHex(r)}${toHex(g)}${toHex(b)}`,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+import type { ImageMetadata, ImageMetadataUpdate } from './image-metadata';
+import type { ImageMove } from './images-api';
+import { getDataFilePath, readJsonFile, toKeyedRecord, updateJsonFile } from './json-store.server';
+
+const IMAGE_METADATA_FILE = 'image-metadata.json';
+
+interface StoredImageMetadata extends ImageMetadata {
+  /** Widths of the resized copies written at upload; not part of the editable metadata. */
+  variantWidths?: number[];
+  updatedAt: string;
+}
+
+interface ImageMetadataStoreData {
+  images: Record<string, StoredImageMetadata>;
+}
+
+const EMPTY_STORE: ImageMetadataStoreData = { images: {} };
+
+function getImageMetadataFilePath(): string {
+  return getDataFilePath(IMAGE_METADATA_FILE);
+}
+
+function toImageMetadata({
+  updatedAt: _updatedAt,
+  variantWidths: _variantWidths,
+  ...metadata
+}: StoredImageMetadata): ImageMetadata {
+  return metadata;
+}
+
+/** Drops empty fields so cleared values don't linger as `""` or `[]`. */
+function compactMetadata(metadata: ImageMetadata): ImageMetadata {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : Boolean(value)
+    )
+  ) as ImageMetadata;
+}
+
+function updateStore<R>(update: (images: Record<string, StoredImageMetadata>) => R): Promise<R> {
+  return updateJsonFile(getImageMetadataFilePath(), EMPTY_STORE, ({ images }) => {
+    const nextImages = toKeyedRecord(images);
+    const result = update(nextImages);
+    return { data: { images: nextImages }, result };
+  });
+}
+
+export async function getImageMetadata(keys: string[]): Promise<Map<string, ImageMetadata>> {
+  const { images } = await readJsonFile(getImageMetadataFilePath(), EMPTY_STORE);
+
+  return new Map(
+    keys.flatMap((key) => (Object.hasOwn(images, key) ? [[key, toImageMetadata(images[key])] as const] : []))
+  );
+}
+
+export async function getImageVariantWidths(keys: string[]): Promise<Map<string, number[]>> {
+  const { images } = await readJsonFile(getImageMetadataFilePath(), EMPTY_STORE);
+
+  return new Map(
+    keys.flatMap((key) => {
+      const widths = Object.hasOwn(images, key) ? images[key].variantWidths : undefined;
+      return widths?.length ? [[key, widths] as const] : [];
+    })
+  );
+}
+
+/** Called once an object has been written; replaces anything left from an earlier object at that key. */
+export async function recordImageUpload(
+  key: string,
+  metadata: Omit<ImageMetadata, keyof ImageMetadataUpdate>,
+  variantWidths: number[] = []
+) {
+  await updateStore((images) => {
+    images[key] = {
+      ...compactMetadata(metadata),
+      ...(variantWidths.length > 0 ? { variantWidths } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+}
+
+export async function updateImageMetadata(key: string, update: ImageMetadataUpdate): Promise<ImageMetadata> {
+  return updateStore((images) => {
+    const stored = Object.hasOwn(images, key) ? images[key] : null;
+    const next = compactMetadata({ ...(stored ? toImageMetadata(stored) : {}), ...update });
+    images[key] = {
+      ...next,
+      ...(stored?.variantWidths ? { variantWidths: stored.variantWidths } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    return next;
+  });
+}
+
+/** Keeps metadata attached to images that were renamed or moved. */
+export async function moveImageMetadata(moves: ImageMove[]) {
+  if (moves.length === 0) {
+    return;
+  }
+
+  await updateStore((images) => {
+    const moved = moves.flatMap((move) => {
+      if (!Object.hasOwn(images, move.from)) {
+        return [];
+      }
+
+      const entry = images[move.from];
+      delete images[move.from];
+      return [[move.to, entry] as const];
+    });
+
+    moved.forEach(([key, entry]) => {
+      images[key] = entry;
+    });
+  });
+}
+
+export async function deleteImageMetadata(keys: string[]) {
+  if (keys.length === 0) {
+    return;
+  }
+
+  await updateStore((images) => {
+    keys.forEach((key) => {
+      delete images[key];
+    });
+  });
+}
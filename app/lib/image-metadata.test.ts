@@ -0,0 +1,54 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_TAGS,
+  formatMarkdownImage,
+  getImageAltText,
+  normalizeTags,
+  parseImageMetadataUpdate,
+} from './image-metadata';
+
+describe('normalizeTags', () => {
+  it('accepts arrays and comma-separated strings, dropping duplicates', () => {
+    assert.deepEqual(normalizeTags(' Travel, travel，2024 ,, '), ['Travel', '2024']);
+    assert.deepEqual(normalizeTags(['a  b', 'c']), ['a b', 'c']);
+  });
+
+  it('rejects non-strings, overlong tags and too many tags', () => {
+    assert.equal(normalizeTags([1]), null);
+    assert.equal(normalizeTags(['x'.repeat(41)]), null);
+    assert.equal(normalizeTags(Array.from({ length: MAX_TAGS + 1 }, (_, index) => `t${index}`)), null);
+  });
+});
+
+describe('parseImageMetadataUpdate', () => {
+  it('keeps only the fields that were sent', () => {
+    assert.deepEqual(parseImageMetadataUpdate({ title: ' Sunset ', tags: 'a,b' }), {
+      title: 'Sunset',
+      tags: ['a', 'b'],
+    });
+    assert.deepEqual(parseImageMetadataUpdate({ alt: '' }), { alt: '' });
+  });
+
+  it('rejects empty and invalid updates', () => {
+    assert.equal(parseImageMetadataUpdate({}), null);
+    assert.equal(parseImageMetadataUpdate({ title: 42 }), null);
+    assert.equal(parseImageMetadataUpdate({ alt: 'x'.repeat(501) }), null);
+  });
+});
+
+describe('Markdown snippets', () => {
+  it('falls back from alt to title to file names', () => {
+    assert.equal(getImageAltText({ key: 'a/1700_x.png', alt: 'Alt', title: 'Title' }), 'Alt');
+    assert.equal(getImageAltText({ key: 'a/1700_x.png', title: 'Title' }), 'Title');
+    assert.equal(getImageAltText({ key: 'a/abc.png', originalName: 'Cat photo.jpg' }), 'Cat photo');
+    assert.equal(getImageAltText({ key: 'a/abc.png' }), 'abc');
+  });
+
+  it('escapes brackets and wraps URLs with parentheses', () => {
+    assert.equal(
+      formatMarkdownImage({ key: 'a.png', url: 'https://cdn.test/a(1).png', alt: 'see [1]' }),
+      '![see \\[1\\]](<https://cdn.test/a(1).png>)'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_ALT_LENGTH = 500;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+export type ImageOrientation = 'landscape' | 'portrait' | 'square';
+
+/** Measured from the pixels at upload time, after EXIF rotation. */
+export interface ImageAnalysis {
+  width: number;
+  height: number;
+  orientation: ImageOrientation;
+  /** A tiny WebP as a data URL, blurred and shown while the real image loads. */
+  placeholder: string;
+  /** `#rrggbb` */
+  dominantColor: string;
+}
+
+/**
+ * Descriptive fields kept alongside an object. `originalName`, `uploadedBy`
+ * and the `ImageAnalysis` fields are recorded at upload time; the rest is
+ * edited by users.
+ */
+export interface ImageMetadata extends Partial<ImageAnalysis> {
+  title?: string;
+  alt?: string;
+  tags?: string[];
+  originalName?: string;
+  uploadedBy?: string;
+}
+
+/** Fields users may change; an empty string or list clears the field. */
+export interface ImageMetadataUpdate {
+  title?: string;
+  alt?: string;
+  tags?: string[];
+}
+
+interface ImageMetadataPayload {
+  title?: unknown;
+  alt?: unknown;
+  tags?: unknown;
+}
+
+function parseText(value: unknown, maxLength: number): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.replace(/[\u0000-\u001f\u007f]+/g, ' ').trim();
+  return text.length <= maxLength ? text : null;
+}
+
+/**
+ * Accepts an array or a comma-separated string. Tags are trimmed, inner
+ * whitespace collapsed, and duplicates dropped case-insensitively while the
+ * first spelling is kept.
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  const rawTags =
+    typeof value === 'string' ? value.split(/[,，]/) : Array.isArray(value) ? value : null;
+  if (!rawTags || rawTags.some((tag) => typeof tag !== 'string')) {
+    return null;
+  }
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rawTag of rawTags as string[]) {
+    const tag = rawTag.replace(/\s+/g, ' ').trim();
+    if (!tag) {
+      continue;
+    }
+
+    if (tag.length > MAX_TAG_LENGTH || /[\u0000-\u001f\u007f]/.test(tag)) {
+      return null;
+    }
+
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+  }
+
+  return tags.length <= MAX_TAGS ? tags : null;
+}
+
+/** Returns null when any field is invalid or none is present. */
+export function parseImageMetadataUpdate(
+  payload: ImageMetadataPayload | null | undefined
+): ImageMetadataUpdate | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const title = parseText(payload.title, MAX_TITLE_LENGTH);
+  const alt = parseText(payload.alt, MAX_ALT_LENGTH);
+  const tags = payload.tags === undefined ? undefined : normalizeTags(payload.tags);
+
+  if (title === null || alt === null || tags === null) {
+    return null;
+  }
+
+  if (title === undefined && alt === undefined && tags === undefined) {
+    return null;
+  }
+
+  return {
+    ...(title !== undefined ? { title } : {}),
+    ...(alt !== undefined ? { alt } : {}),
+    ...(tags !== undefined ? { tags } : {}),
+  };
+}
+
+function getFileStem(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || fileName;
+}
+
+/** Alt text for pasted snippets: explicit alt, then title, then the original or stored file name. */
+export function getImageAltText(image: ImageMetadata & { key: string }): string {
+  return (
+    image.alt ||
+    image.title ||
+    (image.originalName ? getFileStem(image.originalName) : '') ||
+    getFileStem(image.key.split('/').pop() || image.key)
+  );
+}
+
+export function formatMarkdownImage(image: ImageMetadata & { key: string; url: string }): string {
+  const alt = getImageAltText(image).replace(/([\\[\]])/g, '\\$1');
+  const url = /[\s()<>]/.test(image.url) ? `<${image.url}>` : image.url;
+  return `![${alt}](${url})`;
+}
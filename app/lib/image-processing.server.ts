@@ -0,0 +1,94 @@
+import sharp from 'sharp';
+
+import {
+  PROCESSABLE_MIME_TYPES,
+  getImageProcessingDefaults,
+  getOutputMimeType,
+  type ImageProcessingOptions,
+} from './image-processing';
+
+export interface ProcessedImage {
+  body: Buffer;
+  mimeType: string;
+}
+
+export function getDefaultImageProcessingOptions(): ImageProcessingOptions {
+  return getImageProcessingDefaults(process.env);
+}
+
+export function canProcessImage(mimeType: string): boolean {
+  return PROCESSABLE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Applies the configured resize and re-encode. Anything sharp cannot decode
+ * (e.g. a corrupt file behind a valid signature) is stored as uploaded, the
+ * same way thumbnails and analysis skip it.
+ */
+export async function processImage(
+  body: Buffer,
+  mimeType: string,
+  options: ImageProcessingOptions
+): Promise<ProcessedImage> {
+  if (!options.enabled || !canProcessImage(mimeType)) {
+    return { body, mimeType };
+  }
+
+  try {
+    return await reencodeImage(body, mimeType, options);
+  } catch {
+    return { body, mimeType };
+  }
+}
+
+async function reencodeImage(
+  body: Buffer,
+  mimeType: string,
+  options: ImageProcessingOptions
+): Promise<ProcessedImage> {
+  const metadata = await sharp(body).metadata();
+  if ((metadata.pages ?? 1) > 1) {
+    // Animated WebP/PNG would be flattened to their first frame.
+    return { body, mimeType };
+  }
+
+  const outputMimeType = getOutputMimeType(mimeType, options.format);
+  let pipeline = sharp(body, { failOn: 'error' });
+
+  if (options.autoOrient) {
+    pipeline = pipeline.autoOrient();
+  }
+
+  if (options.maxWidth || options.maxHeight) {
+    pipeline = pipeline.resize({
+      width: options.maxWidth ?? undefined,
+      height: options.maxHeight ?? undefined,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+  }
+
+  if (!options.stripMetadata) {
+    pipeline = pipeline.keepMetadata();
+  }
+
+  switch (outputMimeType) {
+    case 'image/webp':
+      pipeline = pipeline.webp({ quality: options.quality });
+      break;
+    case 'image/avif':
+      pipeline = pipeline.avif({ quality: options.quality });
+      break;
+    case 'image/jpeg':
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+      break;
+    case 'image/png':
+      pipeline = pipeline.png({ compressionLevel: 9 });
+      break;
+  }
+
+  return {
+    body: await pipeline.toBuffer(),
+    mimeType: outputMimeType,
+  };
+}
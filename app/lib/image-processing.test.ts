@@ -0,0 +1,136 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import {
+  DEFAULT_IMAGE_QUALITY,
+  getImageProcessingDefaults,
+  parseImageProcessingOptions,
+} from './image-processing';
+import { processImage } from './image-processing.server';
+
+function createForm(values: Record<string, string>) {
+  const formData = new FormData();
+  Object.entries(values).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+}
+
+describe('getImageProcessingDefaults', () => {
+  it('is disabled with safe defaults when nothing is configured', () => {
+    assert.deepEqual(getImageProcessingDefaults({}), {
+      enabled: false,
+      stripMetadata: true,
+      autoOrient: true,
+      maxWidth: null,
+      maxHeight: null,
+      format: 'original',
+      quality: DEFAULT_IMAGE_QUALITY,
+    });
+  });
+
+  it('reads deployment configuration', () => {
+    const result = getImageProcessingDefaults({
+      IMAGE_PROCESSING: 'on',
+      IMAGE_MAX_WIDTH: '2048',
+      IMAGE_OUTPUT_FORMAT: 'AVIF',
+      IMAGE_QUALITY: '250',
+    });
+
+    assert.equal(result.enabled, true);
+    assert.equal(result.maxWidth, 2048);
+    assert.equal(result.format, 'avif');
+    assert.equal(result.quality, 100);
+  });
+});
+
+describe('parseImageProcessingOptions', () => {
+  it('lets the upload form override the defaults', () => {
+    const defaults = getImageProcessingDefaults({});
+    const result = parseImageProcessingOptions(
+      createForm({ process: 'true', format: 'webp', quality: '60', maxHeight: '900' }),
+      defaults
+    );
+
+    assert.equal(result?.enabled, true);
+    assert.equal(result?.format, 'webp');
+    assert.equal(result?.quality, 60);
+    assert.equal(result?.maxHeight, 900);
+  });
+
+  it('ignores unknown formats', () => {
+    const defaults = getImageProcessingDefaults({ IMAGE_OUTPUT_FORMAT: 'webp' });
+    const result = parseImageProcessingOptions(createForm({ format: 'bmp' }), defaults);
+    assert.equal(result?.format, 'webp');
+  });
+
+  it('does not let the form switch off processing the deployment enforces', () => {
+    const defaults = getImageProcessingDefaults({ IMAGE_PROCESSING: 'on' });
+    const result = parseImageProcessingOptions(createForm({ process: 'false' }), defaults);
+    assert.equal(result?.enabled, true);
+    assert.equal(result?.stripMetadata, true);
+  });
+
+  it('only lets the form lower the configured size limits', () => {
+    const defaults = getImageProcessingDefaults({ IMAGE_MAX_WIDTH: '2048', IMAGE_MAX_HEIGHT: '1024' });
+    const result = parseImageProcessingOptions(
+      createForm({ maxWidth: '5000', maxHeight: '600' }),
+      defaults
+    );
+
+    assert.equal(result?.maxWidth, 2048);
+    assert.equal(result?.maxHeight, 600);
+  });
+
+  it('rejects sizes that are not positive whole numbers', () => {
+    const defaults = getImageProcessingDefaults({ IMAGE_MAX_WIDTH: '2048' });
+
+    for (const maxWidth of ['0', '-1', '1.5', 'none']) {
+      assert.equal(parseImageProcessingOptions(createForm({ maxWidth }), defaults), null, maxWidth);
+    }
+    assert.equal(parseImageProcessingOptions(createForm({ maxHeight: '0' }), defaults), null);
+  });
+});
+
+describe('processImage', () => {
+  it('caps dimensions, strips metadata and re-encodes', async () => {
+    const input = await sharp({
+      create: { width: 400, height: 200, channels: 3, background: '#2563eb' },
+    })
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { Copyright: 'secret' } } })
+      .toBuffer();
+    const result = await processImage(input, 'image/jpeg', {
+      ...getImageProcessingDefaults({ IMAGE_PROCESSING: 'on' }),
+      maxWidth: 100,
+      format: 'webp',
+    });
+    const metadata = await sharp(result.body).metadata();
+
+    assert.equal(result.mimeType, 'image/webp');
+    assert.equal(metadata.format, 'webp');
+    assert.equal(metadata.width, 100);
+    assert.equal(metadata.height, 50);
+    assert.equal(metadata.exif, undefined);
+  });
+
+  it('leaves unsupported types untouched', async () => {
+    const body = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>');
+    const result = await processImage(body, 'image/svg+xml', {
+      ...getImageProcessingDefaults({ IMAGE_PROCESSING: 'on' }),
+      format: 'webp',
+    });
+
+    assert.equal(result.body, body);
+    assert.equal(result.mimeType, 'image/svg+xml');
+  });
+
+  it('stores files it cannot decode as uploaded', async () => {
+    const body = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(64)]);
+    const result = await processImage(body, 'image/png', {
+      ...getImageProcessingDefaults({ IMAGE_PROCESSING: 'on' }),
+      format: 'webp',
+    });
+
+    assert.equal(result.body, body);
+    assert.equal(result.mimeType, 'image/png');
+  });
+});
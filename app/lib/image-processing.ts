@@ -0,0 +1,155 @@
+export type ImageOutputFormat = 'original' | 'webp' | 'avif';
+
+export interface ImageProcessingOptions {
+  enabled: boolean;
+  stripMetadata: boolean;
+  autoOrient: boolean;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  format: ImageOutputFormat;
+  quality: number;
+}
+
+type ProcessingEnv = Partial<
+  Record<
+    | 'IMAGE_PROCESSING'
+    | 'IMAGE_STRIP_METADATA'
+    | 'IMAGE_AUTO_ORIENT'
+    | 'IMAGE_MAX_WIDTH'
+    | 'IMAGE_MAX_HEIGHT'
+    | 'IMAGE_OUTPUT_FORMAT'
+    | 'IMAGE_QUALITY',
+    string
+  >
+>;
+
+interface FormValueSource {
+  get(name: string): FormDataEntryValue | null;
+}
+
+export const DEFAULT_IMAGE_QUALITY = 80;
+export const MAX_IMAGE_DIMENSION = 16384;
+
+/** Formats the upload pipeline re-encodes; GIF and SVG are always stored as uploaded. */
+export const PROCESSABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+function parseBoolean(value: string | null | undefined, fallback: boolean): boolean {
+  const normalized = value?.trim().toLowerCase();
+
+  if (!normalized) {
+    return fallback;
+  }
+
+  if (['1', 'true', 'on', 'yes'].includes(normalized)) {
+    return true;
+  }
+
+  if (['0', 'false', 'off', 'no'].includes(normalized)) {
+    return false;
+  }
+
+  return fallback;
+}
+
+function parseDimension(value: string | null | undefined, fallback: number | null): number | null {
+  if (!value?.trim()) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null;
+  }
+
+  return Math.min(parsed, MAX_IMAGE_DIMENSION);
+}
+
+/**
+ * A size a request asks for: capped at the deployment's limit, so it can only
+ * tighten it. Returns undefined for anything but a positive whole number.
+ */
+function parseRequestedDimension(value: string | null, limit: number | null): number | null | undefined {
+  if (!value?.trim()) {
+    return limit;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    return undefined;
+  }
+
+  return Math.min(parsed, limit ?? MAX_IMAGE_DIMENSION);
+}
+
+function parseQuality(value: string | null | undefined, fallback: number): number {
+  if (!value?.trim()) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, 1), 100) : fallback;
+}
+
+function parseFormat(value: string | null | undefined, fallback: ImageOutputFormat): ImageOutputFormat {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'original' || normalized === 'webp' || normalized === 'avif'
+    ? normalized
+    : fallback;
+}
+
+function getFormString(source: FormValueSource, name: string): string | null {
+  const value = source.get(name);
+  return typeof value === 'string' ? value : null;
+}
+
+export function getImageProcessingDefaults(env: ProcessingEnv): ImageProcessingOptions {
+  return {
+    enabled: parseBoolean(env.IMAGE_PROCESSING, false),
+    stripMetadata: parseBoolean(env.IMAGE_STRIP_METADATA, true),
+    autoOrient: parseBoolean(env.IMAGE_AUTO_ORIENT, true),
+    maxWidth: parseDimension(env.IMAGE_MAX_WIDTH, null),
+    maxHeight: parseDimension(env.IMAGE_MAX_HEIGHT, null),
+    format: parseFormat(env.IMAGE_OUTPUT_FORMAT, 'original'),
+    quality: parseQuality(env.IMAGE_QUALITY, DEFAULT_IMAGE_QUALITY),
+  };
+}
+
+/**
+ * Applies the per-request overrides an upload form may carry (`process`,
+ * `format`, `quality`, `maxWidth`, `maxHeight`) on top of the deployment
+ * defaults. The deployment settings are a floor for what happens to an
+ * upload: `process` can switch processing on but not off, and the size
+ * limits can only be lowered. Returns null for a size that is not a positive
+ * whole number.
+ */
+export function parseImageProcessingOptions(
+  source: FormValueSource,
+  defaults: ImageProcessingOptions
+): ImageProcessingOptions | null {
+  const maxWidth = parseRequestedDimension(getFormString(source, 'maxWidth'), defaults.maxWidth);
+  const maxHeight = parseRequestedDimension(getFormString(source, 'maxHeight'), defaults.maxHeight);
+  if (maxWidth === undefined || maxHeight === undefined) {
+    return null;
+  }
+
+  return {
+    ...defaults,
+    enabled: defaults.enabled || parseBoolean(getFormString(source, 'process'), false),
+    format: parseFormat(getFormString(source, 'format'), defaults.format),
+    quality: parseQuality(getFormString(source, 'quality'), defaults.quality),
+    maxWidth,
+    maxHeight,
+  };
+}
+
+export function getOutputMimeType(inputMimeType: string, format: ImageOutputFormat): string {
+  if (format === 'webp') {
+    return 'image/webp';
+  }
+
+  if (format === 'avif') {
+    return 'image/avif';
+  }
+
+  return inputMimeType;
+}
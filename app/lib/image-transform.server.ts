@@ -0,0 +1,175 @@
+import mimeTypes from 'mime-types';
+import sharp from 'sharp';
+
+import { normalizeMimeType } from './file-type';
+import { canProcessImage } from './image-processing.server';
+import {
+  MAX_CACHED_TRANSFORMS_PER_IMAGE,
+  getTransformFolder,
+  getTransformKey,
+  parseTransformSizes,
+  type ImageTransform,
+  type ImageTransformFormat,
+} from './image-transform';
+import { FOLDER_DELIMITER, isHiddenKey } from './images-api';
+import { getStorageBackend } from './storage.server';
+
+const FORMAT_MIME_TYPES: Record<ImageTransformFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export interface TransformedImage {
+  body: Buffer;
+  mimeType: string;
+  lastModified: Date;
+  /** Whether the output came from the bucket rather than being rendered now. */
+  cached: boolean;
+}
+
+export class ImageTransformError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 415 | 429
+  ) {
+    super(message);
+    this.name = 'ImageTransformError';
+  }
+}
+
+export function getAllowedTransformSizes(): number[] {
+  return parseTransformSizes(process.env.IMAGE_TRANSFORM_SIZES);
+}
+
+function getSourceFormat(mimeType: string): ImageTransformFormat | null {
+  const entry = Object.entries(FORMAT_MIME_TYPES).find(([, candidate]) => candidate === mimeType);
+  return entry ? (entry[0] as ImageTransformFormat) : null;
+}
+
+async function isTransformCacheFull(key: string): Promise<boolean> {
+  const result = await getStorageBackend().listObjects({
+    prefix: getTransformFolder(key),
+    delimiter: FOLDER_DELIMITER,
+    maxKeys: MAX_CACHED_TRANSFORMS_PER_IMAGE,
+  });
+
+  return result.objects.length >= MAX_CACHED_TRANSFORMS_PER_IMAGE;
+}
+
+async function renderTransform(body: Buffer, transform: ImageTransform, format: ImageTransformFormat) {
+  const metadata = await sharp(body).metadata();
+  if ((metadata.pages ?? 1) > 1) {
+    throw new ImageTransformError('Animated images cannot be transformed', 415);
+  }
+
+  let pipeline = sharp(body, { failOn: 'error' }).autoOrient();
+
+  if (transform.width || transform.height) {
+    pipeline = pipeline.resize({
+      width: transform.width ?? undefined,
+      height: transform.height ?? undefined,
+      fit: transform.fit,
+      withoutEnlargement: true,
+    });
+  }
+
+  switch (format) {
+    case 'webp':
+      return pipeline.webp({ quality: transform.quality }).toBuffer();
+    case 'avif':
+      return pipeline.avif({ quality: transform.quality }).toBuffer();
+    case 'jpeg':
+      return pipeline.jpeg({ quality: transform.quality, mozjpeg: true }).toBuffer();
+    case 'png':
+      return pipeline.png({ compressionLevel: 9 }).toBuffer();
+  }
+}
+
+/**
+ * Returns `key` resized and re-encoded as `transform` asks. The first request
+ * renders the image and stores the result under `.transforms/`; later ones
+ * are served from there until the source object changes. Once an image has
+ * `MAX_CACHED_TRANSFORMS_PER_IMAGE` renders stored, other combinations are
+ * refused rather than rendered on every request.
+ */
+export async function getTransformedImage(key: string, transform: ImageTransform): Promise<TransformedImage> {
+  const backend = getStorageBackend();
+  const source = await backend.headObject(key);
+  if (!source) {
+    throw new ImageTransformError('Image not found', 404);
+  }
+
+  const sourceType = normalizeMimeType(source.contentType) || mimeTypes.lookup(key) || '';
+  const sourceFormat = getSourceFormat(sourceType);
+  if (!canProcessImage(sourceType) || !sourceFormat) {
+    throw new ImageTransformError(`Images of type ${sourceType || 'unknown'} cannot be transformed`, 415);
+  }
+
+  const format = transform.format ?? sourceFormat;
+  const transformKey = getTransformKey(key, transform, format);
+  const cached = await backend.getObject(transformKey);
+  if (cached && cached.lastModified >= source.lastModified) {
+    return {
+      body: cached.body,
+      mimeType: FORMAT_MIME_TYPES[format],
+      lastModified: cached.lastModified,
+      cached: true,
+    };
+  }
+
+  // A stale render is replaced in place, so it never counts against the limit.
+  if (!cached && (await isTransformCacheFull(key))) {
+    throw new ImageTransformError('Too many different transforms of this image', 429);
+  }
+
+  const original = await backend.getObject(key);
+  if (!original) {
+    throw new ImageTransformError('Image not found', 404);
+  }
+
+  const body = await renderTransform(original.body, transform, format);
+
+  try {
+    await backend.putObject({
+      key: transformKey,
+      body,
+      contentType: FORMAT_MIME_TYPES[format],
+      cacheControl: 'public, max-age=31536000',
+    });
+  } catch (error) {
+    // Serving the rendered image still works; the next request just renders it again.
+    console.error(`Failed to cache transform ${transformKey}:`, error);
+  }
+
+  return { body, mimeType: FORMAT_MIME_TYPES[format], lastModified: new Date(), cached: false };
+}
+
+/** Drops the cached transforms of images that were moved or deleted. */
+export async function clearTransformCache(keys: string[]) {
+  const backend = getStorageBackend();
+
+  await Promise.all(
+    keys
+      .filter((key) => !isHiddenKey(key))
+      .map(async (key) => {
+        try {
+          let cursor: string | null = null;
+
+          do {
+            const result = await backend.listObjects({
+              prefix: getTransformFolder(key),
+              delimiter: FOLDER_DELIMITER,
+              maxKeys: 1000,
+              cursor,
+            });
+            await Promise.all(result.objects.map((object) => backend.deleteObject(object.key)));
+            cursor = result.hasMore ? result.nextCursor : null;
+          } while (cursor);
+        } catch (error) {
+          console.error(`Failed to clear cached transforms of ${key}:`, error);
+        }
+      })
+  );
+}
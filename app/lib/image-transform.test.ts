@@ -0,0 +1,131 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import {
+  DEFAULT_IMAGE_TRANSFORM_SIZES,
+  MAX_CACHED_TRANSFORMS_PER_IMAGE,
+  getTransformFolder,
+  getTransformKey,
+  parseImageTransform,
+  parseTransformSizes,
+} from './image-transform';
+import { ImageTransformError, getTransformedImage } from './image-transform.server';
+import { moveImages, uploadImage } from './r2.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('transform', { memoryStorage: true });
+
+function parse(query: string) {
+  return parseImageTransform(new URLSearchParams(query), DEFAULT_IMAGE_TRANSFORM_SIZES);
+}
+
+async function countCached(key: string): Promise<number> {
+  const result = await getStorageBackend().listObjects({ prefix: getTransformFolder(key), maxKeys: 1000 });
+  return result.objects.length;
+}
+
+describe('parseImageTransform', () => {
+  it('reads allowlisted values and fills in defaults', () => {
+    assert.deepEqual(parse('w=640&fmt=jpg'), {
+      ok: true,
+      transform: { width: 640, height: null, fit: 'inside', format: 'jpeg', quality: 80 },
+    });
+    assert.deepEqual(parse('w=320&h=320&fit=COVER&q=60'), {
+      ok: true,
+      transform: { width: 320, height: 320, fit: 'cover', format: null, quality: 60 },
+    });
+  });
+
+  it('rejects values outside the allowlists', () => {
+    assert.equal(parse('w=641').ok, false);
+    assert.equal(parse('w=640&h=99999').ok, false);
+    assert.equal(parse('w=640&fit=stretch').ok, false);
+    assert.equal(parse('w=640&fmt=gif').ok, false);
+    assert.equal(parse('w=640&q=81').ok, false);
+    assert.equal(parse('q=80').ok, false);
+  });
+
+  it('accepts a configured size list', () => {
+    assert.deepEqual(parseTransformSizes('800, 400,400,abc,99999'), [400, 800]);
+    assert.deepEqual(parseTransformSizes(''), DEFAULT_IMAGE_TRANSFORM_SIZES);
+  });
+});
+
+describe('getTransformKey', () => {
+  it('leaves the quality out for lossless output', () => {
+    const transform = { width: 320, height: null, fit: 'inside' as const, format: null, quality: 60 };
+
+    assert.equal(
+      getTransformKey('a.png', transform, 'png'),
+      getTransformKey('a.png', { ...transform, quality: 90 }, 'png')
+    );
+    assert.notEqual(
+      getTransformKey('a.png', transform, 'webp'),
+      getTransformKey('a.png', { ...transform, quality: 90 }, 'webp')
+    );
+  });
+});
+
+describe('getTransformedImage', () => {
+  it('renders once, serves the cached copy afterwards and drops it when the image moves', async () => {
+    const body = await sharp({ create: { width: 800, height: 400, channels: 3, background: '#16a34a' } })
+      .png()
+      .toBuffer();
+    const { image } = await uploadImage(new File([body], 'hero.png', { type: 'image/png' }), {
+      folder: 'transform/',
+    });
+    const transform = { width: 320, height: 320, fit: 'cover' as const, format: 'webp' as const, quality: 80 };
+
+    const first = await getTransformedImage(image.key, transform);
+    const metadata = await sharp(first.body).metadata();
+    assert.equal(first.cached, false);
+    assert.equal(first.mimeType, 'image/webp');
+    assert.equal(metadata.width, 320);
+    assert.equal(metadata.height, 320);
+
+    const second = await getTransformedImage(image.key, transform);
+    assert.equal(second.cached, true);
+    assert.deepEqual(second.body, first.body);
+    assert.equal(await countCached(image.key), 1);
+
+    await moveImages([{ from: image.key, to: 'transform/moved.png' }]);
+    assert.equal(await countCached(image.key), 0);
+    await assert.rejects(getTransformedImage(image.key, transform), ImageTransformError);
+  });
+
+  it('refuses new combinations once an image has enough cached renders', async () => {
+    const body = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#2563eb' } })
+      .png()
+      .toBuffer();
+    const { image } = await uploadImage(new File([body], 'busy.png', { type: 'image/png' }), {
+      folder: 'transform/',
+    });
+    for (let index = 0; index < MAX_CACHED_TRANSFORMS_PER_IMAGE; index += 1) {
+      await getStorageBackend().putObject({
+        key: `${getTransformFolder(image.key)}filler-${index}.webp`,
+        body: Buffer.from('cached'),
+        contentType: 'image/webp',
+      });
+    }
+
+    const transform = { width: 128, height: null, fit: 'inside' as const, format: 'webp' as const, quality: 80 };
+    await assert.rejects(
+      getTransformedImage(image.key, transform),
+      (error: unknown) => error instanceof ImageTransformError && error.status === 429
+    );
+    assert.equal(await countCached(image.key), MAX_CACHED_TRANSFORMS_PER_IMAGE);
+  });
+
+  it('refuses formats it cannot re-encode', async () => {
+    const { image } = await uploadImage(
+      new File(['GIF89a'], 'anim.gif', { type: 'image/gif' }),
+      { folder: 'transform/' }
+    );
+
+    await assert.rejects(
+      getTransformedImage(image.key, { width: 320, height: null, fit: 'inside', format: null, quality: 80 }),
+      (error: unknown) => error instanceof ImageTransformError && error.status === 415
+    );
+  });
+});
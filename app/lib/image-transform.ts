@@ -0,0 +1,110 @@
+import { DEFAULT_IMAGE_QUALITY } from './image-processing';
+import { TRANSFORMS_PREFIX } from './images-api';
+
+export type ImageTransformFit = 'cover' | 'contain' | 'inside' | 'fill';
+export type ImageTransformFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+/** A request to `/i/<key>`; a missing width, height or format keeps the original's. */
+export interface ImageTransform {
+  width: number | null;
+  height: number | null;
+  fit: ImageTransformFit;
+  format: ImageTransformFormat | null;
+  quality: number;
+}
+
+export type ImageTransformParse = { ok: true; transform: ImageTransform } | { ok: false; error: string };
+
+/**
+ * Every distinct transform is cached in the bucket, so only listed values are
+ * accepted. `IMAGE_TRANSFORM_SIZES` replaces the default sizes.
+ */
+export const DEFAULT_IMAGE_TRANSFORM_SIZES = [
+  64, 128, 256, 320, 480, 640, 768, 960, 1024, 1280, 1600, 1920, 2560,
+];
+export const IMAGE_TRANSFORM_QUALITIES = [50, 60, 70, 75, 80, 85, 90];
+export const IMAGE_TRANSFORM_FITS: ImageTransformFit[] = ['cover', 'contain', 'inside', 'fill'];
+export const IMAGE_TRANSFORM_FORMATS: ImageTransformFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+/**
+ * Renders kept per source image. The allowlists still allow thousands of
+ * combinations; past this many, requests for new ones are refused.
+ */
+export const MAX_CACHED_TRANSFORMS_PER_IMAGE = 50;
+
+const FORMAT_ALIASES: Record<string, ImageTransformFormat> = { jpg: 'jpeg' };
+const MAX_TRANSFORM_SIZE = 4096;
+
+interface SearchParamsSource {
+  get(name: string): string | null;
+}
+
+/** Parses a comma-separated size list, e.g. `IMAGE_TRANSFORM_SIZES=320,640,1280`. */
+export function parseTransformSizes(value: string | null | undefined): number[] {
+  const sizes = (value ?? '')
+    .split(',')
+    .map((size) => Number(size.trim()))
+    .filter((size) => Number.isInteger(size) && size > 0 && size <= MAX_TRANSFORM_SIZE);
+
+  return sizes.length > 0
+    ? [...new Set(sizes)].sort((left, right) => left - right)
+    : DEFAULT_IMAGE_TRANSFORM_SIZES;
+}
+
+function parseSize(value: string | null, allowedSizes: number[]): number | null | undefined {
+  if (value === null || value === '') {
+    return null;
+  }
+
+  const size = Number(value);
+  return allowedSizes.includes(size) ? size : undefined;
+}
+
+/** Reads `w`, `h`, `fit`, `fmt` and `q`; any value outside its allowlist rejects the whole request. */
+export function parseImageTransform(params: SearchParamsSource, allowedSizes: number[]): ImageTransformParse {
+  const width = parseSize(params.get('w'), allowedSizes);
+  const height = parseSize(params.get('h'), allowedSizes);
+  if (width === undefined || height === undefined) {
+    return { ok: false, error: `Width and height must be one of ${allowedSizes.join(', ')}` };
+  }
+
+  const fitValue = params.get('fit')?.trim().toLowerCase() || 'inside';
+  const fit = IMAGE_TRANSFORM_FITS.find((candidate) => candidate === fitValue);
+  if (!fit) {
+    return { ok: false, error: `fit must be one of ${IMAGE_TRANSFORM_FITS.join(', ')}` };
+  }
+
+  const formatValue = params.get('fmt')?.trim().toLowerCase() || '';
+  const format = formatValue
+    ? IMAGE_TRANSFORM_FORMATS.find((candidate) => candidate === (FORMAT_ALIASES[formatValue] ?? formatValue))
+    : null;
+  if (format === undefined) {
+    return { ok: false, error: `fmt must be one of ${IMAGE_TRANSFORM_FORMATS.join(', ')}` };
+  }
+
+  const qualityValue = params.get('q');
+  const quality = qualityValue ? Number(qualityValue) : DEFAULT_IMAGE_QUALITY;
+  if (!IMAGE_TRANSFORM_QUALITIES.includes(quality)) {
+    return { ok: false, error: `q must be one of ${IMAGE_TRANSFORM_QUALITIES.join(', ')}` };
+  }
+
+  if (width === null && height === null && format === null) {
+    return { ok: false, error: 'Specify at least one of w, h or fmt' };
+  }
+
+  return { ok: true, transform: { width, height, fit, format, quality } };
+}
+
+/**
+ * Where the output of `transform` is cached: one folder per source key, so
+ * all cached sizes of an image can be listed and dropped together. PNG is
+ * lossless and ignores `q`, so every quality shares one entry.
+ */
+export function getTransformKey(key: string, transform: ImageTransform, format: ImageTransformFormat): string {
+  const size = `${transform.width ?? 'auto'}x${transform.height ?? 'auto'}`;
+  const quality = format === 'png' ? '' : `-q${transform.quality}`;
+  return `${getTransformFolder(key)}${size}-${transform.fit}${quality}.${format}`;
+}
+
+export function getTransformFolder(key: string): string {
+  return `${TRANSFORMS_PREFIX}${key}/`;
+}
@@ -0,0 +1,74 @@
+import { afterAll, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { getVariantKey, getVariantSrcSet, getVariantUrl } from './image-variants';
+import { deleteImages, getImage, moveImages, uploadImage } from './r2.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+import { listTrash, restoreFromTrash } from './trash.server';
+
+useTemporaryDataDir('variants', { memoryStorage: true });
+
+afterAll(async () => {
+  delete process.env.TRASH_RETENTION_DAYS;
+});
+
+async function createPng(name: string, width: number, height: number): Promise<File> {
+  const body = await sharp({ create: { width, height, channels: 3, background: '#2563eb' } })
+    .png()
+    .toBuffer();
+  return new File([body], name, { type: 'image/png' });
+}
+
+async function variantExists(key: string, width: number): Promise<boolean> {
+  return Boolean(await getStorageBackend().headObject(getVariantKey(key, width)));
+}
+
+describe('image variants', () => {
+  it('generates the widths narrower than the image and exposes them', async () => {
+    const { image } = await uploadImage(await createPng('wide.png', 1000, 500), { folder: 'variants/' });
+
+    assert.deepEqual(
+      image.variants?.map((variant) => variant.width),
+      [256, 768]
+    );
+    const thumbnail = await sharp(
+      (await getStorageBackend().getObject(getVariantKey(image.key, 256)))?.body
+    ).metadata();
+    assert.equal(thumbnail.format, 'webp');
+    assert.equal(thumbnail.width, 256);
+    assert.equal(thumbnail.height, 128);
+
+    assert.deepEqual((await getImage(image.key))?.variants, image.variants);
+    assert.equal(getVariantUrl(image, 300), image.variants?.[1].url);
+    assert.equal(getVariantUrl(image, 1200), image.url);
+    assert.match(getVariantSrcSet(image) ?? '', / 256w, .+ 768w$/);
+  });
+
+  it('skips images smaller than the narrowest variant', async () => {
+    const { image } = await uploadImage(await createPng('tiny.png', 200, 200), { folder: 'variants/' });
+    assert.equal(image.variants, undefined);
+    assert.equal(getVariantUrl(image, 256), image.url);
+  });
+
+  it('keeps variants with the image through renames, the trash and deletion', async () => {
+    const { image } = await uploadImage(await createPng('move.png', 400, 300), { folder: 'variants/' });
+    const renamed = 'variants/renamed.png';
+
+    await moveImages([{ from: image.key, to: renamed }]);
+    assert.equal(await variantExists(image.key, 256), false);
+    assert.equal(await variantExists(renamed, 256), true);
+    assert.equal((await getImage(renamed))?.variants?.length, 1);
+
+    await deleteImages([renamed]);
+    assert.equal(await variantExists(renamed, 256), false);
+
+    const [item] = await listTrash('variants/');
+    await restoreFromTrash([item.id]);
+    assert.equal(await variantExists(renamed, 256), true);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    await deleteImages([renamed]);
+    assert.equal(await variantExists(renamed, 256), false);
+  });
+});
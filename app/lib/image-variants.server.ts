@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+
+import { getImageVariantWidths } from './image-metadata.server';
+import { canProcessImage } from './image-processing.server';
+import {
+  IMAGE_VARIANT_MIME_TYPE,
+  IMAGE_VARIANT_WIDTHS,
+  getVariantKey,
+  type ImageVariant,
+} from './image-variants';
+import type { ImageMove } from './images-api';
+import { getStorageBackend } from './storage.server';
+
+const VARIANT_QUALITY = 75;
+
+/** Variants are generated unless `IMAGE_VARIANTS` is set to `false`/`off`/`0`. */
+export function areImageVariantsEnabled(): boolean {
+  const value = process.env.IMAGE_VARIANTS?.trim().toLowerCase();
+  return !value || !['0', 'false', 'off', 'no'].includes(value);
+}
+
+export function toImageVariants(key: string, widths: number[]): ImageVariant[] {
+  return widths.map((width) => ({ width, url: getStorageBackend().getPublicUrl(getVariantKey(key, width)) }));
+}
+
+/**
+ * Writes a WebP copy of the image for every configured width narrower than
+ * the image itself and returns those widths. GIF, SVG and animated images
+ * get none. A failure never fails the upload: the gallery falls back to the
+ * original.
+ */
+export async function createImageVariants(key: string, body: Buffer, mimeType: string): Promise<number[]> {
+  if (!areImageVariantsEnabled() || !canProcessImage(mimeType)) {
+    return [];
+  }
+
+  try {
+    const metadata = await sharp(body).metadata();
+    if ((metadata.pages ?? 1) > 1) {
+      return [];
+    }
+
+    // EXIF orientations 5-8 swap the axes, so the displayed width is the stored height.
+    const width = (metadata.orientation ?? 1) >= 5 ? metadata.height : metadata.width;
+    const widths = IMAGE_VARIANT_WIDTHS.filter((variantWidth) => variantWidth < (width ?? 0));
+    const backend = getStorageBackend();
+
+    for (const variantWidth of widths) {
+      const variant = await sharp(body)
+        .autoOrient()
+        .resize({ width: variantWidth })
+        .webp({ quality: VARIANT_QUALITY })
+        .toBuffer();
+
+      await backend.putObject({
+        key: getVariantKey(key, variantWidth),
+        body: variant,
+        contentType: IMAGE_VARIANT_MIME_TYPE,
+        cacheControl: 'public, max-age=31536000',
+      });
+    }
+
+    return widths;
+  } catch {
+    // Not decodable by sharp (or truncated); the upload itself is still valid.
+    return [];
+  }
+}
+
+/** Moves the variants of renamed or trashed images; call before their metadata moves. */
+export async function moveImageVariants(moves: ImageMove[]) {
+  const widths = await getImageVariantWidths(moves.map((move) => move.from));
+  const backend = getStorageBackend();
+
+  await Promise.all(
+    moves.flatMap((move) =>
+      (widths.get(move.from) ?? []).map(async (width) => {
+        const from = getVariantKey(move.from, width);
+
+        try {
+          await backend.copyObject(from, getVariantKey(move.to, width));
+          await backend.deleteObject(from);
+        } catch (error) {
+          console.error(`Failed to move variant ${from}:`, error);
+        }
+      })
+    )
+  );
+}
+
+/** Deletes the variants of images that are being removed for good; call before their metadata goes. */
+export async function deleteImageVariants(keys: string[]) {
+  const widths = await getImageVariantWidths(keys);
+  const backend = getStorageBackend();
+
+  await Promise.all(
+    keys.flatMap((key) =>
+      (widths.get(key) ?? []).map((width) =>
+        backend.deleteObject(getVariantKey(key, width)).catch((error: unknown) => {
+          console.error(`Failed to delete variant of ${key}:`, error);
+        })
+      )
+    )
+  );
+}
@@ -0,0 +1,32 @@
+import { VARIANTS_PREFIX } from './images-api';
+
+/** Target widths of the resized copies; an image only gets the ones narrower than itself. */
+export const IMAGE_VARIANT_WIDTHS = [256, 768, 1600];
+export const IMAGE_VARIANT_MIME_TYPE = 'image/webp';
+
+export interface ImageVariant {
+  width: number;
+  url: string;
+}
+
+interface ImageWithVariants {
+  url: string;
+  variants?: ImageVariant[];
+}
+
+/** `.variants/768/photos/cat.png.webp`: the source key is kept whole so variants of `a.png` and `a.jpg` never collide. */
+export function getVariantKey(key: string, width: number): string {
+  return `${VARIANTS_PREFIX}${width}/${key}.webp`;
+}
+
+/** The smallest variant at least `minWidth` wide; the original when the image has none that large. */
+export function getVariantUrl(image: ImageWithVariants, minWidth: number): string {
+  return image.variants?.find((variant) => variant.width >= minWidth)?.url ?? image.url;
+}
+
+/** A `srcset` listing every variant, or undefined when there are none. */
+export function getVariantSrcSet(image: ImageWithVariants): string | undefined {
+  return image.variants?.length
+    ? image.variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ')
+    : undefined;
+}
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { createSignedObjectUrl, verifySignedObjectUrl } from './image-visibility.server';
+import { getImage, listImages, setImageVisibility, uploadImage } from './r2.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('visibility', { memoryStorage: true });
+
+beforeAll(async () => {
+  process.env.SIGNED_URL_SECRET = 'test-secret';
+});
+
+afterAll(async () => {
+  delete process.env.SIGNED_URL_SECRET;
+});
+
+function parseSignedUrl(url: string) {
+  const parsed = new URL(url, 'http://localhost');
+  return {
+    key: decodeURIComponent(parsed.pathname.replace(/^\/files\//, '')),
+    expires: parsed.searchParams.get('expires'),
+    signature: parsed.searchParams.get('signature'),
+  };
+}
+
+describe('signed object URLs', () => {
+  it('verify only for the signed key and before they expire', async () => {
+    const { key, expires, signature } = parseSignedUrl(await createSignedObjectUrl('.private/a b.png', 60));
+
+    assert.equal(key, '.private/a b.png');
+    assert.equal(verifySignedObjectUrl(key, expires, signature), true);
+    assert.equal(verifySignedObjectUrl('.private/other.png', expires, signature), false);
+    assert.equal(verifySignedObjectUrl(key, String(Number(expires) + 60), signature), false);
+
+    const expired = parseSignedUrl(await createSignedObjectUrl(key, -1));
+    assert.equal(verifySignedObjectUrl(key, expired.expires, expired.signature), false);
+  });
+});
+
+describe('setImageVisibility', () => {
+  it('moves images under .private/ and only lists signed URLs for them', async () => {
+    const body = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#00ff00' } })
+      .png()
+      .toBuffer();
+    const { image } = await uploadImage(new File([body], 'secret.png', { type: 'image/png' }), {
+      folder: 'visibility/',
+    });
+    assert.doesNotMatch(image.url, /signature=/);
+
+    const result = await setImageVisibility([image.key], 'private');
+    const privateKey = `.private/${image.key}`;
+    assert.deepEqual(result.moved, [{ from: image.key, to: privateKey }]);
+    assert.equal(await getImage(image.key), null);
+
+    const [listed] = (await listImages('.private/visibility/')).images;
+    assert.equal(listed.key, privateKey);
+    for (const url of [listed.url, ...(listed.variants ?? []).map((variant) => variant.url)]) {
+      const signed = parseSignedUrl(url);
+      assert.equal(verifySignedObjectUrl(signed.key, signed.expires, signed.signature), true);
+    }
+    assert.ok(listed.variants?.length);
+
+    await setImageVisibility([privateKey], 'public');
+    assert.equal((await getImage(image.key))?.url, image.url);
+  });
+});
@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { getVariantKey, type ImageVariant } from './image-variants';
+import { isPrivateObjectKey } from './image-visibility';
+import { joinPublicUrl } from './storage';
+import { getStorageBackend, isPrivateStorageConfigured } from './storage.server';
+
+/** Signed links that the gallery shows private images with. */
+const PREVIEW_URL_TTL_SECONDS = 60 * 60;
+/** The route that checks app-signed links, whatever `STORAGE_PUBLIC_URL` points at. */
+const SIGNED_FILES_PATH = '/files';
+
+interface ImageWithUrls {
+  key: string;
+  url: string;
+  variants?: ImageVariant[];
+}
+
+/**
+ * `SIGNED_URL_SECRET` signs share links for the local and memory drivers.
+ * Changing it revokes every link handed out so far.
+ */
+function getSigningSecret(): string {
+  const secret = process.env.SIGNED_URL_SECRET?.trim();
+  if (!secret) {
+    throw new Error('SIGNED_URL_SECRET is not configured');
+  }
+
+  return secret;
+}
+
+/**
+ * Why images cannot be made private in this deployment, or null when they
+ * can: R2 needs a bucket without a public domain, the other drivers a secret
+ * to sign links with.
+ */
+export function getPrivateImagesUnavailableReason(): string | null {
+  if (!isPrivateStorageConfigured()) {
+    return 'R2_PRIVATE_BUCKET_NAME is not configured';
+  }
+
+  if (!getStorageBackend().createPresignedDownload && !process.env.SIGNED_URL_SECRET?.trim()) {
+    return 'SIGNED_URL_SECRET is not configured';
+  }
+
+  return null;
+}
+
+function signObjectKey(key: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${key}\n${expires}`).digest('base64url');
+}
+
+/** Checks the `expires` and `signature` query parameters of an app-signed `/files` link. */
+export function verifySignedObjectUrl(
+  key: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 <= Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signObjectKey(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * A link to the object that stops working after `expiresInSeconds`: a
+ * presigned `GetObject` URL on R2, otherwise a `/files` link signed by the
+ * app. Unlike the public URL it works for private images.
+ */
+export async function createSignedObjectUrl(key: string, expiresInSeconds: number): Promise<string> {
+  const backend = getStorageBackend();
+  if (backend.createPresignedDownload) {
+    return backend.createPresignedDownload({ key, expiresInSeconds });
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const query = new URLSearchParams({ expires: String(expires), signature: signObjectKey(key, expires) });
+  return `${joinPublicUrl(SIGNED_FILES_PATH, key)}?${query}`;
+}
+
+/** The public URL, or a short-lived signed one for private objects. */
+export async function getObjectUrl(key: string): Promise<string> {
+  return isPrivateObjectKey(key)
+    ? createSignedObjectUrl(key, PREVIEW_URL_TTL_SECONDS)
+    : getStorageBackend().getPublicUrl(key);
+}
+
+/** Replaces the public URLs of private images and their variants with signed ones. */
+export async function withSignedUrls<T extends ImageWithUrls>(images: T[]): Promise<T[]> {
+  return Promise.all(
+    images.map(async (image) => {
+      if (!isPrivateObjectKey(image.key)) {
+        return image;
+      }
+
+      const [url, variants] = await Promise.all([
+        getObjectUrl(image.key),
+        image.variants &&
+          Promise.all(
+            image.variants.map(async (variant) => ({
+              width: variant.width,
+              url: await getObjectUrl(getVariantKey(image.key, variant.width)),
+            }))
+          ),
+      ]);
+
+      return { ...image, url, ...(variants ? { variants } : {}) };
+    })
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  getImageVisibility,
+  getKeyForVisibility,
+  isPrivateObjectKey,
+  parseShareHours,
+  parseVisibilityPayload,
+} from './image-visibility';
+
+describe('getKeyForVisibility', () => {
+  it('moves keys and folders into and out of the private folder', () => {
+    assert.equal(getKeyForVisibility('photos/a.png', 'private'), '.private/photos/a.png');
+    assert.equal(getKeyForVisibility('.private/photos/', 'public'), 'photos/');
+    assert.equal(getKeyForVisibility('.private/a.png', 'private'), '.private/a.png');
+    assert.equal(getImageVisibility('.private/a.png'), 'private');
+  });
+});
+
+describe('isPrivateObjectKey', () => {
+  it('covers the variants, transforms and trash copies of private images', () => {
+    assert.equal(isPrivateObjectKey('.variants/256/.private/a.png.webp'), true);
+    assert.equal(isPrivateObjectKey('.trash/abc/.private/a.png'), true);
+    assert.equal(isPrivateObjectKey('.variants/256/a.png.webp'), false);
+    assert.equal(isPrivateObjectKey('private/a.png'), false);
+  });
+});
+
+describe('parseVisibilityPayload', () => {
+  it('accepts keys or a folder with a known visibility', () => {
+    assert.deepEqual(parseVisibilityPayload({ keys: ['a.png', '/a.png'], visibility: 'private' }), {
+      visibility: 'private',
+      keys: ['a.png'],
+    });
+    assert.deepEqual(parseVisibilityPayload({ folder: 'albums', visibility: 'public' }), {
+      visibility: 'public',
+      folder: 'albums/',
+    });
+  });
+
+  it('rejects the root, unknown visibilities and invalid keys', () => {
+    assert.equal(parseVisibilityPayload({ folder: '/', visibility: 'private' }), null);
+    assert.equal(parseVisibilityPayload({ folder: '.private', visibility: 'public' }), null);
+    assert.equal(parseVisibilityPayload({ keys: ['a.png'], visibility: 'hidden' }), null);
+    assert.equal(parseVisibilityPayload({ keys: ['a.png', '../b.png'], visibility: 'private' }), null);
+  });
+});
+
+describe('parseShareHours', () => {
+  it('accepts whole hours up to seven days', () => {
+    assert.equal(parseShareHours(24), 24);
+    assert.equal(parseShareHours('168'), 168);
+    assert.equal(parseShareHours(169), null);
+    assert.equal(parseShareHours(1.5), null);
+    assert.equal(parseShareHours(0), null);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  PRIVATE_FOLDER,
+  PRIVATE_PREFIX,
+  normalizeFolderPath,
+  normalizeObjectKey,
+} from './images-api';
+
+export type ImageVisibility = 'public' | 'private';
+
+/** Which images or folder to move, e.g. `{ keys: ['a.png'], visibility: 'private' }`. */
+export type VisibilityChange =
+  | { visibility: ImageVisibility; keys: string[] }
+  | { visibility: ImageVisibility; folder: string };
+
+interface VisibilityPayload {
+  visibility?: unknown;
+  keys?: unknown;
+  folder?: unknown;
+}
+
+/** Presigned R2 URLs are valid for at most seven days. */
+export const MAX_SHARE_HOURS = 7 * 24;
+export const DEFAULT_SHARE_HOURS = 24;
+export const SHARE_HOUR_OPTIONS = [1, 24, 72, MAX_SHARE_HOURS];
+
+export function getImageVisibility(key: string): ImageVisibility {
+  return key.startsWith(PRIVATE_PREFIX) ? 'private' : 'public';
+}
+
+/** `photos/a.png` <-> `.private/photos/a.png`; folders map the same way. */
+export function getKeyForVisibility(key: string, visibility: ImageVisibility): string {
+  if (getImageVisibility(key) === visibility) {
+    return key;
+  }
+
+  return visibility === 'private' ? `${PRIVATE_PREFIX}${key}` : key.slice(PRIVATE_PREFIX.length);
+}
+
+/**
+ * True for private images and for everything derived from them: variants,
+ * cached transforms and trash copies keep the original key in their path.
+ */
+export function isPrivateObjectKey(key: string): boolean {
+  return key.split('/').includes(PRIVATE_FOLDER);
+}
+
+/** Whole hours from 1 to `MAX_SHARE_HOURS`; null for anything else. */
+export function parseShareHours(value: unknown): number | null {
+  const hours = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof hours === 'number' && Number.isInteger(hours) && hours >= 1 && hours <= MAX_SHARE_HOURS
+    ? hours
+    : null;
+}
+
+/**
+ * Accepts `{ keys, visibility }` for single images or `{ folder, visibility }`
+ * for everything under a folder. The bucket root cannot change visibility.
+ */
+export function parseVisibilityPayload(
+  payload: VisibilityPayload | null | undefined
+): VisibilityChange | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const { visibility } = payload;
+  if (visibility !== 'public' && visibility !== 'private') {
+    return null;
+  }
+
+  if (payload.folder !== undefined) {
+    const folder = normalizeFolderPath(payload.folder);
+    return folder && folder !== PRIVATE_PREFIX ? { visibility, folder } : null;
+  }
+
+  if (!Array.isArray(payload.keys) || payload.keys.length === 0) {
+    return null;
+  }
+
+  const keys = payload.keys.map((key) => normalizeObjectKey(key));
+  return keys.every((key): key is string => key !== null) ? { visibility, keys: [...new Set(keys)] } : null;
+}
@@ -3,8 +3,14 @@ import assert from 'node:assert/strict';
 import {
   DEFAULT_IMAGE_PAGE_SIZE,
   clampImageListLimit,
+  isFolderPlaceholder,
+  matchesImageFilters,
+  normalizeFolderPath,
+  normalizeObjectKey,
+  paginateImages,
   parseDeleteKeys,
   parseImageListQuery,
+  parseMovePayload,
 } from './images-api';
 
 describe('parseImageListQuery', () => {
@@ -15,6 +21,9 @@ describe('parseImageListQuery', () => {
       limit: DEFAULT_IMAGE_PAGE_SIZE,
       cursor: null,
       prefix: '',
+      delimiter: '',
+      filters: {},
+      sort: null,
     });
   });
 
@@ -27,8 +36,203 @@ describe('parseImageListQuery', () => {
       limit: clampImageListLimit(500),
       cursor: 'abc123',
       prefix: 'gallery/',
+      delimiter: '',
+      filters: {},
+      sort: null,
     });
   });
+
+  it('only accepts the folder delimiter', () => {
+    assert.equal(
+      parseImageListQuery(new URL('https://example.com/api/images?delimiter=/')).delimiter,
+      '/'
+    );
+    assert.equal(
+      parseImageListQuery(new URL('https://example.com/api/images?delimiter=-')).delimiter,
+      ''
+    );
+  });
+
+  it('parses search filters and drops invalid values', () => {
+    const { filters } = parseImageListQuery(
+      new URL(
+        'https://example.com/api/images?q=%20sunset%20beach%20&type=jpg&tag=Travel&tag=travel&tag=2024' +
+          '&minSize=1024&maxSize=-5&from=2024-01-01&to=2024-01-31'
+      )
+    );
+
+    assert.deepEqual(filters, {
+      q: 'sunset beach',
+      type: 'image/jpeg',
+      tags: ['travel', '2024'],
+      minSize: 1024,
+      from: new Date('2024-01-01T00:00:00.000Z'),
+      to: new Date('2024-01-31T23:59:59.999Z'),
+    });
+    assert.deepEqual(
+      parseImageListQuery(new URL('https://example.com/api/images?type=../x&from=soon&minSize=abc'))
+        .filters,
+      {}
+    );
+  });
+});
+
+describe('paginateImages', () => {
+  const images = [
+    { key: 'b/Zebra.png', size: 30, mimeType: 'image/png', uploadedAt: '2024-01-02T00:00:00.000Z' },
+    { key: 'a/apple.png', size: 10, mimeType: 'image/png', uploadedAt: '2024-01-03T00:00:00.000Z' },
+    { key: 'c/mango.png', size: 10, mimeType: 'image/png', uploadedAt: '2024-01-01T00:00:00.000Z' },
+  ];
+
+  function collectPages(sort: Parameters<typeof paginateImages>[1]): string[] {
+    const keys: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = paginateImages(images, sort, 1, cursor);
+      keys.push(...page.items.map((image) => image.key));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return keys;
+  }
+
+  it('parses sort and order, defaulting to ascending', () => {
+    const query = (search: string) => parseImageListQuery(new URL(`https://example.com/api/images?${search}`));
+
+    assert.deepEqual(query('sort=size&order=desc').sort, { field: 'size', order: 'desc' });
+    assert.deepEqual(query('sort=name').sort, { field: 'name', order: 'asc' });
+    assert.equal(query('sort=color&order=desc').sort, null);
+  });
+
+  it('keeps a stable order across pages, breaking ties by key', () => {
+    assert.deepEqual(collectPages({ field: 'size', order: 'desc' }), [
+      'b/Zebra.png',
+      'a/apple.png',
+      'c/mango.png',
+    ]);
+    assert.deepEqual(collectPages({ field: 'uploadedAt', order: 'asc' }), [
+      'c/mango.png',
+      'b/Zebra.png',
+      'a/apple.png',
+    ]);
+    assert.deepEqual(collectPages({ field: 'name', order: 'asc' }), [
+      'a/apple.png',
+      'c/mango.png',
+      'b/Zebra.png',
+    ]);
+    assert.deepEqual(collectPages(null), ['a/apple.png', 'b/Zebra.png', 'c/mango.png']);
+  });
+
+  it('resumes after the cursor even when that image is gone', () => {
+    const first = paginateImages(images, { field: 'size', order: 'asc' }, 1);
+    const rest = paginateImages(
+      images.filter((image) => image.key !== 'a/apple.png'),
+      { field: 'size', order: 'asc' },
+      10,
+      first.nextCursor
+    );
+
+    assert.deepEqual(
+      rest.items.map((image) => image.key),
+      ['c/mango.png', 'b/Zebra.png']
+    );
+  });
+});
+
+describe('matchesImageFilters', () => {
+  const image = {
+    key: 'albums/beach.png',
+    size: 2048,
+    mimeType: 'image/png',
+    uploadedAt: '2024-03-10T12:00:00.000Z',
+    title: 'Sunset at the pier',
+    tags: ['Travel', 'summer'],
+  };
+
+  it('requires every search word to match some field', () => {
+    assert.equal(matchesImageFilters(image, { q: 'BEACH sunset' }), true);
+    assert.equal(matchesImageFilters(image, { q: 'summer pier' }), true);
+    assert.equal(matchesImageFilters(image, { q: 'beach winter' }), false);
+  });
+
+  it('applies type, tag, size and date filters together', () => {
+    assert.equal(
+      matchesImageFilters(image, {
+        type: 'image/png',
+        tags: ['travel'],
+        minSize: 1024,
+        maxSize: 4096,
+        from: new Date('2024-03-01'),
+        to: new Date('2024-03-31'),
+      }),
+      true
+    );
+    assert.equal(matchesImageFilters(image, { type: 'image/jpeg' }), false);
+    assert.equal(matchesImageFilters(image, { tags: ['travel', 'work'] }), false);
+    assert.equal(matchesImageFilters(image, { maxSize: 1000 }), false);
+    assert.equal(matchesImageFilters(image, { from: new Date('2024-04-01') }), false);
+  });
+});
+
+describe('normalizeFolderPath', () => {
+  it('normalizes slashes and whitespace', () => {
+    assert.equal(normalizeFolderPath(' /albums//2024 / '), 'albums/2024/');
+    assert.equal(normalizeFolderPath(''), '');
+    assert.equal(normalizeFolderPath('/'), '');
+  });
+
+  it('rejects traversal and non-string input', () => {
+    assert.equal(normalizeFolderPath('albums/../secret'), null);
+    assert.equal(normalizeFolderPath('a\\b'), null);
+    assert.equal(normalizeFolderPath(42), null);
+  });
+
+  it('only allows the private folder at the root', () => {
+    assert.equal(normalizeFolderPath('.private/albums'), '.private/albums/');
+    assert.equal(normalizeFolderPath('albums/.private'), null);
+  });
+});
+
+describe('isFolderPlaceholder', () => {
+  it('matches placeholders at any depth', () => {
+    assert.equal(isFolderPlaceholder('.folder'), true);
+    assert.equal(isFolderPlaceholder('albums/.folder'), true);
+    assert.equal(isFolderPlaceholder('albums/photo.folder'), false);
+  });
+});
+
+describe('normalizeObjectKey', () => {
+  it('accepts nested keys and drops leading slashes', () => {
+    assert.equal(normalizeObjectKey(' /albums/cover.png '), 'albums/cover.png');
+  });
+
+  it('rejects folders, traversal and placeholders', () => {
+    assert.equal(normalizeObjectKey('albums/'), null);
+    assert.equal(normalizeObjectKey('albums//cover.png'), null);
+    assert.equal(normalizeObjectKey('../cover.png'), null);
+    assert.equal(normalizeObjectKey('albums/.folder'), null);
+    assert.equal(normalizeObjectKey(null), null);
+  });
+});
+
+describe('parseMovePayload', () => {
+  it('supports a single rename', () => {
+    assert.deepEqual(parseMovePayload({ from: 'a.png', to: 'b.png' }), [{ from: 'a.png', to: 'b.png' }]);
+  });
+
+  it('moves keys into a folder under their file names', () => {
+    assert.deepEqual(parseMovePayload({ keys: ['old/a.png', 'b.png'], folder: 'albums' }), [
+      { from: 'old/a.png', to: 'albums/a.png' },
+      { from: 'b.png', to: 'albums/b.png' },
+    ]);
+  });
+
+  it('returns null when any entry is invalid', () => {
+    assert.equal(parseMovePayload({ moves: [{ from: 'a.png', to: 'b.png' }, { from: 'c.png' }] }), null);
+    assert.equal(parseMovePayload({ keys: ['a.png'], folder: '../x' }), null);
+    assert.equal(parseMovePayload(null), null);
+  });
 });
 
 describe('parseDeleteKeys', () => {
@@ -47,4 +251,13 @@ describe('parseDeleteKeys', () => {
     assert.deepEqual(parseDeleteKeys(null), []);
     assert.deepEqual(parseDeleteKeys({ keys: [123, false] }), []);
   });
+
+  it('rejects hidden and malformed keys', () => {
+    const hidden = ['.trash/1/a.png', '.variants/256/a.png.webp', '.transforms/a.png/w256.webp', '.uploads/x'];
+    for (const key of hidden) {
+      assert.deepEqual(parseDeleteKeys({ keys: ['a.png', key] }), [], key);
+    }
+    assert.deepEqual(parseDeleteKeys({ key: '../a.png' }), []);
+    assert.deepEqual(parseDeleteKeys({ key: '.private/a.png' }), ['.private/a.png']);
+  });
 });
@@ -1,10 +1,80 @@
+import { normalizeMimeType } from './file-type';
+
 export const DEFAULT_IMAGE_PAGE_SIZE = 60;
 export const MAX_IMAGE_PAGE_SIZE = 100;
+export const FOLDER_DELIMITER = '/';
+/** Zero-byte object that keeps an otherwise empty folder visible. */
+export const FOLDER_PLACEHOLDER = '.folder';
+/** Direct uploads land here until they are verified and moved to their real key. */
+export const UPLOAD_STAGING_PREFIX = '.uploads/';
+/** Deleted images wait here until they are restored or purged. */
+export const TRASH_PREFIX = '.trash/';
+/** Resized copies generated at upload, one subfolder per width. */
+export const VARIANTS_PREFIX = '.variants/';
+/** Cached output of the `/i/*` transform route, one subfolder per source key. */
+export const TRANSFORMS_PREFIX = '.transforms/';
+/** Private images live under this folder and are only reachable through signed links. */
+export const PRIVATE_FOLDER = '.private';
+export const PRIVATE_PREFIX = `${PRIVATE_FOLDER}/`;
+
+const MAX_FOLDER_PATH_LENGTH = 512;
+const MAX_OBJECT_KEY_LENGTH = 1024;
+const MAX_SEARCH_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Search criteria for `/api/images`; every field that is set must match. */
+export interface ImageFilters {
+  /** Words matched, case-insensitively, against the key, title, alt text, original name and tags. */
+  q?: string;
+  type?: string;
+  /** Exact tag matches, case-insensitive. */
+  tags?: string[];
+  minSize?: number;
+  maxSize?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export const IMAGE_SORT_FIELDS = ['uploadedAt', 'size', 'name'] as const;
+
+export type ImageSortField = (typeof IMAGE_SORT_FIELDS)[number];
+
+export interface ImageSort {
+  field: ImageSortField;
+  order: 'asc' | 'desc';
+}
 
 export interface ImageListQuery {
   limit: number;
   cursor: string | null;
   prefix: string;
+  delimiter: string;
+  filters: ImageFilters;
+  /** Null keeps the storage order: keys ascending, with plain keys as cursors. */
+  sort: ImageSort | null;
+}
+
+export interface ImagePage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/** The fields filters are evaluated against, as found on `ImageInfo`. */
+export interface FilterableImage {
+  key: string;
+  size: number;
+  mimeType: string;
+  uploadedAt: Date | string;
+  title?: string;
+  alt?: string;
+  tags?: string[];
+  originalName?: string;
+}
+
+export interface ImageMove {
+  from: string;
+  to: string;
 }
 
 interface DeleteKeysPayload {
@@ -12,6 +82,14 @@ interface DeleteKeysPayload {
   keys?: unknown;
 }
 
+interface MovePayload {
+  from?: unknown;
+  to?: unknown;
+  keys?: unknown;
+  folder?: unknown;
+  moves?: unknown;
+}
+
 function parseInteger(value: string | null, fallback: number): number {
   if (!value) {
     return fallback;
@@ -25,35 +103,343 @@ export function clampImageListLimit(value: number): number {
   return Math.min(Math.max(value, 1), MAX_IMAGE_PAGE_SIZE);
 }
 
+function parseSize(value: string | null): number | undefined {
+  const size = value?.trim() ? Number(value) : Number.NaN;
+  return Number.isSafeInteger(size) && size >= 0 ? size : undefined;
+}
+
+/** Accepts ISO timestamps or plain dates; a plain `to` date includes that whole day (UTC). */
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  const text = value?.trim() || '';
+  const time = Date.parse(text);
+  if (!text || Number.isNaN(time)) {
+    return undefined;
+  }
+
+  return new Date(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(text) ? time + DAY_MS - 1 : time);
+}
+
+/** `png`, `image/png` and aliases such as `jpg` all name the same type. */
+function parseTypeFilter(value: string | null): string | undefined {
+  const text = value?.trim().toLowerCase() || '';
+  if (!text || !/^[a-z][a-z0-9.+-]*(\/[a-z][a-z0-9.+-]*)?$/.test(text)) {
+    return undefined;
+  }
+
+  return normalizeMimeType(text.includes('/') ? text : `image/${text}`);
+}
+
+export function parseImageFilters(params: URLSearchParams): ImageFilters {
+  const q = params.get('q')?.trim().slice(0, MAX_SEARCH_LENGTH);
+  const tags = [
+    ...new Set(
+      params
+        .getAll('tag')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+  const filters: ImageFilters = {
+    q: q || undefined,
+    type: parseTypeFilter(params.get('type')),
+    tags: tags.length > 0 ? tags : undefined,
+    minSize: parseSize(params.get('minSize')),
+    maxSize: parseSize(params.get('maxSize')),
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to'), true),
+  };
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as ImageFilters;
+}
+
+export function hasImageFilters(filters: ImageFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+export function matchesImageFilters(image: FilterableImage, filters: ImageFilters): boolean {
+  const uploadedAt = new Date(image.uploadedAt).getTime();
+  const imageTags = (image.tags ?? []).map((tag) => tag.toLowerCase());
+
+  if (
+    (filters.type && image.mimeType !== filters.type) ||
+    (filters.minSize !== undefined && image.size < filters.minSize) ||
+    (filters.maxSize !== undefined && image.size > filters.maxSize) ||
+    (filters.from && !(uploadedAt >= filters.from.getTime())) ||
+    (filters.to && !(uploadedAt <= filters.to.getTime())) ||
+    filters.tags?.some((tag) => !imageTags.includes(tag))
+  ) {
+    return false;
+  }
+
+  if (!filters.q) {
+    return true;
+  }
+
+  const haystack = [image.key, image.title, image.alt, image.originalName, ...imageTags]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return filters.q
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => haystack.includes(word));
+}
+
+export function parseImageSort(params: URLSearchParams): ImageSort | null {
+  const field = params.get('sort');
+  if (!IMAGE_SORT_FIELDS.includes(field as ImageSortField)) {
+    return null;
+  }
+
+  return {
+    field: field as ImageSortField,
+    order: params.get('order') === 'desc' ? 'desc' : 'asc',
+  };
+}
+
+type SortValue = number | string;
+
+function getSortValue(image: FilterableImage, field: ImageSortField | 'key'): SortValue {
+  if (field === 'uploadedAt') {
+    const time = new Date(image.uploadedAt).getTime();
+    return Number.isNaN(time) ? 0 : time;
+  }
+
+  if (field === 'size') {
+    return image.size;
+  }
+
+  return field === 'name' ? getKeyBaseName(image.key).toLowerCase() : image.key;
+}
+
+function compareValues(left: SortValue, right: SortValue): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** Ties on the sort field fall back to the key, so every image has one fixed position. */
+function compareSortEntries(
+  left: { value: SortValue; key: string },
+  right: { value: SortValue; key: string },
+  sort: ImageSort | null
+): number {
+  const direction = sort?.order === 'desc' ? -1 : 1;
+  return compareValues(left.value, right.value) * direction || compareValues(left.key, right.key);
+}
+
+/** Sorted cursors carry the sort value as well as the key, so a page resumes right after the last image shown. */
+function parseSortCursor(cursor: string, sort: ImageSort): { value: SortValue; key: string } | null {
+  try {
+    const [value, key] = JSON.parse(cursor) as unknown[];
+    const expected = sort.field === 'name' ? 'string' : 'number';
+    return typeof value === expected && typeof key === 'string' ? { value: value as SortValue, key } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sorts images and returns the page after `cursor`. Without a sort the
+ * cursor is simply the last key; an unreadable cursor starts from the top.
+ */
+export function paginateImages<T extends FilterableImage>(
+  images: T[],
+  sort: ImageSort | null,
+  limit: number,
+  cursor?: string | null
+): ImagePage<T> {
+  const field = sort?.field ?? 'key';
+  const entries = images
+    .map((image) => ({ image, key: image.key, value: getSortValue(image, field) }))
+    .sort((left, right) => compareSortEntries(left, right, sort));
+  const after = cursor ? (sort ? parseSortCursor(cursor, sort) : { value: cursor, key: cursor }) : null;
+  const remaining = after ? entries.filter((entry) => compareSortEntries(entry, after, sort) > 0) : entries;
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  const hasMore = remaining.length > page.length;
+
+  return {
+    items: page.map((entry) => entry.image),
+    nextCursor: hasMore && last ? (sort ? JSON.stringify([last.value, last.key]) : last.key) : null,
+    hasMore,
+  };
+}
+
 export function parseImageListQuery(url: URL): ImageListQuery {
   const limit = clampImageListLimit(
     parseInteger(url.searchParams.get('limit'), DEFAULT_IMAGE_PAGE_SIZE)
   );
   const cursor = url.searchParams.get('cursor');
   const prefix = url.searchParams.get('prefix')?.trim() || '';
+  const delimiter =
+    url.searchParams.get('delimiter') === FOLDER_DELIMITER ? FOLDER_DELIMITER : '';
 
   return {
     limit,
     cursor: cursor || null,
     prefix,
+    delimiter,
+    filters: parseImageFilters(url.searchParams),
+    sort: parseImageSort(url.searchParams),
   };
 }
 
-export function parseDeleteKeys(payload: DeleteKeysPayload | null | undefined): string[] {
+/**
+ * Turns user input such as `/albums//2024 ` into the key prefix `albums/2024/`.
+ * Returns `''` for the bucket root and null for anything that cannot be a
+ * folder (traversal segments, control characters, overly long paths, a
+ * `.private` folder anywhere but at the root).
+ */
+export function normalizeFolderPath(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const segments = value
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (
+    segments.some(
+      (segment, index) =>
+        segment === '.' ||
+        segment === '..' ||
+        segment === FOLDER_PLACEHOLDER ||
+        (segment === PRIVATE_FOLDER && index > 0) ||
+        /[\\\u0000-\u001f\u007f]/.test(segment)
+    )
+  ) {
+    return null;
+  }
+
+  const folder = segments.length > 0 ? `${segments.join(FOLDER_DELIMITER)}${FOLDER_DELIMITER}` : '';
+  return folder.length > MAX_FOLDER_PATH_LENGTH ||
+    folder.startsWith(UPLOAD_STAGING_PREFIX) ||
+    folder.startsWith(TRASH_PREFIX) ||
+    folder.startsWith(VARIANTS_PREFIX) ||
+    folder.startsWith(TRANSFORMS_PREFIX)
+    ? null
+    : folder;
+}
+
+/**
+ * Validates a full object key supplied by a client, e.g. the destination of a
+ * rename. Leading slashes are dropped; folders-only keys, traversal segments,
+ * nested `.private` folders and control characters are rejected with null.
+ */
+export function normalizeObjectKey(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const key = value.trim().replace(/^\/+/, '');
+  if (!key || key.length > MAX_OBJECT_KEY_LENGTH || key.endsWith(FOLDER_DELIMITER)) {
+    return null;
+  }
+
+  const segments = key.split(FOLDER_DELIMITER);
+  if (
+    segments.some(
+      (segment, index) =>
+        !segment ||
+        segment === '.' ||
+        segment === '..' ||
+        (segment === PRIVATE_FOLDER && index > 0) ||
+        /[\\\u0000-\u001f\u007f]/.test(segment)
+    ) ||
+    isHiddenKey(key)
+  ) {
+    return null;
+  }
+
+  return key;
+}
+
+function getKeyBaseName(key: string): string {
+  return key.slice(key.lastIndexOf(FOLDER_DELIMITER) + 1);
+}
+
+/**
+ * Accepts `{ from, to }` for a single rename, `{ moves: [{ from, to }] }` for
+ * several, or `{ keys, folder }` to move keys into a folder under their
+ * current file names. Returns null if any entry is invalid.
+ */
+export function parseMovePayload(payload: MovePayload | null | undefined): ImageMove[] | null {
   if (!payload || typeof payload !== 'object') {
-    return [];
+    return null;
   }
 
-  if (typeof payload.key === 'string') {
-    return payload.key.trim() ? [payload.key.trim()] : [];
+  let entries: Array<{ from?: unknown; to?: unknown }>;
+
+  if (Array.isArray(payload.moves)) {
+    entries = payload.moves.map((entry) => (entry && typeof entry === 'object' ? entry : {}));
+  } else if (Array.isArray(payload.keys)) {
+    const folder = normalizeFolderPath(payload.folder);
+    if (folder === null) {
+      return null;
+    }
+
+    entries = payload.keys.map((key) => ({
+      from: key,
+      to: typeof key === 'string' ? `${folder}${getKeyBaseName(key.trim())}` : null,
+    }));
+  } else {
+    entries = [payload];
   }
 
-  if (!Array.isArray(payload.keys)) {
+  const moves: ImageMove[] = [];
+
+  for (const entry of entries) {
+    const from = normalizeObjectKey(entry.from);
+    const to = normalizeObjectKey(entry.to);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    if (!moves.some((move) => move.from === from)) {
+      moves.push({ from, to });
+    }
+  }
+
+  return moves;
+}
+
+export function isFolderPlaceholder(key: string): boolean {
+  return key === FOLDER_PLACEHOLDER || key.endsWith(`${FOLDER_DELIMITER}${FOLDER_PLACEHOLDER}`);
+}
+
+/**
+ * Keys the gallery never shows and clients may not target: placeholders,
+ * staged uploads, the trash, variants and cached transforms.
+ */
+export function isHiddenKey(key: string): boolean {
+  return (
+    isFolderPlaceholder(key) ||
+    key.startsWith(UPLOAD_STAGING_PREFIX) ||
+    key.startsWith(TRASH_PREFIX) ||
+    key.startsWith(VARIANTS_PREFIX) ||
+    key.startsWith(TRANSFORMS_PREFIX)
+  );
+}
+
+/**
+ * Accepts `{ key }` or `{ keys }`; blank entries are skipped. Returns nothing
+ * at all if any other key fails `normalizeObjectKey`, so hidden objects such
+ * as trash copies or variants can't be deleted directly.
+ */
+export function parseDeleteKeys(payload: DeleteKeysPayload | null | undefined): string[] {
+  if (!payload || typeof payload !== 'object') {
     return [];
   }
 
-  return [...new Set(payload.keys)]
-    .filter((value): value is string => typeof value === 'string')
-    .map((value) => value.trim())
-    .filter(Boolean);
+  const values: unknown[] =
+    typeof payload.key === 'string' ? [payload.key] : Array.isArray(payload.keys) ? payload.keys : [];
+  const keys = values
+    .filter((value): value is string => typeof value === 'string' && Boolean(value.trim()))
+    .map((value) => normalizeObjectKey(value));
+
+  return keys.every((key): key is string => key !== null) ? [...new Set(keys)] : [];
 }
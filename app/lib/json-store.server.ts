@@ -0,0 +1,68 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const DEFAULT_DATA_DIR = '.data';
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+export function getDataFilePath(fileName: string): string {
+  return path.resolve(process.env.DATA_DIR?.trim() || DEFAULT_DATA_DIR, fileName);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+      return fallback;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Copies a record keyed by object keys into a null-prototype object, so keys
+ * such as `__proto__` stay plain entries.
+ */
+export function toKeyedRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.assign(Object.create(null), record);
+}
+
+async function writeJsonFile(filePath: string, data: unknown) {
+  const temporaryPath = `${filePath}.${process.pid}.tmp`;
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(temporaryPath, JSON.stringify(data, null, 2));
+  await rename(temporaryPath, filePath);
+}
+
+/**
+ * Read-modify-write for small JSON files. Updates to the same file are queued
+ * so concurrent requests in one process never overwrite each other, and the
+ * file is replaced atomically via rename.
+ */
+export async function updateJsonFile<T, R = void>(
+  filePath: string,
+  fallback: T,
+  update: (current: T) => { data: T; result: R } | Promise<{ data: T; result: R }>
+): Promise<R> {
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const { data, result } = await update(await readJsonFile(filePath, fallback));
+      await writeJsonFile(filePath, data);
+      return result;
+    });
+
+  pendingWrites.set(filePath, next);
+
+  try {
+    return await next;
+  } finally {
+    if (pendingWrites.get(filePath) === next) {
+      pendingWrites.delete(filePath);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  formatImageLink,
+  formatImageLinks,
+  getLinkFormatOptions,
+  parseLinkTemplates,
+  renderLinkTemplate,
+  type LinkableImage,
+} from './link-formats';
+
+const image: LinkableImage = {
+  key: 'blog/cat & dog.png',
+  url: 'https://img.example.com/blog/cat%20&%20dog.png',
+  size: 1024,
+  mimeType: 'image/png',
+  alt: 'A "cat" <3',
+  width: 1200,
+  height: 800,
+  variants: [
+    { width: 256, url: 'https://img.example.com/.variants/256/blog/cat.png.webp' },
+    { width: 768, url: 'https://img.example.com/.variants/768/blog/cat.png.webp' },
+  ],
+};
+
+describe('formatImageLink', () => {
+  it('escapes HTML and includes the recorded size', () => {
+    assert.equal(
+      formatImageLink(image, 'html'),
+      '<img src="https://img.example.com/blog/cat%20&amp;%20dog.png" alt="A &quot;cat&quot; &lt;3" width="1200" height="800" loading="lazy">'
+    );
+  });
+
+  it('formats BBCode and reStructuredText', () => {
+    assert.equal(formatImageLink(image, 'bbcode'), `[img]${image.url}[/img]`);
+    assert.equal(
+      formatImageLink(image, 'rst'),
+      `.. image:: ${image.url}\n   :alt: A "cat" <3\n   :width: 1200px\n   :height: 800px`
+    );
+  });
+
+  it('builds a <picture> from the variants and falls back to <img> without them', () => {
+    const picture = formatImageLink(image, 'picture');
+    assert.match(picture, /^<picture>\n {2}<source type="image\/webp" srcset=".+256w, .+768w">\n {2}<img /);
+    assert.equal(formatImageLink({ ...image, variants: undefined }, 'picture'), formatImageLink(image, 'html'));
+  });
+});
+
+describe('renderLinkTemplate', () => {
+  it('fills known placeholders and leaves unknown ones alone', () => {
+    assert.equal(
+      renderLinkTemplate(image, '<a href="{url}">{name} {width}x{height}</a> {unknown}'),
+      `<a href="${image.url}">cat & dog.png 1200x800</a> {unknown}`
+    );
+    assert.equal(renderLinkTemplate(image, '{thumbnail}'), image.variants?.[0].url);
+  });
+});
+
+describe('formatImageLinks', () => {
+  const second = { ...image, key: 'b.png', url: 'https://img.example.com/b.png', alt: 'B' };
+  const templates = [{ id: 'tpl-1', name: '链接列表', template: '- {url}' }];
+
+  it('joins several images into one block', () => {
+    assert.equal(formatImageLinks([image, second], 'url', []), `${image.url}\n${second.url}`);
+    assert.equal(formatImageLinks([image, second], 'rst', []).split('\n\n').length, 2);
+    assert.equal(formatImageLinks([image, second], 'template:tpl-1', templates), `- ${image.url}\n- ${second.url}`);
+  });
+
+  it('falls back to Markdown for unknown formats', () => {
+    assert.equal(formatImageLinks([second], 'template:gone', templates), `![B](${second.url})`);
+    assert.deepEqual(
+      getLinkFormatOptions(templates).map((option) => option.id).slice(-2),
+      ['picture', 'template:tpl-1']
+    );
+  });
+});
+
+describe('parseLinkTemplates', () => {
+  it('accepts valid templates and rejects the whole list on any invalid entry', () => {
+    assert.deepEqual(parseLinkTemplates({ templates: [{ name: ' Blog ', template: '{url}' }] }), [
+      { name: 'Blog', template: '{url}' },
+    ]);
+    assert.equal(parseLinkTemplates({ templates: [{ name: 'Blog', template: '   ' }] }), null);
+    assert.equal(parseLinkTemplates({ templates: [{ id: '../x', name: 'Blog', template: '{url}' }] }), null);
+    assert.equal(parseLinkTemplates({ templates: 'nope' }), null);
+  });
+});
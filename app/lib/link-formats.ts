@@ -0,0 +1,213 @@
+import { formatMarkdownImage, getImageAltText, type ImageMetadata } from './image-metadata';
+import { getVariantSrcSet, getVariantUrl, type ImageVariant } from './image-variants';
+
+export type BuiltInLinkFormat = 'url' | 'markdown' | 'html' | 'bbcode' | 'rst' | 'picture';
+
+/** A user-defined snippet such as `<a href="{url}">{alt}</a>`, see `LINK_TEMPLATE_PLACEHOLDERS`. */
+export interface LinkTemplate {
+  id: string;
+  name: string;
+  template: string;
+}
+
+/** A template as submitted by a client; new ones get their id from the server. */
+export type LinkTemplateInput = Omit<LinkTemplate, 'id'> & { id?: string };
+
+export interface LinkableImage extends ImageMetadata {
+  key: string;
+  url: string;
+  size: number;
+  mimeType: string;
+  variants?: ImageVariant[];
+}
+
+export interface LinkFormatOption {
+  /** A built-in format, or `template:<id>` for a user template. */
+  id: string;
+  label: string;
+}
+
+interface LinkTemplatesPayload {
+  templates?: unknown;
+}
+
+export const MAX_LINK_TEMPLATES = 20;
+export const MAX_LINK_TEMPLATE_NAME_LENGTH = 40;
+export const MAX_LINK_TEMPLATE_LENGTH = 1000;
+export const DEFAULT_LINK_FORMAT: BuiltInLinkFormat = 'markdown';
+
+export const BUILT_IN_LINK_FORMATS: Array<{ id: BuiltInLinkFormat; label: string }> = [
+  { id: 'url', label: '链接' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'bbcode', label: 'BBCode' },
+  { id: 'rst', label: 'reStructuredText' },
+  { id: 'picture', label: 'HTML <picture>' },
+];
+
+export const LINK_TEMPLATE_PLACEHOLDERS: Array<{ name: string; description: string }> = [
+  { name: 'url', description: '图片地址' },
+  { name: 'thumbnail', description: '缩略图地址（没有缩略图时为原图）' },
+  { name: 'alt', description: '替代文本（依次取 alt、标题、原始文件名）' },
+  { name: 'title', description: '标题' },
+  { name: 'name', description: '文件名' },
+  { name: 'key', description: '完整路径' },
+  { name: 'width', description: '宽度（像素）' },
+  { name: 'height', description: '高度（像素）' },
+  { name: 'size', description: '文件大小（字节）' },
+  { name: 'type', description: 'MIME 类型' },
+];
+
+const TEMPLATE_FORMAT_PREFIX = 'template:';
+const TEMPLATE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function getSizeAttributes(image: LinkableImage): string {
+  return image.width && image.height ? ` width="${image.width}" height="${image.height}"` : '';
+}
+
+function formatHtmlImage(image: LinkableImage): string {
+  const alt = escapeHtml(getImageAltText(image));
+  return `<img src="${escapeHtml(image.url)}" alt="${alt}"${getSizeAttributes(image)} loading="lazy">`;
+}
+
+/** The WebP variants as a `<source>`, the original as fallback; a plain `<img>` without variants. */
+function formatPictureImage(image: LinkableImage): string {
+  const srcSet = getVariantSrcSet(image);
+  if (!srcSet) {
+    return formatHtmlImage(image);
+  }
+
+  return [
+    '<picture>',
+    `  <source type="image/webp" srcset="${escapeHtml(srcSet)}">`,
+    `  ${formatHtmlImage(image)}`,
+    '</picture>',
+  ].join('\n');
+}
+
+function formatRstImage(image: LinkableImage): string {
+  return [
+    `.. image:: ${image.url}`,
+    `   :alt: ${getImageAltText(image)}`,
+    ...(image.width && image.height
+      ? [`   :width: ${image.width}px`, `   :height: ${image.height}px`]
+      : []),
+  ].join('\n');
+}
+
+export function formatImageLink(image: LinkableImage, format: BuiltInLinkFormat): string {
+  switch (format) {
+    case 'url':
+      return image.url;
+    case 'markdown':
+      return formatMarkdownImage(image);
+    case 'html':
+      return formatHtmlImage(image);
+    case 'bbcode':
+      return `[img]${image.url}[/img]`;
+    case 'rst':
+      return formatRstImage(image);
+    case 'picture':
+      return formatPictureImage(image);
+  }
+}
+
+/** Replaces `{name}` placeholders; unknown ones are left as typed. Values are inserted verbatim. */
+export function renderLinkTemplate(image: LinkableImage, template: string): string {
+  const values: Record<string, string> = {
+    url: image.url,
+    thumbnail: getVariantUrl(image, 256),
+    alt: getImageAltText(image),
+    title: image.title ?? '',
+    name: image.key.split('/').pop() || image.key,
+    key: image.key,
+    width: image.width ? String(image.width) : '',
+    height: image.height ? String(image.height) : '',
+    size: String(image.size),
+    type: image.mimeType,
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : match
+  );
+}
+
+export function getLinkFormatOptions(templates: LinkTemplate[]): LinkFormatOption[] {
+  return [
+    ...BUILT_IN_LINK_FORMATS,
+    ...templates.map((template) => ({ id: `${TEMPLATE_FORMAT_PREFIX}${template.id}`, label: template.name })),
+  ];
+}
+
+/**
+ * Formats one or more images as a single block. Multi-line formats are
+ * separated by a blank line, everything else by a line break. An unknown
+ * format (e.g. a deleted template) falls back to Markdown.
+ */
+export function formatImageLinks(
+  images: LinkableImage[],
+  formatId: string,
+  templates: LinkTemplate[]
+): string {
+  const template = formatId.startsWith(TEMPLATE_FORMAT_PREFIX)
+    ? templates.find((candidate) => candidate.id === formatId.slice(TEMPLATE_FORMAT_PREFIX.length))
+    : undefined;
+
+  if (template) {
+    return images.map((image) => renderLinkTemplate(image, template.template)).join('\n');
+  }
+
+  const format =
+    BUILT_IN_LINK_FORMATS.find((candidate) => candidate.id === formatId)?.id ?? DEFAULT_LINK_FORMAT;
+  const separator = format === 'rst' || format === 'picture' ? '\n\n' : '\n';
+  return images.map((image) => formatImageLink(image, format)).join(separator);
+}
+
+/** Validates the full template list a user saves; returns null if any entry is invalid. */
+export function parseLinkTemplates(
+  payload: LinkTemplatesPayload | null | undefined
+): LinkTemplateInput[] | null {
+  if (!payload || typeof payload !== 'object' || !Array.isArray(payload.templates)) {
+    return null;
+  }
+
+  if (payload.templates.length > MAX_LINK_TEMPLATES) {
+    return null;
+  }
+
+  const templates: LinkTemplateInput[] = [];
+
+  for (const entry of payload.templates as unknown[]) {
+    if (!entry || typeof entry !== 'object') {
+      return null;
+    }
+
+    const { id, name, template } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof template !== 'string') {
+      return null;
+    }
+
+    const trimmedName = name.replace(/[\u0000-\u001f\u007f]+/g, ' ').trim();
+    if (
+      !trimmedName ||
+      trimmedName.length > MAX_LINK_TEMPLATE_NAME_LENGTH ||
+      !template.trim() ||
+      template.length > MAX_LINK_TEMPLATE_LENGTH ||
+      (id !== undefined && (typeof id !== 'string' || !TEMPLATE_ID_PATTERN.test(id)))
+    ) {
+      return null;
+    }
+
+    templates.push({ ...(typeof id === 'string' ? { id } : {}), name: trimmedName, template });
+  }
+
+  return templates;
+}
@@ -0,0 +1,31 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  deleteLinkTemplatesForUser,
+  listLinkTemplates,
+  saveLinkTemplates,
+} from './link-template-store.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('link-templates');
+
+describe('link template store', () => {
+  it('keeps templates per user and preserves the ids a user already owns', async () => {
+    const [saved] = await saveLinkTemplates('alice', [{ name: 'Blog', template: '{url}' }]);
+    await saveLinkTemplates('bob', [{ id: saved.id, name: 'Stolen', template: '{key}' }]);
+
+    const bobTemplates = await listLinkTemplates('bob');
+    assert.notEqual(bobTemplates[0].id, saved.id);
+
+    const updated = await saveLinkTemplates('alice', [
+      { name: 'New', template: '{alt}' },
+      { id: saved.id, name: 'Blog', template: '<img src="{url}">' },
+    ]);
+    assert.equal(updated[1].id, saved.id);
+    assert.deepEqual(await listLinkTemplates('alice'), updated);
+
+    await deleteLinkTemplatesForUser('alice');
+    assert.deepEqual(await listLinkTemplates('alice'), []);
+    assert.deepEqual(await listLinkTemplates('bob'), bobTemplates);
+  });
+});
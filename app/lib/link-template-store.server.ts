@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+import type { LinkTemplate, LinkTemplateInput } from './link-formats';
+
+const LINK_TEMPLATES_FILE = 'link-templates.json';
+
+interface StoredLinkTemplate extends LinkTemplate {
+  owner: string;
+}
+
+interface LinkTemplateStoreData {
+  templates: StoredLinkTemplate[];
+}
+
+const EMPTY_STORE: LinkTemplateStoreData = { templates: [] };
+
+function getLinkTemplatesFilePath(): string {
+  return getDataFilePath(LINK_TEMPLATES_FILE);
+}
+
+function toLinkTemplate({ owner: _owner, ...template }: StoredLinkTemplate): LinkTemplate {
+  return template;
+}
+
+export async function listLinkTemplates(owner: string): Promise<LinkTemplate[]> {
+  const { templates } = await readJsonFile(getLinkTemplatesFilePath(), EMPTY_STORE);
+  return templates.filter((template) => template.owner === owner).map(toLinkTemplate);
+}
+
+/**
+ * Replaces the user's templates with `inputs`, in that order. Entries whose id
+ * the user already owns keep it, so copy formats chosen in the gallery stay
+ * selected; everything else gets a new id.
+ */
+export async function saveLinkTemplates(owner: string, inputs: LinkTemplateInput[]): Promise<LinkTemplate[]> {
+  return updateJsonFile(getLinkTemplatesFilePath(), EMPTY_STORE, ({ templates }) => {
+    const ownedIds = new Set(
+      templates.filter((template) => template.owner === owner).map((template) => template.id)
+    );
+    const usedIds = new Set<string>();
+    const saved = inputs.map((input) => {
+      const id = input.id && ownedIds.has(input.id) && !usedIds.has(input.id) ? input.id : randomUUID();
+      usedIds.add(id);
+      return { id, owner, name: input.name, template: input.template };
+    });
+
+    return {
+      data: { templates: [...templates.filter((template) => template.owner !== owner), ...saved] },
+      result: saved.map(toLinkTemplate),
+    };
+  });
+}
+
+export async function deleteLinkTemplatesForUser(owner: string) {
+  await updateJsonFile(getLinkTemplatesFilePath(), EMPTY_STORE, ({ templates }) => ({
+    data: { templates: templates.filter((template) => template.owner !== owner) },
+    result: undefined,
+  }));
+}
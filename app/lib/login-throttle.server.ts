@@ -0,0 +1,39 @@
+import {
+  DEFAULT_LOGIN_THROTTLE_OPTIONS,
+  createLoginThrottle,
+  type LoginThrottle,
+  type LoginThrottleStatus,
+} from './login-throttle';
+
+let loginThrottleSingleton: LoginThrottle | null = null;
+
+/** Process-wide throttle; each serverless instance keeps its own counters. */
+export function getLoginThrottle(): LoginThrottle {
+  if (!loginThrottleSingleton) {
+    loginThrottleSingleton = createLoginThrottle(DEFAULT_LOGIN_THROTTLE_OPTIONS);
+  }
+
+  return loginThrottleSingleton;
+}
+
+/** Password failures are also counted per username, so spreading guesses over many addresses does not help. */
+export function getLoginAccountKey(username: string): string {
+  return `login:${username}`;
+}
+
+export function tooManyLoginAttempts(status: Extract<LoginThrottleStatus, { allowed: false }>) {
+  return Response.json(
+    {
+      error: status.locked ? 'Too many failed attempts, account temporarily locked' : 'Too many login attempts',
+      retryAfter: status.retryAfterSeconds,
+      locked: status.locked,
+    },
+    {
+      status: 429,
+      headers: {
+        'Cache-Control': 'no-store',
+        'Retry-After': status.retryAfterSeconds.toString(),
+      },
+    }
+  );
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { createLoginThrottle, type LoginThrottleOptions } from './login-throttle';
+
+function createTestThrottle(overrides: Partial<LoginThrottleOptions> = {}) {
+  let now = 0;
+  const throttle = createLoginThrottle({
+    freeAttempts: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 4000,
+    lockoutThreshold: 6,
+    lockoutMs: 60_000,
+    windowMs: 60_000,
+    globalLimit: 100,
+    globalWindowMs: 10_000,
+    now: () => now,
+    ...overrides,
+  });
+
+  return {
+    throttle,
+    advance(ms: number) {
+      now += ms;
+    },
+  };
+}
+
+describe('createLoginThrottle', () => {
+  it('backs off exponentially after the free attempts', () => {
+    const { throttle, advance } = createTestThrottle();
+
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), { allowed: true });
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), { allowed: true });
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), {
+      allowed: false,
+      retryAfterSeconds: 1,
+      locked: false,
+    });
+
+    advance(1000);
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), {
+      allowed: false,
+      retryAfterSeconds: 2,
+      locked: false,
+    });
+    assert.equal(throttle.check('2.2.2.2').allowed, true);
+
+    advance(2000);
+    assert.equal(throttle.check('1.1.1.1').allowed, true);
+    throttle.recordSuccess('1.1.1.1');
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), { allowed: true });
+  });
+
+  it('locks a client out after too many failures', () => {
+    const { throttle, advance } = createTestThrottle();
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      throttle.recordFailure('1.1.1.1');
+      advance(5000);
+    }
+
+    assert.deepEqual(throttle.recordFailure('1.1.1.1'), {
+      allowed: false,
+      retryAfterSeconds: 60,
+      locked: true,
+    });
+
+    advance(59_000);
+    assert.equal(throttle.check('1.1.1.1').allowed, false);
+    advance(1000);
+    assert.equal(throttle.check('1.1.1.1').allowed, true);
+  });
+
+  it('pauses every client when global failures spike', () => {
+    const { throttle, advance } = createTestThrottle({ globalLimit: 3 });
+
+    throttle.recordFailure('1.1.1.1');
+    throttle.recordFailure('2.2.2.2');
+    advance(4000);
+    throttle.recordFailure('3.3.3.3');
+
+    assert.deepEqual(throttle.check('1.1.1.1'), {
+      allowed: false,
+      retryAfterSeconds: 6,
+      locked: false,
+    });
+    assert.equal(throttle.check('4.4.4.4').allowed, false);
+
+    advance(6000);
+    assert.equal(throttle.check('1.1.1.1').allowed, true);
+    assert.equal(throttle.check('4.4.4.4').allowed, true);
+  });
+});
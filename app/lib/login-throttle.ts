@@ -0,0 +1,142 @@
+export interface LoginThrottleOptions {
+  /** Failures per client allowed before backoff kicks in. */
+  freeAttempts: number;
+  /** First backoff delay; doubles with every further failure. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Failures per client within `windowMs` that trigger a full lockout. */
+  lockoutThreshold: number;
+  lockoutMs: number;
+  windowMs: number;
+  /**
+   * Failures across all clients within `globalWindowMs` before every login
+   * attempt is paused, so rotating addresses does not buy more guesses.
+   */
+  globalLimit: number;
+  globalWindowMs: number;
+  now?: () => number;
+}
+
+export type LoginThrottleStatus =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; locked: boolean };
+
+export interface LoginThrottle {
+  check(clientId: string): LoginThrottleStatus;
+  recordFailure(clientId: string): LoginThrottleStatus;
+  recordSuccess(clientId: string): void;
+}
+
+interface ClientRecord {
+  failures: number;
+  firstFailureAt: number;
+  blockedUntil: number;
+  locked: boolean;
+}
+
+export const DEFAULT_LOGIN_THROTTLE_OPTIONS: LoginThrottleOptions = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  lockoutThreshold: 10,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+  globalLimit: 100,
+  globalWindowMs: 60 * 1000,
+};
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+function toRetryAfterSeconds(milliseconds: number): number {
+  return Math.max(1, Math.ceil(milliseconds / 1000));
+}
+
+/**
+ * Tracks failed logins in memory, per client and globally. Each failure past
+ * `freeAttempts` doubles the wait before the next attempt; reaching
+ * `lockoutThreshold` locks the client out for `lockoutMs`. A global spike
+ * pauses every client, including ones that have not failed yet, until the
+ * window has passed.
+ */
+export function createLoginThrottle(options: LoginThrottleOptions): LoginThrottle {
+  const now = options.now ?? Date.now;
+  const clients = new Map<string, ClientRecord>();
+  let globalFailures: number[] = [];
+
+  const pruneGlobal = (timestamp: number) => {
+    globalFailures = globalFailures.filter((time) => timestamp - time < options.globalWindowMs);
+  };
+
+  const getClient = (clientId: string, timestamp: number): ClientRecord | null => {
+    const record = clients.get(clientId);
+
+    if (record && timestamp >= record.blockedUntil && timestamp - record.firstFailureAt >= options.windowMs) {
+      clients.delete(clientId);
+      return null;
+    }
+
+    return record ?? null;
+  };
+
+  const check = (clientId: string): LoginThrottleStatus => {
+    const timestamp = now();
+    const record = getClient(clientId, timestamp);
+
+    if (record && timestamp < record.blockedUntil) {
+      return {
+        allowed: false,
+        retryAfterSeconds: toRetryAfterSeconds(record.blockedUntil - timestamp),
+        locked: record.locked,
+      };
+    }
+
+    pruneGlobal(timestamp);
+    if (globalFailures.length >= options.globalLimit) {
+      return {
+        allowed: false,
+        retryAfterSeconds: toRetryAfterSeconds(globalFailures[0] + options.globalWindowMs - timestamp),
+        locked: false,
+      };
+    }
+
+    return { allowed: true };
+  };
+
+  const recordFailure = (clientId: string): LoginThrottleStatus => {
+    const timestamp = now();
+    const record = getClient(clientId, timestamp) ?? {
+      failures: 0,
+      firstFailureAt: timestamp,
+      blockedUntil: 0,
+      locked: false,
+    };
+
+    record.failures += 1;
+
+    if (record.failures >= options.lockoutThreshold) {
+      record.locked = true;
+      record.blockedUntil = timestamp + options.lockoutMs;
+    } else if (record.failures > options.freeAttempts) {
+      const exponent = record.failures - options.freeAttempts - 1;
+      record.blockedUntil = timestamp + Math.min(options.baseDelayMs * 2 ** exponent, options.maxDelayMs);
+    }
+
+    clients.set(clientId, record);
+    if (clients.size > MAX_TRACKED_CLIENTS) {
+      [...clients.keys()].forEach((id) => getClient(id, timestamp));
+    }
+
+    pruneGlobal(timestamp);
+    globalFailures.push(timestamp);
+
+    return check(clientId);
+  };
+
+  return {
+    check,
+    recordFailure,
+    recordSuccess(clientId) {
+      clients.delete(clientId);
+    },
+  };
+}
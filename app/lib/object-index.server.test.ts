@@ -0,0 +1,85 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  getObjectIndexStats,
+  indexObjects,
+  listIndexedObjects,
+  moveIndexedObjects,
+  reconcileObjectIndex,
+  unindexObjects,
+} from './object-index.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('index', { memoryStorage: true });
+
+async function putExternally(key: string, size: number) {
+  await getStorageBackend().putObject({ key, body: Buffer.alloc(size), contentType: 'image/png' });
+}
+
+describe('object index', () => {
+  it('picks up objects written behind its back on reconcile', async () => {
+    await putExternally('index/a.png', 3);
+    await putExternally('index/nested/b.png', 5);
+    await putExternally('.uploads/staged.png', 7);
+
+    await reconcileObjectIndex();
+    assert.deepEqual(await getObjectIndexStats('index/'), {
+      syncedAt: (await getObjectIndexStats()).syncedAt,
+      objectCount: 2,
+      totalSize: 8,
+    });
+
+    await getStorageBackend().deleteObject('index/a.png');
+    const result = await reconcileObjectIndex();
+    assert.equal(result.removed, 1);
+    assert.equal((await getObjectIndexStats('index/')).objectCount, 1);
+    assert.equal((await getObjectIndexStats('.uploads/')).objectCount, 0);
+
+    await getStorageBackend().deleteObject('index/nested/b.png');
+    await reconcileObjectIndex();
+  });
+
+  it('lists folders and pages with key cursors like ListObjects', async () => {
+    const now = new Date();
+    await indexObjects(
+      ['list/a.png', 'list/b/one.png', 'list/b/two.png', 'list/c.png'].map((key) => ({
+        key,
+        size: 1,
+        lastModified: now,
+        contentType: 'image/png',
+      }))
+    );
+
+    const first = await listIndexedObjects({ prefix: 'list/', maxKeys: 2, delimiter: '/' });
+    assert.deepEqual(
+      first.objects.map((object) => object.key),
+      ['list/a.png']
+    );
+    assert.deepEqual(first.prefixes, ['list/b/']);
+    assert.equal(first.hasMore, true);
+
+    const second = await listIndexedObjects({
+      prefix: 'list/',
+      maxKeys: 2,
+      delimiter: '/',
+      cursor: first.nextCursor,
+    });
+    assert.deepEqual(
+      second.objects.map((object) => object.key),
+      ['list/c.png']
+    );
+    assert.deepEqual(second.prefixes, []);
+    assert.equal(second.hasMore, false);
+
+    await moveIndexedObjects([{ from: 'list/c.png', to: 'list/b/three.png' }]);
+    const nested = await listIndexedObjects({ prefix: 'list/b/', maxKeys: 10 });
+    assert.deepEqual(
+      nested.objects.map((object) => object.key),
+      ['list/b/one.png', 'list/b/three.png', 'list/b/two.png']
+    );
+
+    await unindexObjects(['list/a.png', 'list/b/one.png', 'list/b/two.png', 'list/b/three.png']);
+    assert.equal((await getObjectIndexStats('list/')).objectCount, 0);
+  });
+});
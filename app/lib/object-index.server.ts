@@ -0,0 +1,298 @@
+import {
+  TRANSFORMS_PREFIX,
+  UPLOAD_STAGING_PREFIX,
+  VARIANTS_PREFIX,
+  isHiddenKey,
+  type ImageMove,
+} from './images-api';
+import { getDataFilePath, readJsonFile, toKeyedRecord, updateJsonFile } from './json-store.server';
+import type { ListObjectsInput, ListObjectsResult, StoredObject } from './storage';
+import { getStorageBackend } from './storage.server';
+
+const OBJECT_INDEX_FILE = 'object-index.json';
+const DEFAULT_RECONCILE_INTERVAL_MINUTES = 60;
+const UNINDEXED_PREFIXES = [UPLOAD_STAGING_PREFIX, VARIANTS_PREFIX, TRANSFORMS_PREFIX];
+
+interface IndexedObject {
+  size: number;
+  lastModified: string;
+  contentType: string | null;
+}
+
+interface ObjectIndexData {
+  syncedAt: string | null;
+  objects: Record<string, IndexedObject>;
+}
+
+export interface ReconcileResult {
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+export interface ObjectIndexStats {
+  syncedAt: string | null;
+  objectCount: number;
+  totalSize: number;
+}
+
+const EMPTY_INDEX: ObjectIndexData = { syncedAt: null, objects: {} };
+
+let reconciling: Promise<ReconcileResult> | null = null;
+/** Keys written while a reconcile scans the bucket; the scan's view of them may already be stale. */
+let touchedDuringReconcile: Set<string> | null = null;
+
+function getObjectIndexFilePath(): string {
+  return getDataFilePath(OBJECT_INDEX_FILE);
+}
+
+/** How often listing triggers a background re-sync; `0` leaves it to explicit reconciles. */
+function getReconcileIntervalMs(): number {
+  const minutes = Number.parseInt(process.env.OBJECT_INDEX_RECONCILE_MINUTES || '', 10);
+  return (Number.isNaN(minutes) || minutes < 0 ? DEFAULT_RECONCILE_INTERVAL_MINUTES : minutes) * 60 * 1000;
+}
+
+function toIndexedObject(object: Pick<StoredObject, 'size' | 'lastModified' | 'contentType'>): IndexedObject {
+  return {
+    size: object.size,
+    lastModified: new Date(object.lastModified).toISOString(),
+    contentType: object.contentType,
+  };
+}
+
+function toStoredObject(key: string, object: IndexedObject): StoredObject {
+  return {
+    key,
+    size: object.size,
+    lastModified: new Date(object.lastModified),
+    contentType: object.contentType,
+    metadata: {},
+  };
+}
+
+function compareKeys(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function updateIndex<R>(update: (objects: Record<string, IndexedObject>) => R): Promise<R> {
+  return updateJsonFile(getObjectIndexFilePath(), EMPTY_INDEX, ({ syncedAt, objects }) => {
+    const nextObjects = toKeyedRecord(objects);
+    const result = update(nextObjects);
+    return { data: { syncedAt, objects: nextObjects }, result };
+  });
+}
+
+function markTouched(keys: string[]) {
+  keys.forEach((key) => touchedDuringReconcile?.add(key));
+}
+
+async function scanBucket(): Promise<Map<string, IndexedObject>> {
+  const objects = new Map<string, IndexedObject>();
+  let cursor: string | null = null;
+
+  do {
+    const result = await getStorageBackend().listObjects({ maxKeys: 1000, cursor });
+    result.objects
+      // Staged uploads and generated copies are never listed, so they stay out of the index.
+      .filter((object) => !UNINDEXED_PREFIXES.some((prefix) => object.key.startsWith(prefix)))
+      .forEach((object) => objects.set(object.key, toIndexedObject(object)));
+    cursor = result.hasMore ? result.nextCursor : null;
+  } while (cursor);
+
+  return objects;
+}
+
+async function runReconcile(): Promise<ReconcileResult> {
+  touchedDuringReconcile = new Set();
+
+  try {
+    const scanned = await scanBucket();
+
+    return await updateJsonFile(getObjectIndexFilePath(), EMPTY_INDEX, ({ objects }) => {
+      const touched = touchedDuringReconcile ?? new Set<string>();
+      const nextObjects = toKeyedRecord<IndexedObject>({});
+      const result: ReconcileResult = { added: 0, updated: 0, removed: 0, total: 0 };
+
+      for (const [key, object] of scanned) {
+        const current = Object.hasOwn(objects, key) ? objects[key] : undefined;
+        if (touched.has(key)) {
+          continue;
+        }
+
+        nextObjects[key] = object;
+        if (!current) {
+          result.added += 1;
+        } else if (current.size !== object.size || current.lastModified !== object.lastModified) {
+          result.updated += 1;
+        }
+      }
+
+      for (const key of Object.keys(objects)) {
+        if (touched.has(key)) {
+          nextObjects[key] = objects[key];
+        } else if (!scanned.has(key)) {
+          result.removed += 1;
+        }
+      }
+
+      // Keys deleted during the scan were dropped from `objects` and stay dropped.
+      result.total = Object.keys(nextObjects).length;
+      return {
+        data: { syncedAt: new Date().toISOString(), objects: nextObjects },
+        result,
+      };
+    });
+  } finally {
+    touchedDuringReconcile = null;
+  }
+}
+
+/**
+ * Re-syncs the index with a full bucket listing, picking up objects written
+ * or removed behind the app's back. Concurrent callers share one scan.
+ */
+export function reconcileObjectIndex(): Promise<ReconcileResult> {
+  if (!reconciling) {
+    reconciling = runReconcile().finally(() => {
+      reconciling = null;
+    });
+  }
+
+  return reconciling;
+}
+
+/** Builds the index on first use and refreshes it in the background once it is older than the interval. */
+async function readIndex(): Promise<ObjectIndexData> {
+  const index = await readJsonFile(getObjectIndexFilePath(), EMPTY_INDEX);
+  if (!index.syncedAt) {
+    await reconcileObjectIndex();
+    return readJsonFile(getObjectIndexFilePath(), EMPTY_INDEX);
+  }
+
+  const interval = getReconcileIntervalMs();
+  if (interval > 0 && Date.now() - Date.parse(index.syncedAt) > interval) {
+    void reconcileObjectIndex().catch((error) => {
+      console.error('Object index reconcile failed:', error);
+    });
+  }
+
+  return index;
+}
+
+/** Every indexed object under `prefix`, sorted by key. */
+export async function getIndexedObjects(prefix = ''): Promise<StoredObject[]> {
+  const { objects } = await readIndex();
+
+  return Object.keys(objects)
+    .filter((key) => key.startsWith(prefix))
+    .sort(compareKeys)
+    .map((key) => toStoredObject(key, objects[key]));
+}
+
+/**
+ * `listObjects` served from the index, with the same prefix, delimiter and
+ * page semantics. The cursor is the last key or folder of the previous page.
+ */
+export async function listIndexedObjects({
+  prefix = '',
+  maxKeys,
+  cursor,
+  delimiter,
+}: ListObjectsInput): Promise<ListObjectsResult> {
+  const objects: StoredObject[] = [];
+  const prefixes: string[] = [];
+  let lastEntry: string | null = null;
+  let hasMore = false;
+
+  for (const object of await getIndexedObjects(prefix)) {
+    const separator = delimiter ? object.key.indexOf(delimiter, prefix.length) : -1;
+    const entry = separator === -1 ? object.key : object.key.slice(0, separator + (delimiter?.length ?? 0));
+
+    if ((cursor && entry <= cursor) || entry === lastEntry) {
+      continue;
+    }
+
+    if (objects.length + prefixes.length >= maxKeys) {
+      hasMore = true;
+      break;
+    }
+
+    if (separator === -1) {
+      objects.push(object);
+    } else {
+      prefixes.push(entry);
+    }
+    lastEntry = entry;
+  }
+
+  return {
+    objects,
+    prefixes,
+    nextCursor: hasMore ? lastEntry : null,
+    hasMore,
+  };
+}
+
+export async function getObjectIndexStats(prefix = ''): Promise<ObjectIndexStats> {
+  const { syncedAt, objects } = await readIndex();
+  const keys = Object.keys(objects).filter((key) => key.startsWith(prefix) && !isHiddenKey(key));
+
+  return {
+    syncedAt,
+    objectCount: keys.length,
+    totalSize: keys.reduce((total, key) => total + objects[key].size, 0),
+  };
+}
+
+/** Records objects the app has just written. */
+export async function indexObjects(
+  objects: Array<Pick<StoredObject, 'key' | 'size' | 'lastModified' | 'contentType'>>
+) {
+  if (objects.length === 0) {
+    return;
+  }
+
+  markTouched(objects.map((object) => object.key));
+  await updateIndex((indexed) => {
+    objects.forEach((object) => {
+      indexed[object.key] = toIndexedObject(object);
+    });
+  });
+}
+
+export async function moveIndexedObjects(moves: ImageMove[]) {
+  if (moves.length === 0) {
+    return;
+  }
+
+  markTouched(moves.flatMap((move) => [move.from, move.to]));
+  await updateIndex((indexed) => {
+    const moved = moves.flatMap((move) => {
+      if (!Object.hasOwn(indexed, move.from)) {
+        return [];
+      }
+
+      const entry = indexed[move.from];
+      delete indexed[move.from];
+      return [[move.to, entry] as const];
+    });
+
+    moved.forEach(([key, entry]) => {
+      indexed[key] = entry;
+    });
+  });
+}
+
+export async function unindexObjects(keys: string[]) {
+  if (keys.length === 0) {
+    return;
+  }
+
+  markTouched(keys);
+  await updateIndex((indexed) => {
+    keys.forEach((key) => {
+      delete indexed[key];
+    });
+  });
+}
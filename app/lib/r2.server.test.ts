@@ -0,0 +1,220 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { getImageMetadata, updateImageMetadata } from './image-metadata.server';
+import {
+  createFolder,
+  deleteFolder,
+  deleteImages,
+  folderExists,
+  listFolders,
+  listImages,
+  moveFolder,
+  moveImages,
+  searchImages,
+  uploadImage,
+} from './r2.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+useTemporaryDataDir('r2', { memoryStorage: true });
+
+function createPng(name: string, content: string): File {
+  return new File([content], name, { type: 'image/png' });
+}
+
+describe('uploadImage', () => {
+  it('keeps distinct keys for repeated uploads by default', async () => {
+    const first = await uploadImage(createPng('shot.png', 'same-bytes'));
+    const second = await uploadImage(createPng('shot.png', 'same-bytes'), { useHashName: true });
+
+    assert.notEqual(first.image.key, second.image.key);
+    assert.equal(first.deduplicated, false);
+    assert.equal(second.deduplicated, false);
+
+    await deleteImages([first.image.key, second.image.key]);
+  });
+
+  it('reuses the existing object for identical content in content-hash mode', async () => {
+    const first = await uploadImage(createPng('a.png', 'dedup-bytes'), { useContentHash: true });
+    const second = await uploadImage(createPng('b.png', 'dedup-bytes'), { useContentHash: true });
+
+    assert.match(first.image.key, /^[0-9a-f]{64}\.png$/);
+    assert.equal(first.deduplicated, false);
+    assert.equal(second.deduplicated, true);
+    assert.equal(second.image.key, first.image.key);
+
+    const listed = await listImages('', 100);
+    assert.equal(listed.images.filter((image) => image.key === first.image.key).length, 1);
+
+    await deleteImages([first.image.key]);
+  });
+});
+
+describe('folders', () => {
+  it('uploads into folders and lists them with a delimiter', async () => {
+    const uploaded = await uploadImage(createPng('cover.png', 'cover'), { folder: 'albums/trip/' });
+    await createFolder('albums/empty/');
+
+    assert.match(uploaded.image.key, /^albums\/trip\/\d+_cover\.png$/);
+    assert.deepEqual(await listFolders('albums/'), ['albums/empty/', 'albums/trip/']);
+
+    const root = await listImages('albums/', 100, null, '/');
+    assert.deepEqual(root.images, []);
+    assert.deepEqual(root.folders, ['albums/empty/', 'albums/trip/']);
+
+    const empty = await listImages('albums/empty/', 100, null, '/');
+    assert.deepEqual(empty.images, []);
+
+    await deleteFolder('albums/');
+    assert.equal(await folderExists('albums/'), false);
+  });
+
+  it('moves every object under a folder', async () => {
+    const uploaded = await uploadImage(createPng('a.png', 'move-me'), { folder: 'old/nested/' });
+    const result = await moveFolder('old/', 'new/');
+
+    assert.equal(result.failed.length, 0);
+    assert.deepEqual(result.moved, [
+      { from: uploaded.image.key, to: uploaded.image.key.replace(/^old\//, 'new/') },
+    ]);
+    assert.equal(await folderExists('old/'), false);
+    assert.equal(await folderExists('new/nested/'), true);
+
+    await assert.rejects(() => moveFolder('new/', 'new/inner/'), /into itself/);
+    await deleteFolder('new/');
+  });
+
+  it('leaves objects that already exist at the destination untouched', async () => {
+    const uploaded = await uploadImage(createPng('a.png', 'source'), { folder: 'from/' });
+    const destination = uploaded.image.key.replace(/^from\//, 'to/');
+    await getStorageBackend().putObject({ key: destination, body: Buffer.from('existing'), contentType: 'image/png' });
+
+    const result = await moveFolder('from/', 'to/');
+
+    assert.deepEqual(result.moved, []);
+    assert.deepEqual(result.conflicts, [{ from: uploaded.image.key, to: destination }]);
+    const existing = await getStorageBackend().getObject(destination);
+    assert.equal(existing?.body.toString(), 'existing');
+    assert.notEqual(await getStorageBackend().headObject(uploaded.image.key), null);
+
+    await deleteFolder('from/');
+    await deleteFolder('to/');
+  });
+});
+
+describe('moveImages', () => {
+  it('renames images and reports conflicts without overwriting', async () => {
+    const first = await uploadImage(createPng('first.png', 'first'));
+    const second = await uploadImage(createPng('second.png', 'second'));
+
+    const result = await moveImages([
+      { from: first.image.key, to: 'renamed/first.png' },
+      { from: second.image.key, to: 'renamed/first.png' },
+      { from: 'missing.png', to: 'other.png' },
+    ]);
+
+    assert.deepEqual(result.moved, [{ from: first.image.key, to: 'renamed/first.png' }]);
+    assert.deepEqual(result.conflicts, [{ from: second.image.key, to: 'renamed/first.png' }]);
+    assert.deepEqual(result.failed, [{ key: 'missing.png', error: 'Image not found' }]);
+
+    const listed = await listImages('', 100);
+    const keys = listed.images.map((image) => image.key);
+    assert.equal(keys.includes(first.image.key), false);
+    assert.equal(keys.includes(second.image.key), true);
+
+    await deleteImages(['renamed/first.png', second.image.key]);
+  });
+});
+
+describe('image metadata', () => {
+  it('records the original name and uploader and follows renames and deletes', async () => {
+    const uploaded = await uploadImage(createPng('Holiday Photo.png', 'metadata'), {
+      useHashName: true,
+      uploadedBy: 'alice',
+    });
+    assert.equal(uploaded.image.originalName, 'Holiday Photo.png');
+    assert.equal(uploaded.image.uploadedBy, 'alice');
+
+    await updateImageMetadata(uploaded.image.key, { title: 'Beach', tags: ['travel'] });
+    await moveImages([{ from: uploaded.image.key, to: 'trips/beach.png' }]);
+
+    const listed = await listImages('trips/', 100);
+    assert.deepEqual(
+      listed.images.map(({ key, title, tags, originalName, uploadedBy }) => ({
+        key,
+        title,
+        tags,
+        originalName,
+        uploadedBy,
+      })),
+      [
+        {
+          key: 'trips/beach.png',
+          title: 'Beach',
+          tags: ['travel'],
+          originalName: 'Holiday Photo.png',
+          uploadedBy: 'alice',
+        },
+      ]
+    );
+
+    await deleteImages(['trips/beach.png']);
+    assert.equal((await getImageMetadata(['trips/beach.png'])).size, 0);
+  });
+});
+
+describe('searchImages', () => {
+  it('searches subfolders by metadata and pages by key', async () => {
+    const first = await uploadImage(createPng('a.png', 'search-a'), { folder: 'search/2024/' });
+    const second = await uploadImage(createPng('b.png', 'search-b'), { folder: 'search/' });
+    const other = await uploadImage(createPng('c.png', 'search-c'), { folder: 'search/' });
+    await updateImageMetadata(first.image.key, { tags: ['harbor'] });
+    await updateImageMetadata(second.image.key, { title: 'Harbor at night' });
+
+    const page = await searchImages('search/', { q: 'harbor' }, 1);
+    assert.equal(page.images.length, 1);
+    assert.equal(page.hasMore, true);
+    assert.deepEqual(page.folders, []);
+
+    const rest = await searchImages('search/', { q: 'harbor' }, 1, page.nextCursor);
+    assert.deepEqual(
+      [...page.images, ...rest.images].map((image) => image.key).sort(),
+      [first.image.key, second.image.key].sort()
+    );
+    assert.equal(rest.hasMore, false);
+
+    const tagged = await searchImages('search/', { tags: ['harbor'], type: 'image/png' });
+    assert.deepEqual(
+      tagged.images.map((image) => image.key),
+      [first.image.key]
+    );
+
+    await deleteImages([first.image.key, second.image.key, other.image.key]);
+  });
+});
+
+describe('sorted listing', () => {
+  it('orders the images in a folder by size and lists its folders on the first page', async () => {
+    const small = await uploadImage(createPng('small.png', 'x'), { folder: 'sorted/' });
+    const large = await uploadImage(createPng('large.png', 'xxxxxxxx'), { folder: 'sorted/' });
+    const nested = await uploadImage(createPng('nested.png', 'xxxx'), { folder: 'sorted/inner/' });
+    const sort = { field: 'size', order: 'desc' } as const;
+
+    const first = await listImages('sorted/', 1, null, '/', sort);
+    assert.deepEqual(
+      first.images.map((image) => image.key),
+      [large.image.key]
+    );
+    assert.deepEqual(first.folders, ['sorted/inner/']);
+
+    const second = await listImages('sorted/', 1, first.nextCursor, '/', sort);
+    assert.deepEqual(
+      second.images.map((image) => image.key),
+      [small.image.key]
+    );
+    assert.deepEqual(second.folders, []);
+    assert.equal(second.hasMore, false);
+
+    await deleteImages([small.image.key, large.image.key, nested.image.key]);
+  });
+});
@@ -1,90 +1,103 @@
-import {
-  DeleteObjectCommand,
-  ListObjectsV2Command,
-  PutObjectCommand,
-  S3Client,
-} from '@aws-sdk/client-s3';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import mimeTypes from 'mime-types';
 
+import { analyzeImage } from './image-analysis.server';
+import type { ImageMetadata } from './image-metadata';
+import {
+  getImageMetadata,
+  getImageVariantWidths,
+  moveImageMetadata,
+  recordImageUpload,
+} from './image-metadata.server';
+import type { ImageProcessingOptions } from './image-processing';
+import { clearTransformCache } from './image-transform.server';
+import type { ImageVariant } from './image-variants';
+import { createImageVariants, moveImageVariants, toImageVariants } from './image-variants.server';
+import { getKeyForVisibility, type ImageVisibility } from './image-visibility';
+import { withSignedUrls } from './image-visibility.server';
+import {
+  getIndexedObjects,
+  indexObjects,
+  listIndexedObjects,
+  moveIndexedObjects,
+} from './object-index.server';
+import {
+  FOLDER_DELIMITER,
+  FOLDER_PLACEHOLDER,
+  isHiddenKey,
+  matchesImageFilters,
+  paginateImages,
+  type ImageFilters,
+  type ImageMove,
+  type ImageSort,
+} from './images-api';
+import { processImage } from './image-processing.server';
+import { getStorageBackend } from './storage.server';
+import { destroyImages, getTrashRetentionDays, moveToTrash } from './trash.server';
+
 export interface UploadOptions {
   useHashName?: boolean;
+  useContentHash?: boolean;
+  processing?: ImageProcessingOptions;
+  folder?: string;
+  /** Username recorded as the uploader in the image metadata. */
+  uploadedBy?: string;
 }
 
-export interface ImageInfo {
+export interface ImageInfo extends ImageMetadata {
   key: string;
   url: string;
   size: number;
   mimeType: string;
   uploadedAt: Date;
+  originalSize?: number;
+  /** Resized WebP copies, narrowest first; absent when none were generated. */
+  variants?: ImageVariant[];
+}
+
+export interface UploadImageResult {
+  image: ImageInfo;
+  deduplicated: boolean;
 }
 
 export interface ListImagesResult {
   images: ImageInfo[];
+  folders: string[];
   nextCursor: string | null;
   hasMore: boolean;
 }
 
-export interface DeleteImagesResult {
-  deleted: string[];
+export interface MoveFolderResult {
+  moved: Array<{
+    from: string;
+    to: string;
+  }>;
+  conflicts: ImageMove[];
   failed: Array<{
     key: string;
     error: string;
   }>;
 }
 
-type RequiredEnvKey =
-  | 'R2_ACCESS_KEY_ID'
-  | 'R2_SECRET_ACCESS_KEY'
-  | 'R2_BUCKET_NAME'
-  | 'R2_ENDPOINT'
-  | 'R2_PUBLIC_URL';
-
-let r2ClientSingleton: S3Client | null = null;
-
-function getRequiredEnv(key: RequiredEnvKey): string {
-  const value = process.env[key]?.trim();
-
-  if (!value) {
-    throw new Error(`${key} is not configured`);
-  }
-
-  return value;
-}
-
-function getR2Client(): S3Client {
-  if (!r2ClientSingleton) {
-    r2ClientSingleton = new S3Client({
-      region: 'auto',
-      endpoint: getRequiredEnv('R2_ENDPOINT'),
-      credentials: {
-        accessKeyId: getRequiredEnv('R2_ACCESS_KEY_ID'),
-        secretAccessKey: getRequiredEnv('R2_SECRET_ACCESS_KEY'),
-      },
-      forcePathStyle: true,
-    });
-  }
-
-  return r2ClientSingleton;
-}
-
-function getBucketName(): string {
-  return getRequiredEnv('R2_BUCKET_NAME');
-}
-
-function getPublicUrlBase(): string {
-  return getRequiredEnv('R2_PUBLIC_URL').replace(/\/+$/, '');
+export interface MoveImagesResult {
+  moved: ImageMove[];
+  conflicts: ImageMove[];
+  failed: Array<{
+    key: string;
+    error: string;
+  }>;
 }
 
-function encodeObjectKey(key: string): string {
-  return key
-    .split('/')
-    .map((segment) => encodeURIComponent(segment))
-    .join('/');
+export interface DeleteImagesResult {
+  deleted: string[];
+  failed: Array<{
+    key: string;
+    error: string;
+  }>;
 }
 
 function generateFileName(originalName: string, useHash = false): string {
-  const ext = originalName.includes('.') ? originalName.split('.').pop() || '' : '';
+  const ext = getFileExtension(originalName);
 
   if (useHash) {
     const hash = randomUUID().replace(/-/g, '');
@@ -96,6 +109,18 @@ function generateFileName(originalName: string, useHash = false): string {
   return `${timestamp}_${cleanName}`;
 }
 
+function getFileExtension(fileName: string): string {
+  return fileName.includes('.') ? fileName.split('.').pop() || '' : '';
+}
+
+function replaceFileExtension(fileName: string, ext: string): string {
+  return `${fileName.replace(/\.[^.]+$/, '')}.${ext}`;
+}
+
+function hashContent(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
 function getMimeType(objectKey: string, fallback?: string | null): string {
   return fallback || mimeTypes.lookup(objectKey) || 'application/octet-stream';
 }
@@ -108,102 +133,408 @@ function toImageInfo(
 ): ImageInfo {
   return {
     key,
-    url: `${getPublicUrlBase()}/${encodeObjectKey(key)}`,
+    url: getStorageBackend().getPublicUrl(key),
     size,
     mimeType,
     uploadedAt,
   };
 }
 
-export async function uploadImage(file: File, options: UploadOptions = {}): Promise<ImageInfo> {
+/** Merges the sidecar metadata (title, alt text, tags ...) and variant URLs into listed images. */
+async function withImageMetadata(images: ImageInfo[]): Promise<ImageInfo[]> {
+  const keys = images.map((image) => image.key);
+  const [metadata, variantWidths] = await Promise.all([getImageMetadata(keys), getImageVariantWidths(keys)]);
+
+  return images.map((image) => {
+    const widths = variantWidths.get(image.key);
+    return {
+      ...image,
+      ...metadata.get(image.key),
+      ...(widths ? { variants: toImageVariants(image.key, widths) } : {}),
+    };
+  });
+}
+
+/** Picks the final key for an upload the server never reads, e.g. a direct-to-bucket one. */
+export function buildUploadKey(
+  fileName: string,
+  mimeType: string,
+  options: Pick<UploadOptions, 'folder' | 'useHashName'> = {}
+): string {
+  const uploadedName = fileName.includes('.')
+    ? fileName
+    : `${fileName}.${mimeTypes.extension(mimeType) || 'bin'}`;
+
+  return `${options.folder || ''}${generateFileName(uploadedName, options.useHashName)}`;
+}
+
+export async function getImage(key: string): Promise<ImageInfo | null> {
+  const object = await getStorageBackend().headObject(key);
+  if (!object) {
+    return null;
+  }
+
+  const [image] = await withSignedUrls(
+    await withImageMetadata([
+      toImageInfo(object.key, object.size, object.lastModified, getMimeType(object.key, object.contentType)),
+    ])
+  );
+  return image;
+}
+
+export async function uploadImage(
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadImageResult> {
   const extFromMime = mimeTypes.extension(file.type) || 'bin';
-  const normalizedOriginalName = file.name.includes('.')
+  const uploadedName = file.name.includes('.')
     ? file.name
     : `${file.name}.${extFromMime}`;
-  const key = generateFileName(normalizedOriginalName, options.useHashName);
-  const body = Buffer.from(await file.arrayBuffer());
-
-  await getR2Client().send(
-    new PutObjectCommand({
-      Bucket: getBucketName(),
-      Key: key,
-      Body: body,
-      ContentType: file.type || getMimeType(key),
-      CacheControl: 'public, max-age=31536000',
-    })
-  );
+  const inputMimeType = file.type || getMimeType(uploadedName);
+  const originalBody = Buffer.from(await file.arrayBuffer());
+  const { body, mimeType } = options.processing
+    ? await processImage(originalBody, inputMimeType, options.processing)
+    : { body: originalBody, mimeType: inputMimeType };
+  const normalizedOriginalName =
+    mimeType === inputMimeType
+      ? uploadedName
+      : replaceFileExtension(uploadedName, mimeTypes.extension(mimeType) || extFromMime);
+  const contentHash = hashContent(body);
+  const backend = getStorageBackend();
+  const folder = options.folder || '';
+  let key: string;
+
+  if (options.useContentHash) {
+    const ext = mimeTypes.extension(mimeType) || getFileExtension(normalizedOriginalName);
+    key = `${folder}${ext ? `${contentHash}.${ext}` : contentHash}`;
 
-  return toImageInfo(
+    const existing = await getImage(key);
+    if (existing) {
+      return {
+        image: {
+          ...existing,
+          originalSize: originalBody.length,
+        },
+        deduplicated: true,
+      };
+    }
+  } else {
+    key = `${folder}${generateFileName(normalizedOriginalName, options.useHashName)}`;
+  }
+
+  await backend.putObject({
     key,
-    body.length,
-    new Date(),
-    file.type || getMimeType(key)
-  );
+    body,
+    contentType: mimeType,
+    cacheControl: 'public, max-age=31536000',
+    metadata: {
+      sha256: contentHash,
+    },
+  });
+
+  const uploadedAt = new Date();
+  const analysis = await analyzeImage(body);
+  const metadata = { originalName: file.name, uploadedBy: options.uploadedBy, ...analysis };
+  const variantWidths = await createImageVariants(key, body, mimeType);
+  await indexObjects([{ key, size: body.length, lastModified: uploadedAt, contentType: mimeType }]);
+  await recordImageUpload(key, metadata, variantWidths);
+
+  const [image] = await withSignedUrls([
+    {
+      ...toImageInfo(key, body.length, uploadedAt, mimeType),
+      ...metadata,
+      originalSize: originalBody.length,
+      ...(variantWidths.length > 0 ? { variants: toImageVariants(key, variantWidths) } : {}),
+    },
+  ]);
+
+  return {
+    image,
+    deduplicated: false,
+  };
 }
 
+/**
+ * Lists one page of images. Without `sort` this mirrors ListObjects (key
+ * order, folders mixed into the page); with it, the images directly under
+ * the prefix are ordered by the sort field and the folders come with the
+ * first page.
+ */
 export async function listImages(
   prefix = '',
   maxKeys = 60,
-  cursor?: string | null
+  cursor?: string | null,
+  delimiter = '',
+  sort: ImageSort | null = null
 ): Promise<ListImagesResult> {
-  const result = await getR2Client().send(
-    new ListObjectsV2Command({
-      Bucket: getBucketName(),
-      Prefix: prefix || undefined,
-      MaxKeys: Math.min(Math.max(maxKeys, 1), 1000),
-      ContinuationToken: cursor || undefined,
-    })
+  if (sort) {
+    const images = (await getIndexedImages(prefix)).filter(
+      (image) => !delimiter || !image.key.slice(prefix.length).includes(delimiter)
+    );
+    const page = paginateImages(images, sort, maxKeys, cursor);
+
+    return {
+      images: await withSignedUrls(await withImageMetadata(page.items)),
+      folders: delimiter && !cursor ? await listFolders(prefix) : [],
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }
+
+  const result = await listIndexedObjects({
+    prefix,
+    maxKeys,
+    cursor,
+    delimiter,
+  });
+
+  const images = await withImageMetadata(
+    result.objects
+      .filter((object) => !isHiddenKey(object.key))
+      .map((object) =>
+        toImageInfo(object.key, object.size, object.lastModified, getMimeType(object.key, object.contentType))
+      )
   );
 
   return {
-    images: (result.Contents || [])
-      .filter((object): object is typeof object & { Key: string } => Boolean(object.Key))
-      .map((object) =>
-        toImageInfo(
-          object.Key,
-          object.Size || 0,
-          object.LastModified || new Date(),
-          getMimeType(object.Key)
-        )
-      ),
-    nextCursor: result.NextContinuationToken || null,
-    hasMore: Boolean(result.IsTruncated && result.NextContinuationToken),
+    images: await withSignedUrls(images),
+    folders: result.prefixes.filter((folder) => !isHiddenKey(folder)),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
   };
 }
 
-async function deleteImage(key: string) {
-  await getR2Client().send(
-    new DeleteObjectCommand({
-      Bucket: getBucketName(),
-      Key: key,
-    })
+/** Reads the bucket itself rather than the index, so bulk moves and deletes miss nothing. */
+async function listAllKeys(prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const result = await getStorageBackend().listObjects({
+      prefix,
+      maxKeys: 1000,
+      cursor,
+    });
+    keys.push(...result.objects.map((object) => object.key));
+    cursor = result.hasMore ? result.nextCursor : null;
+  } while (cursor);
+
+  return keys;
+}
+
+async function getIndexedImages(prefix: string): Promise<ImageInfo[]> {
+  return (await getIndexedObjects(prefix))
+    .filter((object) => !isHiddenKey(object.key))
+    .map((object) =>
+      toImageInfo(object.key, object.size, object.lastModified, getMimeType(object.key, object.contentType))
+    );
+}
+
+/**
+ * Finds images anywhere under `prefix`, subfolders included, that match every
+ * filter. Results follow `sort` (keys ascending without one) and cursors
+ * point just past the last image returned, so paging stays stable while
+ * images are added or removed.
+ */
+export async function searchImages(
+  prefix: string,
+  filters: ImageFilters,
+  maxKeys = 60,
+  cursor?: string | null,
+  sort: ImageSort | null = null
+): Promise<ListImagesResult> {
+  const matches = (await withImageMetadata(await getIndexedImages(prefix))).filter((image) =>
+    matchesImageFilters(image, filters)
   );
+  const page = paginateImages(matches, sort, maxKeys, cursor);
+
+  return {
+    images: await withSignedUrls(page.items),
+    folders: [],
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore,
+  };
 }
 
-export async function deleteImages(keys: string[]): Promise<DeleteImagesResult> {
-  const uniqueKeys = [...new Set(keys.map((key) => key.trim()).filter(Boolean))];
-  const results = await Promise.allSettled(uniqueKeys.map((key) => deleteImage(key)));
+async function moveObject(sourceKey: string, destinationKey: string) {
+  const backend = getStorageBackend();
+  await backend.copyObject(sourceKey, destinationKey);
+  await backend.deleteObject(sourceKey);
+}
 
-  return results.reduce<DeleteImagesResult>(
-    (accumulator, result, index) => {
-      const key = uniqueKeys[index];
+export async function listFolders(prefix = ''): Promise<string[]> {
+  const folders: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const result = await listIndexedObjects({
+      prefix,
+      maxKeys: 1000,
+      cursor,
+      delimiter: FOLDER_DELIMITER,
+    });
+    folders.push(...result.prefixes.filter((folder) => !isHiddenKey(folder)));
+    cursor = result.hasMore ? result.nextCursor : null;
+  } while (cursor);
+
+  return folders;
+}
 
+export async function folderExists(folder: string): Promise<boolean> {
+  const result = await getStorageBackend().listObjects({
+    prefix: folder,
+    maxKeys: 1,
+  });
+
+  return result.objects.length > 0;
+}
+
+export async function createFolder(folder: string): Promise<void> {
+  const key = `${folder}${FOLDER_PLACEHOLDER}`;
+  const contentType = 'application/octet-stream';
+
+  await getStorageBackend().putObject({
+    key,
+    body: Buffer.alloc(0),
+    contentType,
+  });
+  await indexObjects([{ key, size: 0, lastModified: new Date(), contentType }]);
+}
+
+/**
+ * Moves every object under `from` to the same relative key under `to`.
+ * S3 has no rename, so each object is copied and then deleted. Keys that
+ * already exist under `to` are reported as conflicts and left in place.
+ */
+export async function moveFolder(from: string, to: string): Promise<MoveFolderResult> {
+  if (!from || to.startsWith(from)) {
+    throw new Error('Cannot move a folder into itself');
+  }
+
+  const keys = await listAllKeys(from);
+  const moves = keys.map((key) => ({ from: key, to: `${to}${key.slice(from.length)}` }));
+  const claimedKeys = new Set<string>();
+  const results = await Promise.allSettled(moves.map((move) => moveImage(move, claimedKeys)));
+  const folderResult = results.reduce<MoveFolderResult>(
+    (accumulator, result, index) => {
       if (result.status === 'fulfilled') {
-        accumulator.deleted.push(key);
+        accumulator[result.value === 'moved' ? 'moved' : 'conflicts'].push(moves[index]);
         return accumulator;
       }
 
       accumulator.failed.push({
-        key,
+        key: moves[index].from,
         error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
       });
       return accumulator;
     },
     {
-      deleted: [],
+      moved: [],
+      conflicts: [],
       failed: [],
     }
   );
+
+  await moveIndexedObjects(folderResult.moved);
+  await moveImageVariants(folderResult.moved);
+  await moveImageMetadata(folderResult.moved);
+  await clearTransformCache(folderResult.moved.map((move) => move.from));
+  return folderResult;
+}
+
+async function moveImage(move: ImageMove, claimedKeys: Set<string>): Promise<'moved' | 'conflict'> {
+  const backend = getStorageBackend();
+
+  if (move.from === move.to) {
+    throw new Error('Source and destination are the same');
+  }
+
+  if (!(await backend.headObject(move.from))) {
+    throw new Error('Image not found');
+  }
+
+  if (claimedKeys.has(move.to) || (await backend.headObject(move.to))) {
+    return 'conflict';
+  }
+
+  claimedKeys.add(move.to);
+  await moveObject(move.from, move.to);
+  return 'moved';
+}
+
+/**
+ * Renames or moves images one by one. A destination that already exists (or
+ * is claimed by an earlier move in the same batch) is reported as a conflict
+ * and left untouched instead of being overwritten.
+ */
+export async function moveImages(moves: ImageMove[]): Promise<MoveImagesResult> {
+  const claimedKeys = new Set<string>();
+  const result: MoveImagesResult = {
+    moved: [],
+    conflicts: [],
+    failed: [],
+  };
+
+  for (const move of moves) {
+    try {
+      const outcome = await moveImage(move, claimedKeys);
+      result[outcome === 'moved' ? 'moved' : 'conflicts'].push(move);
+    } catch (error) {
+      result.failed.push({
+        key: move.from,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await moveIndexedObjects(result.moved);
+  await moveImageVariants(result.moved);
+  await moveImageMetadata(result.moved);
+  await clearTransformCache(result.moved.map((move) => move.from));
+  return result;
+}
+
+/**
+ * Makes images private by moving them under `.private/`, or public by moving
+ * them back out; images that already have the visibility are skipped.
+ */
+export async function setImageVisibility(
+  keys: string[],
+  visibility: ImageVisibility
+): Promise<MoveImagesResult> {
+  return moveImages(
+    keys
+      .map((key) => ({ from: key, to: getKeyForVisibility(key, visibility) }))
+      .filter((move) => move.from !== move.to)
+  );
+}
+
+/** Moves a whole folder, subfolders included, into or out of `.private/`. */
+export async function setFolderVisibility(
+  folder: string,
+  visibility: ImageVisibility
+): Promise<MoveFolderResult> {
+  const destination = getKeyForVisibility(folder, visibility);
+  return destination === folder
+    ? { moved: [], conflicts: [], failed: [] }
+    : moveFolder(folder, destination);
+}
+
+export async function deleteFolder(folder: string, deletedBy?: string): Promise<DeleteImagesResult> {
+  if (!folder) {
+    throw new Error('Cannot delete the root folder');
+  }
+
+  return deleteImages(await listAllKeys(folder), deletedBy);
+}
+
+/**
+ * Moves images to the trash, where they stay restorable for the retention
+ * period. With `TRASH_RETENTION_DAYS=0` they are deleted immediately.
+ */
+export async function deleteImages(keys: string[], deletedBy?: string): Promise<DeleteImagesResult> {
+  const uniqueKeys = [...new Set(keys.map((key) => key.trim()).filter(Boolean))];
+  return getTrashRetentionDays() > 0 ? moveToTrash(uniqueKeys, deletedBy) : destroyImages(uniqueKeys);
 }
 
 export function getMaxFileSize(): number {
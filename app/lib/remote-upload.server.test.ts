@@ -0,0 +1,111 @@
+import { afterAll, afterEach, beforeAll, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { RemoteImageError, importRemoteImage, isPrivateAddress } from './remote-upload.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+const PNG_BYTES = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(24),
+]);
+
+async function assertRemoteImageError(promise: Promise<unknown>, status: number) {
+  await assert.rejects(promise, (error) => error instanceof RemoteImageError && error.status === status);
+}
+
+describe('isPrivateAddress', () => {
+  it('flags internal ranges only', () => {
+    const privateAddresses = [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+      '::127.0.0.1',
+      '::7f00:1',
+      '64:ff9b::a9fe:a9fe',
+      '2002:7f00:1::1',
+      'fe80::1',
+    ];
+
+    for (const address of privateAddresses) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '2a00:1450::200e']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe('importRemoteImage', () => {
+  useTemporaryDataDir('remote', { memoryStorage: true });
+
+  // Local stand-in for a remote image host.
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    server = Bun.serve({
+      port: 0,
+      hostname: '127.0.0.1',
+      fetch(request) {
+        const { pathname } = new URL(request.url);
+        if (pathname === '/cat.png') {
+          return new Response(PNG_BYTES, { headers: { 'Content-Type': 'image/png' } });
+        }
+        if (pathname === '/moved') {
+          return Response.redirect('/cat.png', 302);
+        }
+        if (pathname === '/page.html') {
+          return new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } });
+        }
+        if (pathname === '/huge.png') {
+          return new Response(Buffer.concat([PNG_BYTES, Buffer.alloc(2048)]), {
+            headers: { 'Content-Type': 'image/png' },
+          });
+        }
+        return new Response('Not found', { status: 404 });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(async () => {
+    server.stop(true);
+  });
+
+  afterEach(() => {
+    delete process.env.REMOTE_UPLOAD_ALLOW_PRIVATE_HOSTS;
+    delete process.env.MAX_FILE_SIZE;
+  });
+
+  it('refuses private hosts unless explicitly allowed', async () => {
+    await assertRemoteImageError(importRemoteImage(`${baseUrl}/cat.png`), 400);
+    // Host names are checked at connect time, against the addresses the socket actually uses.
+    await assertRemoteImageError(importRemoteImage(`http://localhost:${server.port}/cat.png`), 400);
+  });
+
+  it('stores a fetched image, following redirects', async () => {
+    process.env.REMOTE_UPLOAD_ALLOW_PRIVATE_HOSTS = 'true';
+
+    const result = await importRemoteImage(`${baseUrl}/moved`, { folder: 'imports/' });
+    assert.match(result.image.key, /^imports\/\d+_cat\.png$/);
+    assert.equal(result.image.mimeType, 'image/png');
+    assert.equal(result.image.size, PNG_BYTES.length);
+    await getStorageBackend().deleteObject(result.image.key);
+  });
+
+  it('applies the upload size and type validation', async () => {
+    process.env.REMOTE_UPLOAD_ALLOW_PRIVATE_HOSTS = 'true';
+
+    await assertRemoteImageError(importRemoteImage(`${baseUrl}/page.html`), 415);
+    await assertRemoteImageError(importRemoteImage(`${baseUrl}/missing.png`), 502);
+
+    process.env.MAX_FILE_SIZE = '1024';
+    await assertRemoteImageError(importRemoteImage(`${baseUrl}/huge.png`), 400);
+  });
+});
@@ -0,0 +1,245 @@
+import { lookup, type LookupAddress, type LookupAllOptions } from 'node:dns';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+
+import { getRemoteFileName } from './remote-upload';
+import { getMaxFileSize, uploadImage, type UploadImageResult, type UploadOptions } from './r2.server';
+import { validateImageUpload } from './upload-validation.server';
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 3;
+
+export class RemoteImageError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 415 | 502
+  ) {
+    super(message);
+    this.name = 'RemoteImageError';
+  }
+}
+
+/** Off by default so the importer can't be used to probe the deployment's internal network. */
+function allowsPrivateHosts(): boolean {
+  return process.env.REMOTE_UPLOAD_ALLOW_PRIVATE_HOSTS?.trim().toLowerCase() === 'true';
+}
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 && parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+/** The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part converted. */
+function parseIpv6(address: string): number[] | null {
+  if (isIP(address) !== 6) {
+    return null;
+  }
+
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  const ipv4 = dotted ? parseIpv4(dotted[2]) : null;
+  const hex =
+    dotted && ipv4
+      ? `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`
+      : address;
+  const [head, tail] = hex.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  return groups.map((group) => Number.parseInt(group, 16));
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and other non-public
+ * ranges. IPv6 forms that embed an IPv4 address (mapped, IPv4-compatible,
+ * NAT64, 6to4, Teredo) are refused as a whole rather than decoded.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const ipv4 = parseIpv4(normalized);
+
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  const groups = parseIpv6(normalized);
+  if (!groups) {
+    return true;
+  }
+
+  const [first, second, third] = groups;
+  return (
+    // ::/96 covers ::, ::1 and IPv4-compatible addresses; ::ffff:0:0/96 is IPv4-mapped.
+    groups.slice(0, 5).every((group) => group === 0) ||
+    (first === 0x64 && second === 0xff9b && (third === 0 || third === 1)) ||
+    first === 0x2002 ||
+    (first === 0x2001 && second === 0) ||
+    (first === 0x2001 && second === 0xdb8) ||
+    (first === 0x100 && second === 0 && third === 0) ||
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xff00) === 0xff00
+  );
+}
+
+/** IP literals never go through DNS, so they are checked before connecting. */
+function assertPublicLiteralHost(url: URL) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!allowsPrivateHosts() && isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new RemoteImageError(`Host is not allowed: ${hostname}`, 400);
+  }
+}
+
+/**
+ * Resolves a host for the socket and refuses it if any address is private.
+ * The connection uses exactly the addresses checked here, so a DNS answer
+ * that changes between the check and the connect (rebinding) cannot slip
+ * through.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true } as LookupAllOptions, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(new RemoteImageError(`Could not resolve host: ${hostname}`, 400), '', 0);
+      return;
+    }
+
+    if (
+      !allowsPrivateHosts() &&
+      (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address)))
+    ) {
+      callback(new RemoteImageError(`Host is not allowed: ${hostname}`, 400), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** One GET without following redirects; the socket resolves its host through `publicOnlyLookup`. */
+function requestOnce(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  assertPublicLiteralHost(url);
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(url, { headers: { Accept: 'image/*' }, lookup: publicOnlyLookup, signal }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/** Reads the body but gives up as soon as it grows past `maxSize`, whatever Content-Length claimed. */
+async function readLimitedBody(response: IncomingMessage, maxSize: number): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () => new RemoteImageError(`File size exceeds limit of ${maxSize / 1024 / 1024}MB`, 400);
+  const declaredLength = Number(response.headers['content-length']);
+  if (Number.isFinite(declaredLength) && declaredLength > maxSize) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of response as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > maxSize) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return body;
+}
+
+/**
+ * Downloads a remote image into a `File`, following a few redirects. Every
+ * hop connects only to addresses that passed the private range check. The result is untrusted:
+ * callers still have to run it through `validateImageUpload`.
+ */
+export async function fetchRemoteImage(url: string): Promise<File> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects += 1) {
+    const response = await requestOnce(current, signal).catch((error) => {
+      if (error instanceof RemoteImageError) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : 'network error';
+      throw new RemoteImageError(
+        signal.aborted ? 'Timed out fetching the image' : `Failed to fetch the image: ${reason}`,
+        502
+      );
+    });
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new RemoteImageError('Too many redirects', 502);
+      }
+
+      current = new URL(location, current);
+      if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+        throw new RemoteImageError('Redirected to an unsupported URL', 400);
+      }
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new RemoteImageError(`Remote server responded with ${status}`, 502);
+    }
+
+    const body = await readLimitedBody(response, getMaxFileSize()).catch((error) => {
+      if (error instanceof RemoteImageError) {
+        throw error;
+      }
+      throw new RemoteImageError(signal.aborted ? 'Timed out fetching the image' : 'Failed to read the image', 502);
+    });
+
+    return new File([body], getRemoteFileName(current.href), {
+      type: response.headers['content-type'] || '',
+    });
+  }
+}
+
+/** Fetches, validates and stores one remote image with the same rules as a form upload. */
+export async function importRemoteImage(url: string, options: UploadOptions = {}): Promise<UploadImageResult> {
+  const validation = await validateImageUpload(await fetchRemoteImage(url));
+  if (!validation.ok) {
+    throw new RemoteImageError(validation.error, validation.status);
+  }
+
+  return uploadImage(validation.file, options);
+}
@@ -0,0 +1,56 @@
+/** Upper bound on URLs per import request; each one is fetched by the server. */
+export const MAX_REMOTE_URLS = 10;
+
+const MAX_URL_LENGTH = 2048;
+
+export type RemoteUrlParseResult = { ok: true; urls: string[] } | { ok: false; error: string };
+
+/**
+ * Splits pasted text (one or more URLs per value, separated by whitespace)
+ * into distinct http(s) URLs. URLs with embedded credentials are refused so
+ * they never end up in logs or error messages.
+ */
+export function parseRemoteImageUrls(values: string[]): RemoteUrlParseResult {
+  const urls = [...new Set(values.flatMap((value) => value.split(/\s+/)).filter(Boolean))];
+
+  if (urls.length === 0) {
+    return { ok: false, error: 'At least one URL is required' };
+  }
+
+  if (urls.length > MAX_REMOTE_URLS) {
+    return { ok: false, error: `At most ${MAX_REMOTE_URLS} URLs can be imported at once` };
+  }
+
+  for (const value of urls) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return { ok: false, error: `Invalid URL: ${value.slice(0, 100)}` };
+    }
+
+    if (
+      (url.protocol !== 'http:' && url.protocol !== 'https:') ||
+      url.username ||
+      url.password ||
+      value.length > MAX_URL_LENGTH
+    ) {
+      return { ok: false, error: `Unsupported URL: ${value.slice(0, 100)}` };
+    }
+  }
+
+  return { ok: true, urls };
+}
+
+/** Best-effort file name from the last path segment, e.g. `https://x/a/cat.png?s=1` → `cat.png`. */
+export function getRemoteFileName(url: string): string {
+  let segment = '';
+  try {
+    segment = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  } catch {
+    segment = '';
+  }
+
+  const fileName = segment.replace(/[\\/\u0000-\u001f\u007f]/g, '').trim().slice(-120);
+  return fileName && fileName !== '.' && fileName !== '..' ? fileName : 'remote-image';
+}
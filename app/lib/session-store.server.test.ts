@@ -0,0 +1,62 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  createSessionRecord,
+  deleteSessionRecord,
+  getPublicSessionId,
+  listActiveSessions,
+  readSessionRecord,
+  revokeSession,
+  revokeSessionsForUser,
+  updateSessionRecord,
+} from './session-store.server';
+import { useTemporaryDataDir } from './test-data-dir';
+
+describe('session store', () => {
+  useTemporaryDataDir('sessions', { perTest: true });
+
+  it('creates, reads, updates and deletes session records', async () => {
+    const expires = new Date(Date.now() + 60_000);
+    const id = await createSessionRecord({ username: 'alice', ip: '1.1.1.1' }, expires);
+
+    assert.deepEqual(await readSessionRecord(id), { username: 'alice', ip: '1.1.1.1' });
+
+    await updateSessionRecord(id, { username: 'alice', ip: '2.2.2.2' }, expires);
+    assert.equal((await readSessionRecord(id))?.ip, '2.2.2.2');
+
+    await deleteSessionRecord(id);
+    assert.equal(await readSessionRecord(id), null);
+
+    await updateSessionRecord(id, { username: 'alice' }, expires);
+    assert.equal(await readSessionRecord(id), null);
+  });
+
+  it('ignores expired sessions', async () => {
+    const id = await createSessionRecord({ username: 'alice' }, new Date(Date.now() - 1000));
+
+    assert.equal(await readSessionRecord(id), null);
+    assert.deepEqual(await listActiveSessions(), []);
+  });
+
+  it('lists and revokes sessions by public id and user', async () => {
+    const aliceId = await createSessionRecord({ username: 'alice', userAgent: 'x'.repeat(500) });
+    const bobId = await createSessionRecord({ username: 'bob' });
+    await createSessionRecord({ username: 'bob' });
+
+    const aliceSessions = await listActiveSessions('alice');
+    assert.equal(aliceSessions.length, 1);
+    assert.equal(aliceSessions[0].id, getPublicSessionId(aliceId));
+    assert.notEqual(aliceSessions[0].id, aliceId);
+    assert.equal(aliceSessions[0].userAgent.length, 256);
+
+    assert.equal(await revokeSession(getPublicSessionId(bobId), 'alice'), false);
+    assert.equal(await revokeSession(getPublicSessionId(bobId), 'bob'), true);
+    assert.equal(await readSessionRecord(bobId), null);
+
+    assert.equal(await revokeSessionsForUser('bob'), 1);
+    assert.deepEqual(
+      (await listActiveSessions()).map((session) => session.username),
+      ['alice']
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+
+const SESSIONS_FILE = 'sessions.json';
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 256;
+
+export type AuthSessionData = {
+  authenticated?: boolean;
+  username?: string;
+  /** Set between a correct password and the second factor; never authenticated. */
+  pendingUsername?: string;
+  ip?: string;
+  userAgent?: string;
+};
+
+interface StoredSession {
+  id: string;
+  data: AuthSessionData;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string | null;
+}
+
+interface SessionStoreData {
+  sessions: StoredSession[];
+}
+
+/** What the sessions page shows; `id` is a hash so raw session IDs never leave the server. */
+export interface ActiveSession {
+  id: string;
+  username: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string | null;
+}
+
+const EMPTY_STORE: SessionStoreData = { sessions: [] };
+
+function getSessionsFilePath(): string {
+  return getDataFilePath(SESSIONS_FILE);
+}
+
+function isExpired(session: StoredSession, now = Date.now()): boolean {
+  return session.expiresAt !== null && Date.parse(session.expiresAt) <= now;
+}
+
+function sanitizeData(data: AuthSessionData): AuthSessionData {
+  return {
+    ...data,
+    userAgent: data.userAgent?.slice(0, MAX_USER_AGENT_LENGTH),
+  };
+}
+
+export function getPublicSessionId(id: string): string {
+  return createHash('sha256').update(id).digest('hex').slice(0, 24);
+}
+
+function toActiveSession(session: StoredSession): ActiveSession {
+  return {
+    id: getPublicSessionId(session.id),
+    username: session.data.username ?? '',
+    ip: session.data.ip ?? 'unknown',
+    userAgent: session.data.userAgent ?? '',
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+  };
+}
+
+async function readSessions(): Promise<StoredSession[]> {
+  return (await readJsonFile(getSessionsFilePath(), EMPTY_STORE)).sessions;
+}
+
+export async function createSessionRecord(data: AuthSessionData, expires?: Date): Promise<string> {
+  const id = randomBytes(32).toString('base64url');
+  const now = new Date().toISOString();
+
+  await updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => ({
+    data: {
+      sessions: [
+        ...sessions.filter((session) => !isExpired(session)),
+        {
+          id,
+          data: sanitizeData(data),
+          createdAt: now,
+          lastSeenAt: now,
+          expiresAt: expires?.toISOString() ?? null,
+        },
+      ],
+    },
+    result: undefined,
+  }));
+
+  return id;
+}
+
+export async function readSessionRecord(id: string): Promise<AuthSessionData | null> {
+  const session = (await readSessions()).find((candidate) => candidate.id === id);
+
+  if (!session || isExpired(session)) {
+    return null;
+  }
+
+  if (Date.now() - Date.parse(session.lastSeenAt) > LAST_SEEN_RESOLUTION_MS) {
+    await updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => ({
+      data: {
+        sessions: sessions.map((candidate) =>
+          candidate.id === id ? { ...candidate, lastSeenAt: new Date().toISOString() } : candidate
+        ),
+      },
+      result: undefined,
+    })).catch((error) => {
+      console.error('Failed to record session activity:', error);
+    });
+  }
+
+  return session.data;
+}
+
+/** Never recreates a record that was revoked in the meantime. */
+export async function updateSessionRecord(id: string, data: AuthSessionData, expires?: Date): Promise<void> {
+  await updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => ({
+    data: {
+      sessions: sessions.map((session) =>
+        session.id === id
+          ? { ...session, data: sanitizeData(data), expiresAt: expires?.toISOString() ?? session.expiresAt }
+          : session
+      ),
+    },
+    result: undefined,
+  }));
+}
+
+export async function deleteSessionRecord(id: string): Promise<void> {
+  await updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => ({
+    data: { sessions: sessions.filter((session) => session.id !== id) },
+    result: undefined,
+  }));
+}
+
+/**
+ * Lists unexpired signed-in sessions, newest first; pass a username to see
+ * only that user's. Half-finished two-factor logins are left out.
+ */
+export async function listActiveSessions(username?: string): Promise<ActiveSession[]> {
+  return (await readSessions())
+    .filter(
+      (session) =>
+        !isExpired(session) &&
+        !session.data.pendingUsername &&
+        (!username || session.data.username === username)
+    )
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt))
+    .map(toActiveSession);
+}
+
+/**
+ * Deletes one session by its public ID. When `username` is given the session
+ * must belong to that user, so non-admins can only revoke their own.
+ */
+export async function revokeSession(publicId: string, username?: string): Promise<boolean> {
+  return updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => {
+    const nextSessions = sessions.filter(
+      (session) =>
+        getPublicSessionId(session.id) !== publicId ||
+        (username !== undefined && session.data.username !== username)
+    );
+
+    return { data: { sessions: nextSessions }, result: nextSessions.length !== sessions.length };
+  });
+}
+
+export async function revokeSessionsForUser(username: string): Promise<number> {
+  return updateJsonFile(getSessionsFilePath(), EMPTY_STORE, ({ sessions }) => {
+    const nextSessions = sessions.filter(
+      (session) => session.data.username !== username && session.data.pendingUsername !== username
+    );
+    return { data: { sessions: nextSessions }, result: sessions.length - nextSessions.length };
+  });
+}
@@ -1,13 +1,38 @@
-import { createCookieSessionStorage, redirect } from 'react-router';
+import { createSessionStorage as createSessionIdStorage, redirect } from 'react-router';
 
+import { verifyApiToken } from './api-token-store.server';
+import { isKeyWithinPrefix, parseBearerToken, type TokenScope } from './api-tokens';
 import { getLoginPath, sanitizeNextPath } from './auth';
+import { getClientIp } from './client-ip';
+import {
+  createSessionRecord,
+  deleteSessionRecord,
+  readSessionRecord,
+  updateSessionRecord,
+  type AuthSessionData,
+} from './session-store.server';
+import { findUser } from './user-store.server';
+import { hasPermission, type AuthUser, type Permission } from './users';
 
 export const SESSION_COOKIE_NAME = 'auth-token';
 export const SESSION_DURATION_SECONDS = 24 * 60 * 60;
+export const TWO_FACTOR_PENDING_SECONDS = 5 * 60;
 
-type AuthSessionData = {
-  authenticated?: boolean;
-};
+/**
+ * Who is calling an API route: a browser session, or a bearer token limited
+ * to its scopes and allowed key prefix (`''` means unrestricted).
+ */
+export interface ApiPrincipal {
+  user: AuthUser;
+  via: 'session' | 'token';
+  scopes: TokenScope[];
+  allowedPrefix: string;
+}
+
+/** `admin` and `session` can only be satisfied by a browser session. */
+export type ApiRequirement = Permission | 'admin' | 'session';
+
+const principalCache = new WeakMap<Request, Promise<ApiPrincipal | null>>();
 
 function getAdminPassword(): string {
   if (!process.env.ADMIN_PASSWORD) {
@@ -17,17 +42,36 @@ function getAdminPassword(): string {
   return process.env.ADMIN_PASSWORD;
 }
 
+/**
+ * `SESSION_SECRETS` is a comma-separated list: the first entry signs new
+ * cookies, the rest are still accepted so secrets can be rotated without
+ * signing everyone out. Falls back to a secret derived from `ADMIN_PASSWORD`.
+ */
+function getSessionSecrets(): string[] {
+  const secrets = (process.env.SESSION_SECRETS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  return secrets.length > 0 ? secrets : [`admin-password:${getAdminPassword()}`];
+}
+
+/** The cookie only carries a signed session ID; the data lives in the session store. */
 function createSessionStorage() {
-  return createCookieSessionStorage<AuthSessionData>({
+  return createSessionIdStorage<AuthSessionData>({
     cookie: {
       name: SESSION_COOKIE_NAME,
       httpOnly: true,
       maxAge: SESSION_DURATION_SECONDS,
       path: '/',
       sameSite: 'strict',
-      secrets: [`admin-password:${getAdminPassword()}`],
+      secrets: getSessionSecrets(),
       secure: !import.meta.env.DEV,
     },
+    createData: createSessionRecord,
+    readData: readSessionRecord,
+    updateData: updateSessionRecord,
+    deleteData: deleteSessionRecord,
   });
 }
 
@@ -36,11 +80,49 @@ export async function getSession(request: Request) {
   return storage.getSession(request.headers.get('Cookie'));
 }
 
-export async function commitAuthenticatedSession() {
+export async function getCurrentSessionId(request: Request): Promise<string | null> {
+  const session = await getSession(request);
+  return session.id || null;
+}
+
+/**
+ * Always starts a fresh session record (dropping whatever the request already
+ * carried) so a session ID issued before login can't be fixed onto a victim.
+ */
+async function startSession(request: Request, data: AuthSessionData, maxAge: number) {
   const storage = createSessionStorage();
+  const previous = await storage.getSession(request.headers.get('Cookie'));
+  if (previous.id) {
+    await storage.destroySession(previous);
+  }
+
   const session = await storage.getSession();
-  session.set('authenticated', true);
-  return storage.commitSession(session);
+  session.set('ip', getClientIp(request));
+  session.set('userAgent', request.headers.get('User-Agent') || '');
+  if (data.authenticated && data.username) {
+    session.set('authenticated', true);
+    session.set('username', data.username);
+  }
+  if (data.pendingUsername) {
+    session.set('pendingUsername', data.pendingUsername);
+  }
+
+  return storage.commitSession(session, { maxAge });
+}
+
+export async function commitAuthenticatedSession(user: AuthUser, request: Request) {
+  return startSession(request, { authenticated: true, username: user.username }, SESSION_DURATION_SECONDS);
+}
+
+/** Remembers who passed the password step; only good for completing the second factor. */
+export async function commitPendingTwoFactorSession(user: AuthUser, request: Request) {
+  return startSession(request, { pendingUsername: user.username }, TWO_FACTOR_PENDING_SECONDS);
+}
+
+export async function getPendingTwoFactorUser(request: Request): Promise<AuthUser | null> {
+  const session = await getSession(request);
+  const username = session.get('pendingUsername');
+  return username ? findUser(username) : null;
 }
 
 export async function destroyAuthenticatedSession(request: Request) {
@@ -49,30 +131,119 @@ export async function destroyAuthenticatedSession(request: Request) {
   return storage.destroySession(session);
 }
 
-export async function isAuthenticated(request: Request) {
+/**
+ * Looks the signed-in username up again on every request so role changes and
+ * deleted accounts take effect immediately instead of when the cookie expires.
+ */
+export async function getAuthenticatedUser(request: Request): Promise<AuthUser | null> {
   const session = await getSession(request);
-  return session.get('authenticated') === true;
+  const username = session.get('username');
+
+  if (session.get('authenticated') !== true || !username) {
+    return null;
+  }
+
+  return findUser(username);
+}
+
+export async function isAuthenticated(request: Request) {
+  return (await getAuthenticatedUser(request)) !== null;
 }
 
-export async function requireAuthenticatedRequest(request: Request) {
-  const authenticated = await isAuthenticated(request);
+export async function requireAuthenticatedRequest(request: Request, permission?: Permission) {
+  const user = await getAuthenticatedUser(request);
 
-  if (!authenticated) {
+  if (!user) {
     throw redirect(getLoginPath(new URL(request.url)));
   }
+
+  if (permission && !hasPermission(user.role, permission)) {
+    throw redirect('/gallery');
+  }
+
+  return user;
+}
+
+export async function requireAdminRequest(request: Request) {
+  const user = await requireAuthenticatedRequest(request);
+
+  if (user.role !== 'admin') {
+    throw new Response('Forbidden', { status: 403 });
+  }
+
+  return user;
+}
+
+async function resolveApiPrincipal(request: Request): Promise<ApiPrincipal | null> {
+  const bearerToken = parseBearerToken(request.headers.get('Authorization'));
+
+  if (bearerToken) {
+    const verified = await verifyApiToken(bearerToken);
+    return verified
+      ? {
+          user: verified.user,
+          via: 'token',
+          scopes: verified.token.scopes,
+          allowedPrefix: verified.token.allowedPrefix,
+        }
+      : null;
+  }
+
+  const user = await getAuthenticatedUser(request);
+  return user ? { user, via: 'session', scopes: [], allowedPrefix: '' } : null;
+}
+
+export function getApiPrincipal(request: Request): Promise<ApiPrincipal | null> {
+  let principal = principalCache.get(request);
+
+  if (!principal) {
+    principal = resolveApiPrincipal(request);
+    principalCache.set(request, principal);
+  }
+
+  return principal;
+}
+
+function isRequirementMet(principal: ApiPrincipal, requirement: ApiRequirement): boolean {
+  if (requirement === 'admin' || requirement === 'session') {
+    return principal.via === 'session' && (requirement === 'session' || principal.user.role === 'admin');
+  }
+
+  return principal.via === 'token'
+    ? principal.scopes.includes(requirement)
+    : hasPermission(principal.user.role, requirement);
 }
 
-export async function ensureAuthenticatedApiRequest(request: Request) {
-  const authenticated = await isAuthenticated(request);
+/**
+ * Returns a 401/403 response when the request may not proceed, or null when
+ * the session user's role (or the bearer token's scopes) grants `requirement`.
+ */
+export async function ensureAuthenticatedApiRequest(
+  request: Request,
+  requirement: ApiRequirement = 'list'
+) {
+  const principal = await getApiPrincipal(request);
+
+  if (!principal) {
+    return Response.json(
+      { error: 'Authentication required' },
+      {
+        status: 401,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
 
-  if (authenticated) {
+  if (isRequirementMet(principal, requirement)) {
     return null;
   }
 
   return Response.json(
-    { error: 'Authentication required' },
+    { error: 'Insufficient permissions' },
     {
-      status: 401,
+      status: 403,
       headers: {
         'Cache-Control': 'no-store',
       },
@@ -80,8 +251,26 @@ export async function ensureAuthenticatedApiRequest(request: Request) {
   );
 }
 
-export function verifyPassword(password: string) {
-  return password === getAdminPassword();
+/**
+ * Returns a 403 response if a prefix-restricted token tries to touch a key or
+ * folder outside its allowed prefix, otherwise null.
+ */
+export async function ensureKeysWithinAllowedPrefix(request: Request, keys: string[]) {
+  const allowedPrefix = (await getApiPrincipal(request))?.allowedPrefix ?? '';
+
+  if (keys.every((key) => isKeyWithinPrefix(key, allowedPrefix))) {
+    return null;
+  }
+
+  return Response.json(
+    { error: `This token may only access keys under "${allowedPrefix}"` },
+    {
+      status: 403,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    }
+  );
 }
 
 export function getSafeNextPath(value: string | null | undefined) {
@@ -0,0 +1,192 @@
+import { copyFile, mkdir, open, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import {
+  assertSafeObjectKey,
+  joinPublicUrl,
+  paginateObjects,
+  type StorageBackend,
+  type StoredObject,
+} from './storage';
+
+interface LocalObjectMeta {
+  contentType: string | null;
+  cacheControl?: string;
+  metadata: Record<string, string>;
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+async function removeEmptyParents(directory: string, stopAt: string) {
+  let current = directory;
+
+  while (current.startsWith(stopAt) && current !== stopAt) {
+    const entries = await readdir(current).catch(() => null);
+    if (!entries || entries.length > 0) {
+      return;
+    }
+
+    await rm(current, { recursive: true, force: true });
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * Stores objects as plain files under `<root>/objects` with a JSON sidecar per
+ * object under `<root>/meta`, so the app can run without any bucket at all.
+ */
+export function createLocalStorageBackend(root: string, publicUrlBase: string): StorageBackend {
+  const objectsRoot = path.resolve(root, 'objects');
+  const metaRoot = path.resolve(root, 'meta');
+
+  const getObjectPath = (key: string) => path.join(objectsRoot, assertSafeObjectKey(key));
+  const getMetaPath = (key: string) => path.join(metaRoot, `${assertSafeObjectKey(key)}.json`);
+
+  const readMeta = async (key: string): Promise<LocalObjectMeta> => {
+    try {
+      return JSON.parse(await readFile(getMetaPath(key), 'utf8')) as LocalObjectMeta;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return { contentType: null, metadata: {} };
+      }
+
+      throw error;
+    }
+  };
+
+  const statObject = async (key: string): Promise<StoredObject | null> => {
+    try {
+      const [stats, meta] = await Promise.all([stat(getObjectPath(key)), readMeta(key)]);
+
+      return {
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+        contentType: meta.contentType,
+        metadata: meta.metadata,
+      };
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null;
+      }
+
+      throw error;
+    }
+  };
+
+  const collectKeys = async (directory: string, prefix = ''): Promise<string[]> => {
+    const entries = await readdir(directory, { withFileTypes: true }).catch((error) => {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+
+      throw error;
+    });
+    const nested = await Promise.all(
+      entries.map((entry) =>
+        entry.isDirectory()
+          ? collectKeys(path.join(directory, entry.name), `${prefix}${entry.name}/`)
+          : Promise.resolve([`${prefix}${entry.name}`])
+      )
+    );
+
+    return nested.flat();
+  };
+
+  return {
+    driver: 'local',
+
+    async putObject({ key, body, contentType, cacheControl, metadata = {} }) {
+      const objectPath = getObjectPath(key);
+      const metaPath = getMetaPath(key);
+      const meta: LocalObjectMeta = { contentType, cacheControl, metadata };
+
+      await Promise.all([
+        mkdir(path.dirname(objectPath), { recursive: true }),
+        mkdir(path.dirname(metaPath), { recursive: true }),
+      ]);
+      await writeFile(objectPath, body);
+      await writeFile(metaPath, JSON.stringify(meta));
+    },
+
+    async getObject(key) {
+      const object = await statObject(key);
+      if (!object) {
+        return null;
+      }
+
+      return {
+        ...object,
+        body: await readFile(getObjectPath(key)),
+      };
+    },
+
+    headObject(key) {
+      return statObject(key);
+    },
+
+    async readObjectBytes(key, length) {
+      try {
+        const handle = await open(getObjectPath(key), 'r');
+
+        try {
+          const buffer = Buffer.alloc(length);
+          const { bytesRead } = await handle.read(buffer, 0, length, 0);
+          return buffer.subarray(0, bytesRead);
+        } finally {
+          await handle.close();
+        }
+      } catch (error) {
+        if (isMissingFileError(error)) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async listObjects(input) {
+      const keys = await collectKeys(objectsRoot);
+      const prefix = input.prefix || '';
+      const objects = await Promise.all(
+        keys.filter((key) => key.startsWith(prefix)).map((key) => statObject(key))
+      );
+
+      return paginateObjects(
+        objects.filter((object): object is StoredObject => Boolean(object)),
+        input
+      );
+    },
+
+    async deleteObject(key) {
+      const objectPath = getObjectPath(key);
+      const metaPath = getMetaPath(key);
+
+      await Promise.all([rm(objectPath, { force: true }), rm(metaPath, { force: true })]);
+      await Promise.all([
+        removeEmptyParents(path.dirname(objectPath), objectsRoot),
+        removeEmptyParents(path.dirname(metaPath), metaRoot),
+      ]);
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      const sourcePath = getObjectPath(sourceKey);
+      const destinationPath = getObjectPath(destinationKey);
+      const destinationMetaPath = getMetaPath(destinationKey);
+      const meta = await readMeta(sourceKey);
+
+      await Promise.all([
+        mkdir(path.dirname(destinationPath), { recursive: true }),
+        mkdir(path.dirname(destinationMetaPath), { recursive: true }),
+      ]);
+      await copyFile(sourcePath, destinationPath);
+      await writeFile(destinationMetaPath, JSON.stringify(meta));
+    },
+
+    getPublicUrl(key) {
+      return joinPublicUrl(publicUrlBase, key);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import {
+  assertSafeObjectKey,
+  joinPublicUrl,
+  paginateObjects,
+  type StorageBackend,
+  type StoredObjectWithBody,
+} from './storage';
+
+function cloneObject(object: StoredObjectWithBody): StoredObjectWithBody {
+  return {
+    ...object,
+    body: Buffer.from(object.body),
+    metadata: { ...object.metadata },
+  };
+}
+
+/**
+ * Keeps every object in process memory. Nothing survives a restart, which is
+ * exactly what tests and throwaway dev sessions want.
+ */
+export function createMemoryStorageBackend(publicUrlBase: string): StorageBackend {
+  const objects = new Map<string, StoredObjectWithBody>();
+
+  return {
+    driver: 'memory',
+
+    async putObject({ key, body, contentType, metadata = {} }) {
+      objects.set(assertSafeObjectKey(key), {
+        key,
+        body: Buffer.from(body),
+        size: body.length,
+        lastModified: new Date(),
+        contentType,
+        metadata: { ...metadata },
+      });
+    },
+
+    async getObject(key) {
+      const object = objects.get(key);
+      return object ? cloneObject(object) : null;
+    },
+
+    async headObject(key) {
+      const object = objects.get(key);
+      if (!object) {
+        return null;
+      }
+
+      const { body: _body, ...rest } = cloneObject(object);
+      return rest;
+    },
+
+    async readObjectBytes(key, length) {
+      const object = objects.get(key);
+      return object ? Buffer.from(object.body.subarray(0, length)) : null;
+    },
+
+    async listObjects(input) {
+      return paginateObjects(
+        [...objects.values()].map(({ body: _body, ...rest }) => ({
+          ...rest,
+          metadata: { ...rest.metadata },
+        })),
+        input
+      );
+    },
+
+    async deleteObject(key) {
+      objects.delete(key);
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      const source = objects.get(sourceKey);
+      if (!source) {
+        throw new Error(`Object not found: ${sourceKey}`);
+      }
+
+      objects.set(assertSafeObjectKey(destinationKey), {
+        ...cloneObject(source),
+        key: destinationKey,
+        lastModified: new Date(),
+      });
+    },
+
+    getPublicUrl(key) {
+      return joinPublicUrl(publicUrlBase, key);
+    },
+  };
+}
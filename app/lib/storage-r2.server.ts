@@ -0,0 +1,352 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+import {
+  MAX_LIST_KEYS,
+  encodeObjectKey,
+  joinPublicUrl,
+  type PendingMultipartUpload,
+  type StorageBackend,
+} from './storage';
+
+type RequiredEnvKey =
+  | 'R2_ACCESS_KEY_ID'
+  | 'R2_SECRET_ACCESS_KEY'
+  | 'R2_BUCKET_NAME'
+  | 'R2_PRIVATE_BUCKET_NAME'
+  | 'R2_ENDPOINT'
+  | 'R2_PUBLIC_URL';
+
+function getRequiredEnv(key: RequiredEnvKey): string {
+  const value = process.env[key]?.trim();
+
+  if (!value) {
+    throw new Error(`${key} is not configured`);
+  }
+
+  return value;
+}
+
+function isNotFoundError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const candidate = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return (
+    candidate.name === 'NotFound' ||
+    candidate.name === 'NoSuchKey' ||
+    candidate.$metadata?.httpStatusCode === 404
+  );
+}
+
+/** `bucketEnvKey` names the variable holding the bucket, so private images can live in a second one. */
+export function createR2StorageBackend(
+  bucketEnvKey: 'R2_BUCKET_NAME' | 'R2_PRIVATE_BUCKET_NAME' = 'R2_BUCKET_NAME'
+): StorageBackend {
+  let client: S3Client | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new S3Client({
+        region: process.env.R2_REGION?.trim() || 'auto',
+        endpoint: getRequiredEnv('R2_ENDPOINT'),
+        credentials: {
+          accessKeyId: getRequiredEnv('R2_ACCESS_KEY_ID'),
+          secretAccessKey: getRequiredEnv('R2_SECRET_ACCESS_KEY'),
+        },
+        forcePathStyle: true,
+      });
+    }
+
+    return client;
+  };
+
+  const getBucketName = () => getRequiredEnv(bucketEnvKey);
+
+  return {
+    driver: 'r2',
+
+    async putObject({ key, body, contentType, cacheControl, metadata }) {
+      await getClient().send(
+        new PutObjectCommand({
+          Bucket: getBucketName(),
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          CacheControl: cacheControl,
+          Metadata: metadata,
+        })
+      );
+    },
+
+    async getObject(key) {
+      try {
+        const result = await getClient().send(
+          new GetObjectCommand({
+            Bucket: getBucketName(),
+            Key: key,
+          })
+        );
+        const body = Buffer.from((await result.Body?.transformToByteArray()) ?? []);
+
+        return {
+          key,
+          body,
+          size: result.ContentLength ?? body.length,
+          lastModified: result.LastModified || new Date(),
+          contentType: result.ContentType || null,
+          metadata: result.Metadata || {},
+        };
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async headObject(key) {
+      try {
+        const result = await getClient().send(
+          new HeadObjectCommand({
+            Bucket: getBucketName(),
+            Key: key,
+          })
+        );
+
+        return {
+          key,
+          size: result.ContentLength || 0,
+          lastModified: result.LastModified || new Date(),
+          contentType: result.ContentType || null,
+          metadata: result.Metadata || {},
+        };
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async readObjectBytes(key, length) {
+      try {
+        const result = await getClient().send(
+          new GetObjectCommand({
+            Bucket: getBucketName(),
+            Key: key,
+            Range: `bytes=0-${Math.max(length, 1) - 1}`,
+          })
+        );
+
+        return Buffer.from((await result.Body?.transformToByteArray()) ?? []);
+      } catch (error) {
+        // An empty object can't satisfy any range; treat it as zero bytes.
+        if ((error as { name?: string } | null)?.name === 'InvalidRange') {
+          return Buffer.alloc(0);
+        }
+
+        if (isNotFoundError(error)) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async listObjects({ prefix, maxKeys, cursor, delimiter }) {
+      const result = await getClient().send(
+        new ListObjectsV2Command({
+          Bucket: getBucketName(),
+          Prefix: prefix || undefined,
+          Delimiter: delimiter || undefined,
+          MaxKeys: Math.min(Math.max(maxKeys, 1), MAX_LIST_KEYS),
+          ContinuationToken: cursor || undefined,
+        })
+      );
+
+      return {
+        objects: (result.Contents || [])
+          .filter((object): object is typeof object & { Key: string } => Boolean(object.Key))
+          .map((object) => ({
+            key: object.Key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(),
+            contentType: null,
+            metadata: {},
+          })),
+        prefixes: (result.CommonPrefixes || [])
+          .map((commonPrefix) => commonPrefix.Prefix)
+          .filter((value): value is string => Boolean(value)),
+        nextCursor: result.NextContinuationToken || null,
+        hasMore: Boolean(result.IsTruncated && result.NextContinuationToken),
+      };
+    },
+
+    async deleteObject(key) {
+      await getClient().send(
+        new DeleteObjectCommand({
+          Bucket: getBucketName(),
+          Key: key,
+        })
+      );
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      const bucket = getBucketName();
+
+      await getClient().send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          Key: destinationKey,
+          CopySource: `${bucket}/${encodeObjectKey(sourceKey)}`,
+          MetadataDirective: 'COPY',
+        })
+      );
+    },
+
+    getPublicUrl(key) {
+      return joinPublicUrl(getRequiredEnv('R2_PUBLIC_URL'), key);
+    },
+
+    async createPresignedDownload({ key, expiresInSeconds }) {
+      return getSignedUrl(getClient(), new GetObjectCommand({ Bucket: getBucketName(), Key: key }), {
+        expiresIn: expiresInSeconds,
+      });
+    },
+
+    async createPresignedUpload({ key, contentType, cacheControl, expiresInSeconds }) {
+      const url = await getSignedUrl(
+        getClient(),
+        new PutObjectCommand({
+          Bucket: getBucketName(),
+          Key: key,
+          ContentType: contentType,
+          CacheControl: cacheControl,
+        }),
+        { expiresIn: expiresInSeconds }
+      );
+
+      // Signed headers: the browser must send exactly these or R2 rejects the PUT.
+      return {
+        url,
+        method: 'PUT',
+        headers: {
+          'Content-Type': contentType,
+          ...(cacheControl ? { 'Cache-Control': cacheControl } : {}),
+        },
+      };
+    },
+
+    multipart: {
+      async create({ key, contentType, cacheControl }) {
+        const result = await getClient().send(
+          new CreateMultipartUploadCommand({
+            Bucket: getBucketName(),
+            Key: key,
+            ContentType: contentType,
+            CacheControl: cacheControl,
+          })
+        );
+
+        if (!result.UploadId) {
+          throw new Error('Storage did not return an upload ID');
+        }
+
+        return result.UploadId;
+      },
+
+      async presignPart({ key, uploadId, partNumber, expiresInSeconds }) {
+        const url = await getSignedUrl(
+          getClient(),
+          new UploadPartCommand({
+            Bucket: getBucketName(),
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+          }),
+          { expiresIn: expiresInSeconds }
+        );
+
+        return { url, method: 'PUT', headers: {} };
+      },
+
+      async complete({ key, uploadId, parts }) {
+        await getClient().send(
+          new CompleteMultipartUploadCommand({
+            Bucket: getBucketName(),
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+              Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+            },
+          })
+        );
+      },
+
+      async abort({ key, uploadId }) {
+        try {
+          await getClient().send(
+            new AbortMultipartUploadCommand({
+              Bucket: getBucketName(),
+              Key: key,
+              UploadId: uploadId,
+            })
+          );
+        } catch (error) {
+          if ((error as { name?: string } | null)?.name !== 'NoSuchUpload' && !isNotFoundError(error)) {
+            throw error;
+          }
+        }
+      },
+
+      async list(prefix) {
+        const uploads: PendingMultipartUpload[] = [];
+        let keyMarker: string | undefined;
+        let uploadIdMarker: string | undefined;
+
+        do {
+          const result = await getClient().send(
+            new ListMultipartUploadsCommand({
+              Bucket: getBucketName(),
+              Prefix: prefix,
+              KeyMarker: keyMarker,
+              UploadIdMarker: uploadIdMarker,
+            })
+          );
+
+          for (const upload of result.Uploads || []) {
+            if (upload.Key && upload.UploadId) {
+              uploads.push({
+                key: upload.Key,
+                uploadId: upload.UploadId,
+                initiatedAt: upload.Initiated || new Date(),
+              });
+            }
+          }
+
+          keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+          uploadIdMarker = result.IsTruncated ? result.NextUploadIdMarker : undefined;
+        } while (keyMarker);
+
+        return uploads;
+      },
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import type { ListObjectsInput, StorageBackend } from './storage';
+
+type Side = 'public' | 'private';
+
+const CURSOR_SEPARATOR = ':';
+
+function missingPrivateStorage(): never {
+  throw new Error('Private storage is not configured (R2_PRIVATE_BUCKET_NAME)');
+}
+
+/** Cursors are `<side>:<cursor of that side>`; an empty cursor starts the side from the top. */
+function parseCursor(cursor: string | null | undefined): { side: Side | null; token: string | null } {
+  const separatorIndex = cursor?.indexOf(CURSOR_SEPARATOR) ?? -1;
+  if (!cursor || separatorIndex === -1) {
+    return { side: null, token: null };
+  }
+
+  return { side: cursor.slice(0, separatorIndex) as Side, token: cursor.slice(separatorIndex + 1) || null };
+}
+
+/**
+ * Keeps private objects in a second backend that the public URL base never
+ * serves, e.g. a bucket without a public domain. `isPrivateKey` decides where
+ * each key lives. Without a private backend, private keys read as missing and
+ * writing one fails, so nothing private ever lands in the public store.
+ *
+ * Listings that can span both stores (the root, or a hidden prefix such as
+ * `.trash/`) page through the public side first, then the private one; keys
+ * are only sorted within each side.
+ */
+export function createSplitStorageBackend(
+  publicBackend: StorageBackend,
+  privateBackend: StorageBackend | null,
+  isPrivateKey: (key: string) => boolean
+): StorageBackend {
+  const getSide = (key: string): Side => (isPrivateKey(key) ? 'private' : 'public');
+  const getBackend = (side: Side) => (side === 'public' ? publicBackend : privateBackend);
+  const getKeyBackend = (key: string) => getBackend(getSide(key)) ?? missingPrivateStorage();
+
+  const getMultipart = (key: string) => {
+    const backend = getKeyBackend(key);
+    if (!backend.multipart) {
+      throw new Error(`Multipart uploads are not supported by the ${backend.driver} storage driver`);
+    }
+
+    return backend.multipart;
+  };
+
+  // Private keys all start with a dot (`.private/`, `.variants/…/.private/`, `.trash/…/.private/`).
+  const getListSides = (prefix = ''): Side[] => {
+    if (isPrivateKey(prefix)) {
+      return ['private'];
+    }
+
+    return prefix && !prefix.startsWith('.') ? ['public'] : ['public', 'private'];
+  };
+
+  const listSide = async (side: Side, input: ListObjectsInput) => {
+    const backend = getBackend(side);
+    if (!backend) {
+      return { objects: [], prefixes: [], nextCursor: null, hasMore: false };
+    }
+
+    return backend.listObjects(input);
+  };
+
+  return {
+    driver: publicBackend.driver,
+
+    async putObject(input) {
+      await getKeyBackend(input.key).putObject(input);
+    },
+
+    async getObject(key) {
+      return (await getBackend(getSide(key))?.getObject(key)) ?? null;
+    },
+
+    async headObject(key) {
+      return (await getBackend(getSide(key))?.headObject(key)) ?? null;
+    },
+
+    async readObjectBytes(key, length) {
+      return (await getBackend(getSide(key))?.readObjectBytes(key, length)) ?? null;
+    },
+
+    async listObjects(input) {
+      const sides = getListSides(input.prefix);
+      const cursor = parseCursor(input.cursor);
+      const index = cursor.side ? Math.max(sides.indexOf(cursor.side), 0) : 0;
+      const side = sides[index];
+      const result = await listSide(side, { ...input, cursor: cursor.token });
+
+      if (result.hasMore && result.nextCursor) {
+        return { ...result, nextCursor: `${side}${CURSOR_SEPARATOR}${result.nextCursor}` };
+      }
+
+      const next = sides[index + 1];
+      return next && getBackend(next)
+        ? { ...result, nextCursor: `${next}${CURSOR_SEPARATOR}`, hasMore: true }
+        : { ...result, nextCursor: null, hasMore: false };
+    },
+
+    async deleteObject(key) {
+      await getBackend(getSide(key))?.deleteObject(key);
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      const from = getKeyBackend(sourceKey);
+      const to = getKeyBackend(destinationKey);
+      if (from === to) {
+        await from.copyObject(sourceKey, destinationKey);
+        return;
+      }
+
+      const source = await from.getObject(sourceKey);
+      if (!source) {
+        throw new Error(`Object not found: ${sourceKey}`);
+      }
+
+      await to.putObject({
+        key: destinationKey,
+        body: source.body,
+        contentType: source.contentType || 'application/octet-stream',
+        metadata: source.metadata,
+      });
+    },
+
+    getPublicUrl(key) {
+      return publicBackend.getPublicUrl(key);
+    },
+
+    // Private direct uploads are staged under a private key, so each upload stays on one side.
+    createPresignedUpload: publicBackend.createPresignedUpload
+      ? async (input) => {
+          const backend = getKeyBackend(input.key);
+          if (!backend.createPresignedUpload) {
+            throw new Error(`Presigned uploads are not supported by the ${backend.driver} storage driver`);
+          }
+
+          return backend.createPresignedUpload(input);
+        }
+      : undefined,
+
+    createPresignedDownload: publicBackend.createPresignedDownload
+      ? async (input) => {
+          const backend = getKeyBackend(input.key);
+          if (!backend.createPresignedDownload) {
+            throw new Error(`Presigned downloads are not supported by the ${backend.driver} storage driver`);
+          }
+
+          return backend.createPresignedDownload(input);
+        }
+      : undefined,
+
+    multipart: publicBackend.multipart
+      ? {
+          create: (input) => getMultipart(input.key).create(input),
+          presignPart: (input) => getMultipart(input.key).presignPart(input),
+          complete: (input) => getMultipart(input.key).complete(input),
+          abort: (input) => getMultipart(input.key).abort(input),
+          async list(prefix) {
+            const sides = getListSides(prefix).flatMap((side) => getBackend(side)?.multipart ?? []);
+            return (await Promise.all(sides.map((multipart) => multipart.list(prefix)))).flat();
+          },
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,66 @@
+import path from 'node:path';
+
+import { isPrivateObjectKey } from './image-visibility';
+import { parseStorageDriver, type StorageBackend } from './storage';
+import { createLocalStorageBackend } from './storage-local.server';
+import { createMemoryStorageBackend } from './storage-memory.server';
+import { createR2StorageBackend } from './storage-r2.server';
+import { createSplitStorageBackend } from './storage-split.server';
+
+const DEFAULT_LOCAL_ROOT = '.data/storage';
+const DEFAULT_LOCAL_PUBLIC_URL = '/files';
+
+let storageBackendSingleton: StorageBackend | null = null;
+
+function getLocalPublicUrlBase(): string {
+  return process.env.STORAGE_PUBLIC_URL?.trim() || DEFAULT_LOCAL_PUBLIC_URL;
+}
+
+function hasPrivateBucket(): boolean {
+  return Boolean(process.env.R2_PRIVATE_BUCKET_NAME?.trim());
+}
+
+/**
+ * Private images and everything derived from them live apart from the public
+ * objects: in `R2_PRIVATE_BUCKET_NAME` on R2, which must not have a public
+ * domain, and under `<STORAGE_LOCAL_ROOT>/private` for the local driver.
+ */
+function createStorageBackend(): StorageBackend {
+  const driver = parseStorageDriver(process.env.STORAGE_DRIVER);
+
+  if (driver === 'local') {
+    const root = process.env.STORAGE_LOCAL_ROOT?.trim() || DEFAULT_LOCAL_ROOT;
+    return createSplitStorageBackend(
+      createLocalStorageBackend(root, getLocalPublicUrlBase()),
+      createLocalStorageBackend(path.join(root, 'private'), getLocalPublicUrlBase()),
+      isPrivateObjectKey
+    );
+  }
+
+  if (driver === 'memory') {
+    return createSplitStorageBackend(
+      createMemoryStorageBackend(getLocalPublicUrlBase()),
+      createMemoryStorageBackend(getLocalPublicUrlBase()),
+      isPrivateObjectKey
+    );
+  }
+
+  return createSplitStorageBackend(
+    createR2StorageBackend(),
+    hasPrivateBucket() ? createR2StorageBackend('R2_PRIVATE_BUCKET_NAME') : null,
+    isPrivateObjectKey
+  );
+}
+
+/** Whether images can be made private: R2 needs a second bucket for them. */
+export function isPrivateStorageConfigured(): boolean {
+  return parseStorageDriver(process.env.STORAGE_DRIVER) !== 'r2' || hasPrivateBucket();
+}
+
+export function getStorageBackend(): StorageBackend {
+  if (!storageBackendSingleton) {
+    storageBackendSingleton = createStorageBackend();
+  }
+
+  return storageBackendSingleton;
+}
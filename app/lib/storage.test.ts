@@ -0,0 +1,229 @@
+import { afterEach, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  assertSafeObjectKey,
+  joinPublicUrl,
+  paginateObjects,
+  parseStorageDriver,
+  type StorageBackend,
+  type StoredObject,
+} from './storage';
+import { createLocalStorageBackend } from './storage-local.server';
+import { createMemoryStorageBackend } from './storage-memory.server';
+import { createSplitStorageBackend } from './storage-split.server';
+
+function createObject(key: string): StoredObject {
+  return {
+    key,
+    size: 1,
+    lastModified: new Date(0),
+    contentType: null,
+    metadata: {},
+  };
+}
+
+describe('parseStorageDriver', () => {
+  it('defaults to r2', () => {
+    assert.equal(parseStorageDriver(undefined), 'r2');
+    assert.equal(parseStorageDriver(' Local '), 'local');
+  });
+
+  it('rejects unknown drivers', () => {
+    assert.throws(() => parseStorageDriver('ftp'), /Unsupported STORAGE_DRIVER/);
+  });
+});
+
+describe('assertSafeObjectKey', () => {
+  it('rejects traversal and absolute keys', () => {
+    assert.throws(() => assertSafeObjectKey('../secret'));
+    assert.throws(() => assertSafeObjectKey('/etc/passwd'));
+    assert.throws(() => assertSafeObjectKey('a/./b'));
+    assert.equal(assertSafeObjectKey('album/photo.png'), 'album/photo.png');
+  });
+});
+
+describe('joinPublicUrl', () => {
+  it('encodes key segments and trims the base', () => {
+    assert.equal(joinPublicUrl('https://cdn.example.com/', 'a b/c#d.png'), 'https://cdn.example.com/a%20b/c%23d.png');
+  });
+});
+
+describe('paginateObjects', () => {
+  const objects = ['c.png', 'a.png', 'dir/b.png', 'b.png'].map(createObject);
+
+  it('sorts keys and continues after the cursor', () => {
+    const first = paginateObjects(objects, { maxKeys: 2 });
+    assert.deepEqual(first.objects.map((object) => object.key), ['a.png', 'b.png']);
+    assert.equal(first.hasMore, true);
+
+    const second = paginateObjects(objects, { maxKeys: 2, cursor: first.nextCursor });
+    assert.deepEqual(second.objects.map((object) => object.key), ['c.png', 'dir/b.png']);
+    assert.equal(second.hasMore, false);
+    assert.equal(second.nextCursor, null);
+  });
+
+  it('groups keys into common prefixes with a delimiter', () => {
+    const grouped = ['a.png', 'dir/b.png', 'dir/sub/c.png', 'other/d.png'].map(createObject);
+    const first = paginateObjects(grouped, { maxKeys: 2, delimiter: '/' });
+
+    assert.deepEqual(first.objects.map((object) => object.key), ['a.png']);
+    assert.deepEqual(first.prefixes, ['dir/']);
+
+    const second = paginateObjects(grouped, { maxKeys: 2, delimiter: '/', cursor: first.nextCursor });
+    assert.deepEqual(second.prefixes, ['other/']);
+    assert.equal(second.hasMore, false);
+
+    const nested = paginateObjects(grouped, { prefix: 'dir/', maxKeys: 10, delimiter: '/' });
+    assert.deepEqual(nested.objects.map((object) => object.key), ['dir/b.png']);
+    assert.deepEqual(nested.prefixes, ['dir/sub/']);
+  });
+
+  it('filters by prefix', () => {
+    const result = paginateObjects(objects, { prefix: 'dir/', maxKeys: 10 });
+    assert.deepEqual(result.objects.map((object) => object.key), ['dir/b.png']);
+  });
+});
+
+async function exerciseBackend(backend: StorageBackend) {
+  await backend.putObject({
+    key: 'album/one.png',
+    body: Buffer.from('one'),
+    contentType: 'image/png',
+    metadata: { source: 'test' },
+  });
+  await backend.putObject({
+    key: 'two.png',
+    body: Buffer.from('two!'),
+    contentType: 'image/png',
+  });
+
+  const object = await backend.getObject('album/one.png');
+  assert.equal(object?.body.toString(), 'one');
+  assert.equal(object?.contentType, 'image/png');
+  assert.deepEqual(object?.metadata, { source: 'test' });
+
+  const head = await backend.headObject('two.png');
+  assert.equal(head?.size, 4);
+  assert.equal((await backend.readObjectBytes('two.png', 2))?.toString(), 'tw');
+  assert.equal((await backend.readObjectBytes('two.png', 100))?.toString(), 'two!');
+  assert.equal(await backend.readObjectBytes('missing.png', 2), null);
+
+  const listed = await backend.listObjects({ maxKeys: 10 });
+  assert.deepEqual(listed.objects.map((item) => item.key), ['album/one.png', 'two.png']);
+
+  await backend.copyObject('album/one.png', 'copy/one.png');
+  assert.equal((await backend.getObject('copy/one.png'))?.body.toString(), 'one');
+  assert.equal((await backend.headObject('copy/one.png'))?.contentType, 'image/png');
+
+  const grouped = await backend.listObjects({ maxKeys: 10, delimiter: '/' });
+  assert.deepEqual(grouped.prefixes, ['album/', 'copy/']);
+
+  await backend.deleteObject('copy/one.png');
+  await backend.deleteObject('album/one.png');
+  assert.equal(await backend.getObject('album/one.png'), null);
+  assert.equal(await backend.headObject('missing.png'), null);
+  assert.equal(backend.getPublicUrl('two.png'), '/files/two.png');
+}
+
+describe('memory storage backend', () => {
+  it('stores, lists and deletes objects', async () => {
+    await exerciseBackend(createMemoryStorageBackend('/files'));
+  });
+});
+
+describe('local storage backend', () => {
+  let root: string | null = null;
+
+  afterEach(async () => {
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+      root = null;
+    }
+  });
+
+  it('stores, lists and deletes objects', async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'lightframe-storage-'));
+    await exerciseBackend(createLocalStorageBackend(root, '/files'));
+  });
+});
+
+describe('split storage backend', () => {
+  const isPrivateKey = (key: string) => key.split('/').includes('.private');
+
+  it('keeps private keys out of the public backend', async () => {
+    const publicBackend = createMemoryStorageBackend('/files');
+    const privateBackend = createMemoryStorageBackend('/files');
+    const backend = createSplitStorageBackend(publicBackend, privateBackend, isPrivateKey);
+    const body = Buffer.from('secret');
+
+    await backend.putObject({ key: 'album/a.png', body, contentType: 'image/png' });
+    await backend.copyObject('album/a.png', '.private/album/a.png');
+    await backend.copyObject('.private/album/a.png', '.trash/1/.private/album/a.png');
+    await backend.deleteObject('album/a.png');
+
+    assert.deepEqual((await publicBackend.listObjects({ maxKeys: 10 })).objects, []);
+    assert.equal((await backend.getObject('.private/album/a.png'))?.contentType, 'image/png');
+    assert.equal((await privateBackend.headObject('.trash/1/.private/album/a.png'))?.size, body.length);
+  });
+
+  it('pages through both backends for prefixes that can hold private keys', async () => {
+    const backend = createSplitStorageBackend(
+      createMemoryStorageBackend('/files'),
+      createMemoryStorageBackend('/files'),
+      isPrivateKey
+    );
+    for (const key of ['a.png', '.trash/1/b.png', '.private/c.png', '.trash/2/.private/d.png']) {
+      await backend.putObject({ key, body: Buffer.from(key), contentType: 'image/png' });
+    }
+
+    const listAll = async (prefix: string) => {
+      const keys: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const result = await backend.listObjects({ prefix, maxKeys: 1, cursor });
+        keys.push(...result.objects.map((object) => object.key));
+        cursor = result.hasMore ? result.nextCursor : null;
+      } while (cursor);
+
+      return keys;
+    };
+
+    assert.deepEqual(await listAll(''), ['.trash/1/b.png', 'a.png', '.private/c.png', '.trash/2/.private/d.png']);
+    assert.deepEqual(await listAll('.trash/'), ['.trash/1/b.png', '.trash/2/.private/d.png']);
+    assert.deepEqual(await listAll('.private/'), ['.private/c.png']);
+    assert.deepEqual(await listAll('album/'), []);
+  });
+
+  it('presigns uploads against the backend that will hold the key', async () => {
+    const presignedBy = (name: string): StorageBackend => ({
+      ...createMemoryStorageBackend('/files'),
+      createPresignedUpload: async ({ key }) => ({ url: `${name}://${key}`, method: 'PUT', headers: {} }),
+    });
+    const backend = createSplitStorageBackend(presignedBy('public'), presignedBy('private'), isPrivateKey);
+    const presign = async (key: string) =>
+      (await backend.createPresignedUpload?.({ key, contentType: 'image/png', expiresInSeconds: 60 }))?.url;
+
+    assert.equal(await presign('.uploads/1'), 'public://.uploads/1');
+    assert.equal(await presign('.uploads/.private/2'), 'private://.uploads/.private/2');
+  });
+
+  it('refuses to store private keys without a private backend', async () => {
+    const publicBackend = createMemoryStorageBackend('/files');
+    const backend = createSplitStorageBackend(publicBackend, null, isPrivateKey);
+    await backend.putObject({ key: 'a.png', body: Buffer.from('a'), contentType: 'image/png' });
+
+    await assert.rejects(
+      backend.putObject({ key: '.private/a.png', body: Buffer.from('a'), contentType: 'image/png' }),
+      /not configured/
+    );
+    await assert.rejects(backend.copyObject('a.png', '.private/a.png'), /not configured/);
+    assert.equal(await backend.getObject('.private/a.png'), null);
+    assert.deepEqual(
+      (await backend.listObjects({ maxKeys: 10 })).objects.map((object) => object.key),
+      ['a.png']
+    );
+  });
+});
@@ -0,0 +1,182 @@
+export type StorageDriver = 'r2' | 'local' | 'memory';
+
+export const STORAGE_DRIVERS: StorageDriver[] = ['r2', 'local', 'memory'];
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface StoredObjectWithBody extends StoredObject {
+  body: Buffer;
+}
+
+export interface PutObjectInput {
+  key: string;
+  body: Buffer;
+  contentType: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PresignedUploadInput {
+  key: string;
+  contentType: string;
+  cacheControl?: string;
+  expiresInSeconds: number;
+}
+
+export interface PresignedDownloadInput {
+  key: string;
+  expiresInSeconds: number;
+}
+
+/** A request the browser can send straight to the bucket, bypassing the app server. */
+export interface PresignedUpload {
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface PendingMultipartUpload {
+  key: string;
+  uploadId: string;
+  initiatedAt: Date;
+}
+
+/** S3-style multipart uploads whose parts the browser PUTs directly. */
+export interface MultipartUploadOperations {
+  create(input: { key: string; contentType: string; cacheControl?: string }): Promise<string>;
+  presignPart(input: {
+    key: string;
+    uploadId: string;
+    partNumber: number;
+    expiresInSeconds: number;
+  }): Promise<PresignedUpload>;
+  complete(input: { key: string; uploadId: string; parts: UploadedPart[] }): Promise<void>;
+  abort(input: { key: string; uploadId: string }): Promise<void>;
+  list(prefix: string): Promise<PendingMultipartUpload[]>;
+}
+
+export interface ListObjectsInput {
+  prefix?: string;
+  maxKeys: number;
+  cursor?: string | null;
+  delimiter?: string;
+}
+
+export interface ListObjectsResult {
+  objects: StoredObject[];
+  prefixes: string[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+  putObject(input: PutObjectInput): Promise<void>;
+  getObject(key: string): Promise<StoredObjectWithBody | null>;
+  headObject(key: string): Promise<StoredObject | null>;
+  /** Reads at most `length` bytes from the start of the object, e.g. to sniff its type. */
+  readObjectBytes(key: string, length: number): Promise<Buffer | null>;
+  listObjects(input: ListObjectsInput): Promise<ListObjectsResult>;
+  deleteObject(key: string): Promise<void>;
+  copyObject(sourceKey: string, destinationKey: string): Promise<void>;
+  getPublicUrl(key: string): string;
+  /** Only implemented by backends the browser can upload to directly. */
+  createPresignedUpload?(input: PresignedUploadInput): Promise<PresignedUpload>;
+  /** A time-limited GET URL for an object the public base must not serve; R2 only. */
+  createPresignedDownload?(input: PresignedDownloadInput): Promise<string>;
+  multipart?: MultipartUploadOperations;
+}
+
+export const MAX_LIST_KEYS = 1000;
+
+export function parseStorageDriver(value: string | null | undefined): StorageDriver {
+  const normalized = value?.trim().toLowerCase() || 'r2';
+
+  if (!STORAGE_DRIVERS.includes(normalized as StorageDriver)) {
+    throw new Error(`Unsupported STORAGE_DRIVER: ${value}`);
+  }
+
+  return normalized as StorageDriver;
+}
+
+export function encodeObjectKey(key: string): string {
+  return key
+    .split('/')
+    .map((segment) => encodeURIComponent(segment))
+    .join('/');
+}
+
+export function joinPublicUrl(base: string, key: string): string {
+  return `${base.replace(/\/+$/, '')}/${encodeObjectKey(key)}`;
+}
+
+export function assertSafeObjectKey(key: string): string {
+  const segments = key.split('/');
+
+  if (
+    !key ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    key.includes('\0') ||
+    segments.some((segment) => segment === '.' || segment === '..')
+  ) {
+    throw new Error(`Invalid object key: ${key}`);
+  }
+
+  return key;
+}
+
+/**
+ * Pages through objects the way ListObjectsV2 does: lexicographic key order,
+ * prefix filtering, optional delimiter grouping into common prefixes, and the
+ * last returned entry as the continuation cursor. Used by the adapters that
+ * keep their objects in process or on disk.
+ */
+export function paginateObjects(
+  objects: StoredObject[],
+  { prefix = '', maxKeys, cursor, delimiter }: ListObjectsInput
+): ListObjectsResult {
+  const limit = Math.min(Math.max(maxKeys, 1), MAX_LIST_KEYS);
+  const entries = new Map<string, StoredObject | null>();
+
+  objects
+    .filter((object) => object.key.startsWith(prefix))
+    .forEach((object) => {
+      const delimiterIndex = delimiter
+        ? object.key.indexOf(delimiter, prefix.length)
+        : -1;
+
+      if (!delimiter || delimiterIndex === -1) {
+        entries.set(object.key, object);
+        return;
+      }
+
+      entries.set(object.key.slice(0, delimiterIndex + delimiter.length), null);
+    });
+
+  const matching = [...entries.keys()]
+    .filter((key) => !cursor || key > cursor)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const page = matching.slice(0, limit);
+  const hasMore = matching.length > limit;
+
+  return {
+    objects: page
+      .map((key) => entries.get(key))
+      .filter((object): object is StoredObject => Boolean(object)),
+    prefixes: page.filter((key) => entries.get(key) === null),
+    nextCursor: hasMore ? page[page.length - 1] : null,
+    hasMore,
+  };
+}
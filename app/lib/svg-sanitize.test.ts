@@ -0,0 +1,74 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { sanitizeSvg } from './svg-sanitize';
+
+describe('sanitizeSvg', () => {
+  it('keeps ordinary drawing markup', () => {
+    const result = sanitizeSvg(
+      '<?xml version="1.0"?><svg viewBox="0 0 10 10"><defs><linearGradient id="g"><stop offset="0"/></linearGradient></defs><rect width="10" height="10" fill="url(#g)"/></svg>'
+    );
+
+    assert.equal(
+      result,
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10"><defs><linearGradient id="g"><stop offset="0"/></linearGradient></defs><rect width="10" height="10" fill="url(#g)"/></svg>'
+    );
+  });
+
+  it('strips scripts, event handlers and foreign objects', () => {
+    const result = sanitizeSvg(
+      '<svg onload="alert(1)"><script>alert(1)</script><foreignObject><iframe src="https://evil.test"></iframe></foreignObject><circle r="2" ONCLICK="x()"/><set attributeName="href" to="javascript:alert(1)"/></svg>'
+    );
+
+    assert.doesNotMatch(result, /script|onload|onclick|foreignObject|iframe|<set|javascript/i);
+    assert.match(result, /<circle r="2"\/>/);
+  });
+
+  it('drops external references but keeps fragment links and inline rasters', () => {
+    const result = sanitizeSvg(
+      '<svg><use href="#a"/><use xlink:href="https://evil.test/x.svg#a"/><image href="data:image/png;base64,AAAA"/><image href="data:image/svg+xml;base64,AAAA"/><rect style="fill:url(https://evil.test/a)"/><path href="&#106;avascript:alert(1)"/></svg>'
+    );
+
+    assert.match(result, /<use href="#a"\/>/);
+    assert.match(result, /<image href="data:image\/png;base64,AAAA"\/>/);
+    assert.doesNotMatch(result, /evil\.test|svg\+xml|javascript/);
+  });
+
+  it('removes doctype entities and unsafe style sheets', () => {
+    const result = sanitizeSvg(
+      '<!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><svg><style>@import url(https://evil.test/x.css);</style><style><![CDATA[.a{fill:red}]]></style><text>&amp; fine</text></svg>'
+    );
+
+    assert.doesNotMatch(result, /ENTITY|@import|evil/);
+    assert.match(result, /<style>\.a\{fill:red\}<\/style>/);
+    assert.match(result, /<text>&amp; fine<\/text>/);
+  });
+
+  it('sees through CSS escapes and string-based image functions', () => {
+    const payloads = [
+      'fill:u\\72l(https://evil.test/x)',
+      '@im\\70 ort "https://evil.test/x";',
+      'fill:image-set("https://evil.test/x" 1x)',
+      'fill:-webkit-image-set("https://evil.test/x" 1x)',
+      'fill:src("https://evil.test/x")',
+    ];
+
+    for (const payload of payloads) {
+      const result = sanitizeSvg(`<svg><style>.a{${payload}}</style><rect style='${payload}'/></svg>`);
+      assert.doesNotMatch(result, /evil\.test/, payload);
+    }
+
+    assert.match(sanitizeSvg('<svg><rect style="fill:url(\\#g)"/></svg>'), /style="fill:url\(\\#g\)"/);
+  });
+
+  it('ignores anything after the root element and closes unterminated elements', () => {
+    assert.equal(
+      sanitizeSvg('<svg><g><path d="M0 0"/></svg><script>alert(1)</script>'),
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><g><path d="M0 0"/></g></svg>'
+    );
+  });
+
+  it('rejects documents without an svg root', () => {
+    assert.throws(() => sanitizeSvg('<html><svg></svg></html>'), /Invalid SVG/);
+    assert.throws(() => sanitizeSvg('plain text'), /Invalid SVG/);
+  });
+});
@@ -0,0 +1,287 @@
+const ALLOWED_ELEMENTS = new Set(
+  [
+    'svg',
+    'g',
+    'defs',
+    'symbol',
+    'use',
+    'switch',
+    'view',
+    'title',
+    'desc',
+    'metadata',
+    'style',
+    'path',
+    'rect',
+    'circle',
+    'ellipse',
+    'line',
+    'polyline',
+    'polygon',
+    'text',
+    'tspan',
+    'textPath',
+    'image',
+    'marker',
+    'pattern',
+    'clipPath',
+    'mask',
+    'linearGradient',
+    'radialGradient',
+    'stop',
+    'filter',
+    'feBlend',
+    'feColorMatrix',
+    'feComponentTransfer',
+    'feComposite',
+    'feConvolveMatrix',
+    'feDiffuseLighting',
+    'feDisplacementMap',
+    'feDistantLight',
+    'feDropShadow',
+    'feFlood',
+    'feFuncA',
+    'feFuncB',
+    'feFuncG',
+    'feFuncR',
+    'feGaussianBlur',
+    'feImage',
+    'feMerge',
+    'feMergeNode',
+    'feMorphology',
+    'feOffset',
+    'fePointLight',
+    'feSpecularLighting',
+    'feSpotLight',
+    'feTile',
+    'feTurbulence',
+  ].map((name) => name.toLowerCase())
+);
+
+const ALLOWED_PREFIXED_ATTRIBUTES = new Set(['xlink:href', 'xlink:title', 'xml:space', 'xml:lang']);
+
+const SAFE_DATA_IMAGE = /^data:image\/(?:png|jpe?g|gif|webp|avif);base64,[a-z0-9+/=\s]*$/i;
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*(?:\[[\s\S]*?\])?\s*>|<\?[\s\S]*?\?>|<\/\s*([A-Za-z_][\w:.-]*)\s*>|<([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>|[^<]+|</g;
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+interface OpenElement {
+  name: string;
+  lowerName: string;
+  kept: boolean;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);?/gi, (match, entity: string) => {
+    const normalized = entity.toLowerCase();
+
+    if (normalized.startsWith('#x')) {
+      return String.fromCodePoint(Number.parseInt(normalized.slice(2), 16) || 0xfffd);
+    }
+
+    if (normalized.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(normalized.slice(1), 10) || 0xfffd);
+    }
+
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[normalized] ?? match;
+  });
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&(?!(?:#x[0-9a-f]+|#\d+|[a-z]+);)/gi, '&amp;').replace(/</g, '&lt;');
+}
+
+/**
+ * Resolves CSS escapes (`\72 ` or `\r` for `r`) and drops comments, so
+ * `u\72l(` or `@im\70 ort` are matched as the `url(` and `@import` the
+ * browser reads them as.
+ */
+function decodeCss(value: string): string {
+  return value
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+    .replace(/\\(?:([0-9a-f]{1,6})[ \t\n\r\f]?|\r\n|([\s\S]))/gi, (_, hex: string | undefined, char = '') =>
+      hex ? String.fromCodePoint(Number.parseInt(hex, 16) || 0xfffd) : /[\r\n\f]/.test(char) ? '' : char
+    );
+}
+
+/**
+ * Only same-document references survive, e.g. `url(#gradient)`. Functions
+ * that load images from a plain string (`image-set("...")`, `src("...")`,
+ * `image("...")`) are rejected outright.
+ */
+function hasExternalReference(value: string): boolean {
+  const compact = decodeCss(value).replace(/[\s\u0000-\u001f]+/g, '').toLowerCase();
+
+  if (
+    compact.includes('image-set(') ||
+    /(?:^|[^a-z0-9_-])(?:src|image)\(/.test(compact) ||
+    compact.includes('javascript:') ||
+    compact.includes('vbscript:') ||
+    compact.includes('expression(') ||
+    compact.includes('@import') ||
+    compact.includes('behavior:') ||
+    compact.includes('-moz-binding')
+  ) {
+    return true;
+  }
+
+  return [...compact.matchAll(/url\(([^)]*)\)/g)].some(
+    ([, target]) => !target.replace(/^['"]|['"]$/g, '').startsWith('#')
+  );
+}
+
+function isSafeHref(elementName: string, value: string): boolean {
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('#')) {
+    return true;
+  }
+
+  return (elementName === 'image' || elementName === 'feimage') && SAFE_DATA_IMAGE.test(trimmed);
+}
+
+function sanitizeAttributes(elementName: string, source: string): string {
+  const attributes: string[] = [];
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1];
+    const lowerName = name.toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? '');
+
+    if (lowerName.startsWith('on')) {
+      continue;
+    }
+
+    if (lowerName === 'xmlns' || lowerName.startsWith('xmlns:')) {
+      continue;
+    }
+
+    if (lowerName.includes(':') && !ALLOWED_PREFIXED_ATTRIBUTES.has(lowerName)) {
+      continue;
+    }
+
+    if (lowerName === 'href' || lowerName === 'xlink:href') {
+      if (!isSafeHref(elementName, value)) {
+        continue;
+      }
+    } else if (hasExternalReference(value)) {
+      continue;
+    }
+
+    attributes.push(` ${name}="${escapeAttribute(value)}"`);
+  }
+
+  if (elementName === 'svg') {
+    attributes.unshift(` xmlns="${SVG_NAMESPACE}"`, ` xmlns:xlink="${XLINK_NAMESPACE}"`);
+  }
+
+  return attributes.join('');
+}
+
+/**
+ * Rebuilds an SVG document from an allowlist of elements and attributes.
+ * Scripts, event handlers, `foreignObject`, animation elements, DOCTYPE
+ * declarations, processing instructions and references to anything outside
+ * the document are dropped. Throws when the input has no `<svg>` root.
+ */
+export function sanitizeSvg(input: string): string {
+  const output: string[] = [];
+  const stack: OpenElement[] = [];
+  let sawRoot = false;
+
+  const isInsideDroppedElement = () => stack.some((element) => !element.kept);
+  const currentElement = () => stack[stack.length - 1]?.lowerName;
+
+  for (const match of input.replace(/^\uFEFF/, '').matchAll(TOKEN_PATTERN)) {
+    const [token, cdata, closingName, openingName, attributeSource, selfClosing] = match;
+
+    if (openingName) {
+      const lowerName = openingName.toLowerCase();
+
+      if (!sawRoot && lowerName !== 'svg') {
+        throw new Error('Invalid SVG document');
+      }
+
+      sawRoot = true;
+      const kept = !isInsideDroppedElement() && ALLOWED_ELEMENTS.has(lowerName);
+
+      if (kept) {
+        output.push(
+          `<${openingName}${sanitizeAttributes(lowerName, attributeSource || '')}${selfClosing ? '/' : ''}>`
+        );
+      }
+
+      if (selfClosing && stack.length === 0) {
+        break;
+      }
+
+      if (!selfClosing) {
+        stack.push({ name: openingName, lowerName, kept });
+      }
+      continue;
+    }
+
+    if (closingName) {
+      const lowerName = closingName.toLowerCase();
+      const index = stack.map((element) => element.lowerName).lastIndexOf(lowerName);
+
+      if (index === -1) {
+        continue;
+      }
+
+      stack
+        .splice(index)
+        .filter((element) => element.kept)
+        .reverse()
+        .forEach((element) => output.push(`</${element.name}>`));
+
+      if (stack.length === 0) {
+        break;
+      }
+      continue;
+    }
+
+    if (!sawRoot || isInsideDroppedElement() || stack.length === 0) {
+      continue;
+    }
+
+    if (token.startsWith('<!') && cdata === undefined) {
+      continue;
+    }
+
+    if (token.startsWith('<?')) {
+      continue;
+    }
+
+    const text = cdata !== undefined ? cdata : token;
+
+    if (currentElement() === 'style') {
+      if (!hasExternalReference(decodeEntities(text))) {
+        output.push(escapeText(text));
+      }
+      continue;
+    }
+
+    output.push(cdata !== undefined ? escapeText(cdata.replace(/&/g, '&amp;')) : escapeText(text));
+  }
+
+  if (!sawRoot) {
+    throw new Error('Invalid SVG document');
+  }
+
+  stack
+    .filter((element) => element.kept)
+    .reverse()
+    .forEach((element) => output.push(`</${element.name}>`));
+
+  return output.join('');
+}
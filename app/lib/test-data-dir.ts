@@ -0,0 +1,34 @@
+import { afterAll, afterEach, beforeAll, beforeEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+interface TemporaryDataDirOptions {
+  /** Start every test from an empty directory instead of sharing one per file or `describe` block. */
+  perTest?: boolean;
+  /** Keep objects in the in-memory storage driver. */
+  memoryStorage?: boolean;
+}
+
+/**
+ * Test setup: points `DATA_DIR` at a fresh temporary directory for the
+ * surrounding file or `describe` block and removes it afterwards. Register it
+ * before hooks that read or write the JSON stores.
+ */
+export function useTemporaryDataDir(name: string, options: TemporaryDataDirOptions = {}) {
+  let dataDir = '';
+
+  if (options.memoryStorage) {
+    process.env.STORAGE_DRIVER = 'memory';
+  }
+
+  (options.perTest ? beforeEach : beforeAll)(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), `lightframe-${name}-`));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  (options.perTest ? afterEach : afterAll)(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+    delete process.env.DATA_DIR;
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpTimeStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from './totp.server';
+
+// RFC 6238 test secret: ASCII "12345678901234567890".
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('round-trips arbitrary bytes', () => {
+    const bytes = Buffer.from('12345678901234567890');
+    assert.equal(encodeBase32(bytes), RFC_SECRET);
+    assert.deepEqual(decodeBase32(RFC_SECRET.toLowerCase()), bytes);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    assert.throws(() => decodeBase32('ABC1'));
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    assert.equal(generateTotp(RFC_SECRET, getTotpTimeStep(59 * 1000)), '287082');
+    assert.equal(generateTotp(RFC_SECRET, getTotpTimeStep(1111111109 * 1000)), '081804');
+    assert.equal(generateTotp(RFC_SECRET, getTotpTimeStep(1234567890 * 1000)), '005924');
+  });
+});
+
+describe('verifyTotp', () => {
+  const timestampMs = 1234567890 * 1000;
+  const step = getTotpTimeStep(timestampMs);
+
+  it('accepts the current code and one step of drift', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '005924', { timestampMs }), step);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { timestampMs }), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), { timestampMs }), null);
+  });
+
+  it('rejects replays and malformed codes', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '005924', { timestampMs, lastUsedStep: step }), null);
+    assert.equal(verifyTotp(RFC_SECRET, '5924', { timestampMs }), null);
+    assert.equal(verifyTotp(RFC_SECRET, 'abcdef', { timestampMs }), null);
+  });
+});
+
+describe('recovery codes and otpauth URIs', () => {
+  it('generates distinct normalisable recovery codes', () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(new Set(codes).size, codes.length);
+    assert.match(codes[0], /^[a-z2-7]{4}-[a-z2-7]{4}$/);
+    assert.equal(normalizeRecoveryCode(` ${codes[0].toUpperCase()} `), codes[0].replace('-', ''));
+  });
+
+  it('encodes issuer and account into the label', () => {
+    const uri = new URL(buildOtpauthUri({ issuer: 'Lightframe Archive', account: 'alice', secret: RFC_SECRET }));
+    assert.equal(uri.protocol, 'otpauth:');
+    assert.equal(uri.host, 'totp');
+    assert.equal(decodeURIComponent(uri.pathname), '/Lightframe Archive:alice');
+    assert.equal(uri.searchParams.get('secret'), RFC_SECRET);
+    assert.equal(uri.searchParams.get('issuer'), 'Lightframe Archive');
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { updateImageMetadata } from './image-metadata.server';
+import { deleteImages, getImage, listImages, setImageVisibility, uploadImage } from './r2.server';
+import { getStorageBackend } from './storage.server';
+import { useTemporaryDataDir } from './test-data-dir';
+import { listTrash, purgeExpiredTrash, purgeTrash, restoreFromTrash } from './trash.server';
+
+useTemporaryDataDir('trash', { memoryStorage: true });
+
+afterEach(() => {
+  delete process.env.TRASH_RETENTION_DAYS;
+});
+
+function createPng(name: string, content: string): File {
+  return new File([content], name, { type: 'image/png' });
+}
+
+describe('trash', () => {
+  it('moves deleted images to the trash and restores them with their metadata', async () => {
+    const { image } = await uploadImage(createPng('keep.png', 'trash-restore'), { folder: 'bin/' });
+    await updateImageMetadata(image.key, { title: 'Keep me' });
+
+    const result = await deleteImages([image.key], 'alice');
+    assert.deepEqual(result, { deleted: [image.key], failed: [] });
+    assert.equal(await getImage(image.key), null);
+    assert.deepEqual((await listImages('bin/')).images, []);
+
+    const [item] = await listTrash('bin/');
+    assert.equal(item.key, image.key);
+    assert.equal(item.deletedBy, 'alice');
+    assert.equal(Date.parse(item.expiresAt) - Date.parse(item.deletedAt), 30 * 24 * 60 * 60 * 1000);
+
+    assert.deepEqual(await restoreFromTrash([item.id]), { restored: [item.id], conflicts: [], failed: [] });
+    assert.equal((await getImage(image.key))?.title, 'Keep me');
+    assert.deepEqual(await listTrash('bin/'), []);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    await deleteImages([image.key]);
+  });
+
+  it('refuses to restore over an image that took the original key', async () => {
+    const first = await uploadImage(createPng('same.png', 'trash-first'), { folder: 'bin/' });
+    await deleteImages([first.image.key]);
+    await getStorageBackend().copyObject(
+      (await uploadImage(createPng('other.png', 'trash-other'), { folder: 'bin/' })).image.key,
+      first.image.key
+    );
+
+    const [item] = await listTrash('bin/');
+    assert.deepEqual(await restoreFromTrash([item.id]), { restored: [], conflicts: [item.id], failed: [] });
+    assert.equal((await listTrash('bin/')).length, 1);
+
+    assert.deepEqual((await purgeTrash([item.id])).purged, [item.id]);
+    assert.deepEqual(await listTrash('bin/'), []);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    await deleteImages((await listImages('bin/')).images.map((image) => image.key));
+  });
+
+  it('purges items once the retention period has passed', async () => {
+    const { image } = await uploadImage(createPng('old.png', 'trash-expired'), { folder: 'bin/' });
+    await deleteImages([image.key]);
+    assert.equal(await purgeExpiredTrash(), 0);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    assert.equal(await purgeExpiredTrash(), 1);
+    assert.deepEqual(await listTrash('bin/'), []);
+
+    const trashed = await getStorageBackend().listObjects({ prefix: '.trash/', maxKeys: 1000 });
+    assert.equal(
+      trashed.objects.some((object) => object.key.endsWith(`/${image.key}`)),
+      false
+    );
+  });
+
+  it('lists trashed private images under the folder they came from', async () => {
+    process.env.SIGNED_URL_SECRET = 'test-secret';
+    const { image } = await uploadImage(createPng('hidden.png', 'trash-private'), { folder: 'bin/' });
+    await setImageVisibility([image.key], 'private');
+    await deleteImages([`.private/${image.key}`]);
+
+    const [item] = await listTrash('bin/');
+    assert.equal(item.key, `.private/${image.key}`);
+    assert.match(item.url, /signature=/);
+    assert.deepEqual(await listTrash('other/'), []);
+
+    await purgeTrash([item.id]);
+    delete process.env.SIGNED_URL_SECRET;
+  });
+});
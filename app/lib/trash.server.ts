@@ -0,0 +1,295 @@
+import { randomUUID } from 'node:crypto';
+import mimeTypes from 'mime-types';
+
+import { isKeyWithinPrefix } from './api-tokens';
+import { deleteImageMetadata, moveImageMetadata } from './image-metadata.server';
+import { clearTransformCache } from './image-transform.server';
+import { deleteImageVariants, moveImageVariants } from './image-variants.server';
+import { getObjectUrl } from './image-visibility.server';
+import { TRASH_PREFIX, isFolderPlaceholder, type ImageMove } from './images-api';
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+import { moveIndexedObjects, unindexObjects } from './object-index.server';
+import type { DeleteImagesResult } from './r2.server';
+import { getStorageBackend } from './storage.server';
+import type { TrashItem } from './trash';
+
+const TRASH_FILE = 'trash.json';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StoredTrashItem {
+  id: string;
+  key: string;
+  trashKey: string;
+  size: number;
+  mimeType: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+interface TrashStoreData {
+  items: StoredTrashItem[];
+}
+
+export interface RestoreTrashResult {
+  restored: string[];
+  conflicts: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+export interface PurgeTrashResult {
+  purged: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+const EMPTY_STORE: TrashStoreData = { items: [] };
+
+function getTrashFilePath(): string {
+  return getDataFilePath(TRASH_FILE);
+}
+
+/** Days a deleted image stays restorable; `0` turns the trash off and deletes immediately. */
+export function getTrashRetentionDays(): number {
+  const days = Number.parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+function getExpiresAt(item: StoredTrashItem): number {
+  return Date.parse(item.deletedAt) + getTrashRetentionDays() * DAY_MS;
+}
+
+async function toTrashItem(item: StoredTrashItem): Promise<TrashItem> {
+  return {
+    id: item.id,
+    key: item.key,
+    url: await getObjectUrl(item.trashKey),
+    size: item.size,
+    mimeType: item.mimeType,
+    deletedAt: item.deletedAt,
+    expiresAt: new Date(getExpiresAt(item)).toISOString(),
+    ...(item.deletedBy ? { deletedBy: item.deletedBy } : {}),
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+async function moveObject(move: ImageMove) {
+  const backend = getStorageBackend();
+  await backend.copyObject(move.from, move.to);
+  await backend.deleteObject(move.from);
+}
+
+/**
+ * Keeps the object index, variants and image metadata pointing at wherever
+ * the objects went. Cached transforms are dropped and rendered again on demand.
+ */
+async function recordMoves(moves: ImageMove[]) {
+  await moveIndexedObjects(moves);
+  await moveImageVariants(moves);
+  await moveImageMetadata(moves);
+  await clearTransformCache(moves.map((move) => move.from));
+}
+
+/** Permanently deletes objects together with their index entries, variants, metadata and cached transforms. */
+export async function destroyImages(keys: string[]): Promise<DeleteImagesResult> {
+  const results = await Promise.allSettled(keys.map((key) => getStorageBackend().deleteObject(key)));
+  const deleteResult = results.reduce<DeleteImagesResult>(
+    (accumulator, result, index) => {
+      const key = keys[index];
+
+      if (result.status === 'fulfilled') {
+        accumulator.deleted.push(key);
+        return accumulator;
+      }
+
+      accumulator.failed.push({ key, error: getErrorMessage(result.reason) });
+      return accumulator;
+    },
+    {
+      deleted: [],
+      failed: [],
+    }
+  );
+
+  await unindexObjects(deleteResult.deleted);
+  await deleteImageVariants(deleteResult.deleted);
+  await deleteImageMetadata(deleteResult.deleted);
+  await clearTransformCache(deleteResult.deleted);
+  return deleteResult;
+}
+
+async function trashImage(key: string, deletedBy?: string): Promise<StoredTrashItem | null> {
+  const object = await getStorageBackend().headObject(key);
+  if (!object) {
+    return null;
+  }
+
+  const id = randomUUID();
+  const item: StoredTrashItem = {
+    id,
+    key,
+    trashKey: `${TRASH_PREFIX}${id}/${key}`,
+    size: object.size,
+    mimeType: object.contentType || mimeTypes.lookup(key) || 'application/octet-stream',
+    deletedAt: new Date().toISOString(),
+    ...(deletedBy ? { deletedBy } : {}),
+  };
+
+  await moveObject({ from: key, to: item.trashKey });
+  return item;
+}
+
+/**
+ * Moves images into the trash prefix instead of deleting them. Folder
+ * placeholders and keys that no longer exist are simply removed, as before.
+ */
+export async function moveToTrash(keys: string[], deletedBy?: string): Promise<DeleteImagesResult> {
+  await purgeExpiredTrash();
+
+  const placeholders = keys.filter(isFolderPlaceholder);
+  const imageKeys = keys.filter((key) => !isFolderPlaceholder(key));
+  const results = await Promise.allSettled(imageKeys.map((key) => trashImage(key, deletedBy)));
+  const trashed: StoredTrashItem[] = [];
+  const missing: string[] = [];
+  const result: DeleteImagesResult = { deleted: [], failed: [] };
+
+  results.forEach((outcome, index) => {
+    const key = imageKeys[index];
+
+    if (outcome.status === 'rejected') {
+      result.failed.push({ key, error: getErrorMessage(outcome.reason) });
+      return;
+    }
+
+    if (outcome.value) {
+      trashed.push(outcome.value);
+    } else {
+      missing.push(key);
+    }
+    result.deleted.push(key);
+  });
+
+  if (trashed.length > 0) {
+    await updateJsonFile(getTrashFilePath(), EMPTY_STORE, ({ items }) => ({
+      data: { items: [...items, ...trashed] },
+      result: undefined,
+    }));
+    await recordMoves(trashed.map((item) => ({ from: item.key, to: item.trashKey })));
+  }
+
+  // Nothing to keep for these: clear their index and metadata entries like a plain delete.
+  const destroyed = await destroyImages([...placeholders, ...missing]);
+  return {
+    deleted: [...result.deleted, ...destroyed.deleted.filter(isFolderPlaceholder)],
+    failed: [...result.failed, ...destroyed.failed.filter((failure) => isFolderPlaceholder(failure.key))],
+  };
+}
+
+/** Removes items and their objects for good; returns what left the store. */
+async function purgeItems(select: (item: StoredTrashItem) => boolean): Promise<PurgeTrashResult> {
+  const { items: current } = await readJsonFile(getTrashFilePath(), EMPTY_STORE);
+  if (!current.some(select)) {
+    return { purged: [], failed: [] };
+  }
+
+  const selected = await updateJsonFile(getTrashFilePath(), EMPTY_STORE, ({ items }) => ({
+    data: { items: items.filter((item) => !select(item)) },
+    result: items.filter(select),
+  }));
+  const destroyed = await destroyImages(selected.map((item) => item.trashKey));
+  const errors = new Map(destroyed.failed.map((failure) => [failure.key, failure.error]));
+  const failed = selected.filter((item) => errors.has(item.trashKey));
+
+  // Keep anything the bucket refused to delete so it can be retried.
+  if (failed.length > 0) {
+    await updateJsonFile(getTrashFilePath(), EMPTY_STORE, ({ items }) => ({
+      data: { items: [...items, ...failed] },
+      result: undefined,
+    }));
+  }
+
+  return {
+    purged: selected.filter((item) => !errors.has(item.trashKey)).map((item) => item.id),
+    failed: failed.map((item) => ({ id: item.id, error: errors.get(item.trashKey) ?? 'Unknown error' })),
+  };
+}
+
+/** Deletes trashed images whose retention period has run out. */
+export async function purgeExpiredTrash(): Promise<number> {
+  const now = Date.now();
+  const { purged } = await purgeItems((item) => getExpiresAt(item) <= now);
+  return purged.length;
+}
+
+export async function purgeTrash(ids: string[]): Promise<PurgeTrashResult> {
+  const wanted = new Set(ids);
+  return purgeItems((item) => wanted.has(item.id));
+}
+
+/** Trashed images whose original key is under `prefix` (private ones included), newest first. */
+export async function listTrash(prefix = ''): Promise<TrashItem[]> {
+  await purgeExpiredTrash();
+  const { items } = await readJsonFile(getTrashFilePath(), EMPTY_STORE);
+
+  return Promise.all(
+    items
+      .filter((item) => isKeyWithinPrefix(item.key, prefix))
+      .sort((left, right) => right.deletedAt.localeCompare(left.deletedAt))
+      .map(toTrashItem)
+  );
+}
+
+export async function getTrashItems(ids: string[]): Promise<TrashItem[]> {
+  const { items } = await readJsonFile(getTrashFilePath(), EMPTY_STORE);
+  return Promise.all(items.filter((item) => ids.includes(item.id)).map(toTrashItem));
+}
+
+async function restoreItem(item: StoredTrashItem, claimedKeys: Set<string>): Promise<'restored' | 'conflict'> {
+  const backend = getStorageBackend();
+
+  if (claimedKeys.has(item.key) || (await backend.headObject(item.key))) {
+    return 'conflict';
+  }
+
+  claimedKeys.add(item.key);
+  await moveObject({ from: item.trashKey, to: item.key });
+  await recordMoves([{ from: item.trashKey, to: item.key }]);
+  return 'restored';
+}
+
+/**
+ * Moves images back to their original keys. A key that has been reused in
+ * the meantime is reported as a conflict and the item stays in the trash.
+ */
+export async function restoreFromTrash(ids: string[]): Promise<RestoreTrashResult> {
+  const { items } = await readJsonFile(getTrashFilePath(), EMPTY_STORE);
+  const claimedKeys = new Set<string>();
+  const result: RestoreTrashResult = { restored: [], conflicts: [], failed: [] };
+
+  for (const id of ids) {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item) {
+      result.failed.push({ id, error: 'Not found in trash' });
+      continue;
+    }
+
+    try {
+      const outcome = await restoreItem(item, claimedKeys);
+      result[outcome === 'restored' ? 'restored' : 'conflicts'].push(id);
+    } catch (error) {
+      result.failed.push({ id, error: getErrorMessage(error) });
+    }
+  }
+
+  if (result.restored.length > 0) {
+    const restored = new Set(result.restored);
+    await updateJsonFile(getTrashFilePath(), EMPTY_STORE, ({ items: current }) => ({
+      data: { items: current.filter((item) => !restored.has(item.id)) },
+      result: undefined,
+    }));
+  }
+
+  return result;
+}
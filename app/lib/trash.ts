@@ -0,0 +1,28 @@
+/** A deleted image as shown in the trash view. */
+export interface TrashItem {
+  id: string;
+  /** Where the image lived before it was deleted, and where a restore puts it back. */
+  key: string;
+  url: string;
+  size: number;
+  mimeType: string;
+  deletedAt: string;
+  /** When the purge routine removes it for good. */
+  expiresAt: string;
+  deletedBy?: string;
+}
+
+interface TrashIdsPayload {
+  ids?: unknown;
+}
+
+export function parseTrashIds(payload: TrashIdsPayload | null | undefined): string[] {
+  if (!payload || typeof payload !== 'object' || !Array.isArray(payload.ids)) {
+    return [];
+  }
+
+  return [...new Set(payload.ids)]
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
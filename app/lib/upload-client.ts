@@ -0,0 +1,234 @@
+import {
+  MAX_PART_URLS_PER_REQUEST,
+  getMissingParts,
+  getPartRange,
+  getRetryDelayMs,
+} from './direct-upload';
+import type { PresignedUpload, UploadedPart } from './storage';
+
+const PART_CONCURRENCY = 3;
+const MAX_PART_ATTEMPTS = 5;
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload aborted');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+export interface SendResult {
+  status: number;
+  body: string;
+  getHeader(name: string): string | null;
+}
+
+interface SendOptions {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body: Blob | FormData;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number) => void;
+}
+
+/**
+ * `fetch` has no upload progress, so request bodies go through XHR. Resolves
+ * for any HTTP status; rejects on network errors and with
+ * `UploadAbortedError` when `signal` fires.
+ */
+export function sendWithProgress({ method, url, headers, body, signal, onProgress }: SendOptions) {
+  return new Promise<SendResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadAbortedError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    xhr.open(method, url);
+    Object.entries(headers ?? {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onload = () => {
+      settle();
+      resolve({
+        status: xhr.status,
+        body: xhr.responseText,
+        getHeader: (name) => xhr.getResponseHeader(name),
+      });
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new Error('Network error'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new UploadAbortedError());
+    };
+
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(body);
+  });
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new UploadAbortedError());
+    };
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** A multipart upload in progress; `completed` maps part numbers to their ETags. */
+export interface MultipartSession {
+  id: string;
+  file: File;
+  partSize: number;
+  partCount: number;
+  completed: Map<number, string>;
+}
+
+export type PresignedPartUpload = PresignedUpload & { partNumber: number };
+
+interface MultipartUploadOptions {
+  signal: AbortSignal;
+  onProgress: (loaded: number) => void;
+  presignParts: (partNumbers: number[]) => Promise<PresignedPartUpload[]>;
+}
+
+/**
+ * Uploads the parts a session is still missing, a few at a time, retrying
+ * network errors, 5xx responses and expired URLs with backoff. Finished parts
+ * are recorded on the session, so calling this again after a pause or failure
+ * picks up where it stopped. Resolves with every part, ready for completion.
+ */
+export async function uploadMultipartParts(
+  session: MultipartSession,
+  { signal, onProgress, presignParts }: MultipartUploadOptions
+): Promise<UploadedPart[]> {
+  const queue = getMissingParts(session.partCount, new Set(session.completed.keys()));
+  const presigned = new Map<number, PresignedPartUpload>();
+  const inFlight = new Map<number, number>();
+  let pendingPresign: Promise<void> | null = null;
+  let failed = false;
+
+  const getPartSize = (partNumber: number) => {
+    const { start, end } = getPartRange(partNumber, session.partSize, session.file.size);
+    return end - start;
+  };
+
+  const reportProgress = () => {
+    let loaded = 0;
+    session.completed.forEach((_, partNumber) => {
+      loaded += getPartSize(partNumber);
+    });
+    inFlight.forEach((partLoaded) => {
+      loaded += partLoaded;
+    });
+    onProgress(loaded);
+  };
+
+  // URLs are fetched in batches just before they are needed, so they don't expire while queued.
+  const getPresignedPart = async (partNumber: number) => {
+    while (!presigned.has(partNumber)) {
+      if (!pendingPresign) {
+        const partNumbers = [partNumber, ...queue.filter((queued) => !presigned.has(queued))].slice(
+          0,
+          MAX_PART_URLS_PER_REQUEST
+        );
+        pendingPresign = presignParts(partNumbers)
+          .then((parts) => parts.forEach((part) => presigned.set(part.partNumber, part)))
+          .finally(() => {
+            pendingPresign = null;
+          });
+      }
+
+      await pendingPresign;
+    }
+
+    return presigned.get(partNumber) as PresignedPartUpload;
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const { start, end } = getPartRange(partNumber, session.partSize, session.file.size);
+
+    for (let attempt = 0; ; attempt += 1) {
+      const part = await getPresignedPart(partNumber);
+      let response: SendResult | null = null;
+
+      try {
+        response = await sendWithProgress({
+          method: part.method,
+          url: part.url,
+          headers: part.headers,
+          body: session.file.slice(start, end),
+          signal,
+          onProgress: (loaded) => {
+            inFlight.set(partNumber, loaded);
+            reportProgress();
+          },
+        });
+      } catch (error) {
+        inFlight.delete(partNumber);
+        if (error instanceof UploadAbortedError) {
+          throw error;
+        }
+      }
+
+      inFlight.delete(partNumber);
+      if (response && response.status >= 200 && response.status < 300) {
+        const etag = response.getHeader('ETag');
+        if (!etag) {
+          throw new Error('无法读取分片 ETag，请在存储桶 CORS 配置中暴露 ETag 响应头');
+        }
+
+        session.completed.set(partNumber, etag);
+        reportProgress();
+        return;
+      }
+
+      const retryable = !response || response.status >= 500 || response.status === 403;
+      if (!retryable || attempt + 1 >= MAX_PART_ATTEMPTS) {
+        throw new Error(
+          response
+            ? `分片 ${partNumber} 上传失败（HTTP ${response.status}）`
+            : `分片 ${partNumber} 上传失败，请检查网络或存储桶的 CORS 配置`
+        );
+      }
+
+      // A 403 usually means the presigned URL expired while paused or retrying.
+      if (response?.status === 403) {
+        presigned.delete(partNumber);
+      }
+
+      await wait(getRetryDelayMs(attempt), signal);
+    }
+  };
+
+  const worker = async () => {
+    while (!failed && queue.length > 0) {
+      const partNumber = queue.shift() as number;
+      try {
+        await uploadPart(partNumber);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  reportProgress();
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, () => worker()));
+
+  return Array.from(session.completed, ([partNumber, etag]) => ({ partNumber, etag })).sort(
+    (left, right) => left.partNumber - right.partNumber
+  );
+}
@@ -0,0 +1,66 @@
+import { ALLOWED_IMAGE_TYPES, SNIFF_BYTE_LENGTH, checkImageContentType } from './file-type';
+import { getMaxFileSize } from './r2.server';
+import { sanitizeSvg } from './svg-sanitize';
+
+export type SvgUploadPolicy = 'sanitize' | 'reject';
+
+export type UploadValidationResult =
+  | { ok: true; file: File }
+  | { ok: false; status: 400 | 415; error: string };
+
+export function getSvgUploadPolicy(): SvgUploadPolicy {
+  return process.env.SVG_UPLOADS?.trim().toLowerCase() === 'reject' ? 'reject' : 'sanitize';
+}
+
+export function getAllowedImageTypes(): string[] {
+  return getSvgUploadPolicy() === 'reject'
+    ? ALLOWED_IMAGE_TYPES.filter((type) => type !== 'image/svg+xml')
+    : ALLOWED_IMAGE_TYPES;
+}
+
+/**
+ * Checks size and real content type, then returns the file that should be
+ * stored: relabelled with the sniffed MIME type and, for SVG, sanitized.
+ */
+export async function validateImageUpload(file: File): Promise<UploadValidationResult> {
+  const maxSize = getMaxFileSize();
+  if (file.size > maxSize) {
+    return {
+      ok: false,
+      status: 400,
+      error: `File size exceeds limit of ${maxSize / 1024 / 1024}MB`,
+    };
+  }
+
+  const contentType = checkImageContentType(
+    new Uint8Array(await file.slice(0, SNIFF_BYTE_LENGTH).arrayBuffer()),
+    file.type,
+    getAllowedImageTypes()
+  );
+  if (!contentType.ok) {
+    return { ok: false, status: 415, error: contentType.error };
+  }
+
+  if (contentType.mimeType !== 'image/svg+xml') {
+    return {
+      ok: true,
+      file: new File([file], file.name, {
+        type: contentType.mimeType,
+        lastModified: file.lastModified,
+      }),
+    };
+  }
+
+  try {
+    const sanitized = sanitizeSvg(await file.text());
+    return {
+      ok: true,
+      file: new File([sanitized], file.name, {
+        type: contentType.mimeType,
+        lastModified: file.lastModified,
+      }),
+    };
+  } catch {
+    return { ok: false, status: 415, error: 'SVG could not be parsed' };
+  }
+}
@@ -0,0 +1,104 @@
+import { beforeEach, describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { useTemporaryDataDir } from './test-data-dir';
+import { generateTotp } from './totp.server';
+import {
+  authenticateUser,
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  createUser,
+  deleteUser,
+  disableTwoFactor,
+  findUser,
+  getTwoFactorStatus,
+  listUsers,
+  updateUser,
+  verifySecondFactor,
+} from './user-store.server';
+
+describe('user store', () => {
+  useTemporaryDataDir('users', { perTest: true });
+
+  beforeEach(async () => {
+    process.env.ADMIN_PASSWORD = 'bootstrap-secret';
+  });
+
+  it('accepts ADMIN_PASSWORD for the bootstrap admin until users exist', async () => {
+    assert.deepEqual(await authenticateUser('admin', 'bootstrap-secret'), {
+      username: 'admin',
+      role: 'admin',
+    });
+    assert.equal(await authenticateUser('admin', 'wrong'), null);
+
+    await createUser({ username: 'alice', password: 'alice-password', role: 'admin' });
+
+    assert.equal(await authenticateUser('admin', 'bootstrap-secret'), null);
+    assert.equal(await findUser('admin'), null);
+  });
+
+  it('hashes passwords and enforces roles', async () => {
+    await createUser({ username: 'alice', password: 'alice-password', role: 'admin' });
+    await createUser({ username: 'bob', password: 'bob-password', role: 'viewer' });
+
+    assert.deepEqual(await authenticateUser('bob', 'bob-password'), { username: 'bob', role: 'viewer' });
+    assert.equal(await authenticateUser('bob', 'alice-password'), null);
+
+    await updateUser('bob', { role: 'uploader', password: 'new-bob-password' });
+    assert.deepEqual(await findUser('bob'), { username: 'bob', role: 'uploader' });
+    assert.equal(await authenticateUser('bob', 'bob-password'), null);
+
+    const users = await listUsers();
+    assert.deepEqual(
+      users.map((user) => user.username),
+      ['alice', 'bob']
+    );
+    assert.equal('passwordHash' in users[0], false);
+  });
+
+  it('rejects duplicates, weak passwords and removing the last admin', async () => {
+    await assert.rejects(
+      () => createUser({ username: 'viewer', password: 'viewer-password', role: 'viewer' }),
+      /admin account is required/
+    );
+
+    await createUser({ username: 'alice', password: 'alice-password', role: 'admin' });
+
+    await assert.rejects(
+      () => createUser({ username: 'alice', password: 'another-password', role: 'admin' }),
+      /already exists/
+    );
+    await assert.rejects(
+      () => createUser({ username: 'carol', password: 'short', role: 'viewer' }),
+      /at least/
+    );
+    await assert.rejects(() => updateUser('alice', { role: 'viewer' }), /admin account is required/);
+    await assert.rejects(() => deleteUser('alice'), /admin account is required/);
+  });
+
+  it('enrols TOTP, blocks replays and consumes recovery codes', async () => {
+    assert.equal((await getTwoFactorStatus('admin')).available, false);
+    await createUser({ username: 'alice', password: 'alice-password', role: 'admin' });
+
+    const secret = await beginTwoFactorEnrolment('alice');
+    await assert.rejects(() => confirmTwoFactorEnrolment('alice', '000000x'), /Invalid verification code/);
+
+    const code = generateTotp(secret);
+    const recoveryCodes = await confirmTwoFactorEnrolment('alice', code);
+    assert.equal(recoveryCodes.length, 10);
+    assert.deepEqual(await getTwoFactorStatus('alice'), {
+      available: true,
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    });
+    assert.equal((await listUsers())[0].twoFactorEnabled, true);
+
+    assert.equal(await verifySecondFactor('alice', code), false);
+    assert.equal(await verifySecondFactor('alice', recoveryCodes[0].toUpperCase()), true);
+    assert.equal(await verifySecondFactor('alice', recoveryCodes[0]), false);
+    assert.equal((await getTwoFactorStatus('alice')).recoveryCodesRemaining, 9);
+
+    await disableTwoFactor('alice');
+    assert.equal((await getTwoFactorStatus('alice')).enabled, false);
+    assert.equal(await verifySecondFactor('alice', recoveryCodes[1]), false);
+  });
+});
@@ -0,0 +1,338 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from './json-store.server';
+import { hashPassword, verifyPasswordHash } from './password.server';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from './totp.server';
+import { BOOTSTRAP_ADMIN_USERNAME, MIN_PASSWORD_LENGTH, type AuthUser, type UserRole } from './users';
+
+const USERS_FILE = 'users.json';
+
+interface StoredTwoFactor {
+  secret: string;
+  enabledAt: string;
+  lastUsedStep: number | null;
+  recoveryCodeHashes: string[];
+}
+
+interface StoredUser extends AuthUser {
+  passwordHash: string;
+  createdAt: string;
+  twoFactor?: StoredTwoFactor;
+  pendingTwoFactorSecret?: string;
+}
+
+interface UserStoreData {
+  users: StoredUser[];
+}
+
+export interface UserSummary extends AuthUser {
+  createdAt: string;
+  twoFactorEnabled: boolean;
+}
+
+export interface TwoFactorStatus {
+  /** False for the bootstrap admin, which has no stored account to attach a secret to. */
+  available: boolean;
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserInput {
+  role?: UserRole;
+  password?: string;
+}
+
+/** Validation failures the API should report to the client as-is. */
+export class UserStoreError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = 'UserStoreError';
+  }
+}
+
+const EMPTY_STORE: UserStoreData = { users: [] };
+
+let dummyPasswordHash: Promise<string> | null = null;
+
+/**
+ * Verifying against a throwaway hash when the username is unknown keeps the
+ * response time the same as for a wrong password, so usernames can't be probed.
+ */
+function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= hashPassword('lightframe-dummy-password');
+  return dummyPasswordHash;
+}
+
+function getUsersFilePath(): string {
+  return getDataFilePath(USERS_FILE);
+}
+
+function toSummary({ username, role, createdAt, twoFactor }: StoredUser): UserSummary {
+  return { username, role, createdAt, twoFactorEnabled: Boolean(twoFactor) };
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function assertPasswordStrength(password: string) {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserStoreError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function assertKeepsAnAdmin(users: StoredUser[]) {
+  if (!users.some((user) => user.role === 'admin')) {
+    throw new UserStoreError('At least one admin account is required');
+  }
+}
+
+function safeEqual(left: string, right: string): boolean {
+  const leftBuffer = Buffer.from(left);
+  const rightBuffer = Buffer.from(right);
+  return leftBuffer.length === rightBuffer.length && timingSafeEqual(leftBuffer, rightBuffer);
+}
+
+async function readUsers(): Promise<StoredUser[]> {
+  return (await readJsonFile(getUsersFilePath(), EMPTY_STORE)).users;
+}
+
+export async function listUsers(): Promise<UserSummary[]> {
+  return (await readUsers()).map(toSummary);
+}
+
+/**
+ * Resolves the current account for a signed-in username. While the store is
+ * empty the bootstrap `admin` account (backed by `ADMIN_PASSWORD`) is the
+ * only user; once real accounts exist it stops working.
+ */
+export async function findUser(username: string): Promise<AuthUser | null> {
+  const users = await readUsers();
+
+  if (users.length === 0) {
+    return username === BOOTSTRAP_ADMIN_USERNAME
+      ? { username: BOOTSTRAP_ADMIN_USERNAME, role: 'admin' }
+      : null;
+  }
+
+  const user = users.find((candidate) => candidate.username === username);
+  return user ? { username: user.username, role: user.role } : null;
+}
+
+export async function authenticateUser(username: string, password: string): Promise<AuthUser | null> {
+  const users = await readUsers();
+
+  if (users.length === 0) {
+    const adminPassword = process.env.ADMIN_PASSWORD;
+    return username === BOOTSTRAP_ADMIN_USERNAME && adminPassword && safeEqual(password, adminPassword)
+      ? { username: BOOTSTRAP_ADMIN_USERNAME, role: 'admin' }
+      : null;
+  }
+
+  const user = users.find((candidate) => candidate.username === username);
+  const passwordMatches = await verifyPasswordHash(
+    password,
+    user?.passwordHash ?? (await getDummyPasswordHash())
+  );
+
+  if (!user || !passwordMatches) {
+    return null;
+  }
+
+  return { username: user.username, role: user.role };
+}
+
+export async function createUser({ username, password, role }: CreateUserInput): Promise<UserSummary> {
+  assertPasswordStrength(password);
+  const passwordHash = await hashPassword(password);
+
+  return updateJsonFile(getUsersFilePath(), EMPTY_STORE, ({ users }) => {
+    if (users.some((user) => user.username === username)) {
+      throw new UserStoreError('User already exists', 409);
+    }
+
+    const user: StoredUser = {
+      username,
+      role,
+      passwordHash,
+      createdAt: new Date().toISOString(),
+    };
+    const nextUsers = [...users, user];
+    assertKeepsAnAdmin(nextUsers);
+
+    return { data: { users: nextUsers }, result: toSummary(user) };
+  });
+}
+
+export async function updateUser(username: string, input: UpdateUserInput): Promise<UserSummary> {
+  if (input.password !== undefined) {
+    assertPasswordStrength(input.password);
+  }
+
+  const passwordHash = input.password === undefined ? null : await hashPassword(input.password);
+
+  return updateJsonFile(getUsersFilePath(), EMPTY_STORE, ({ users }) => {
+    const existing = users.find((user) => user.username === username);
+    if (!existing) {
+      throw new UserStoreError('User not found', 404);
+    }
+
+    const updated: StoredUser = {
+      ...existing,
+      role: input.role ?? existing.role,
+      passwordHash: passwordHash ?? existing.passwordHash,
+    };
+    const nextUsers = users.map((user) => (user.username === username ? updated : user));
+    assertKeepsAnAdmin(nextUsers);
+
+    return { data: { users: nextUsers }, result: toSummary(updated) };
+  });
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  await updateJsonFile(getUsersFilePath(), EMPTY_STORE, ({ users }) => {
+    if (!users.some((user) => user.username === username)) {
+      throw new UserStoreError('User not found', 404);
+    }
+
+    const nextUsers = users.filter((user) => user.username !== username);
+    assertKeepsAnAdmin(nextUsers);
+
+    return { data: { users: nextUsers }, result: undefined };
+  });
+}
+
+async function updateStoredUser<R>(
+  username: string,
+  update: (user: StoredUser) => { user: StoredUser; result: R }
+): Promise<R> {
+  return updateJsonFile(getUsersFilePath(), EMPTY_STORE, ({ users }) => {
+    const existing = users.find((user) => user.username === username);
+    if (!existing) {
+      throw new UserStoreError('User not found', 404);
+    }
+
+    const { user, result } = update(existing);
+    return {
+      data: { users: users.map((candidate) => (candidate.username === username ? user : candidate)) },
+      result,
+    };
+  });
+}
+
+export async function getTwoFactorStatus(username: string): Promise<TwoFactorStatus> {
+  const user = (await readUsers()).find((candidate) => candidate.username === username);
+
+  return {
+    available: Boolean(user),
+    enabled: Boolean(user?.twoFactor),
+    recoveryCodesRemaining: user?.twoFactor?.recoveryCodeHashes.length ?? 0,
+  };
+}
+
+export async function isTwoFactorEnabled(username: string): Promise<boolean> {
+  return (await getTwoFactorStatus(username)).enabled;
+}
+
+/** Generates a secret that only becomes active once a code from it is confirmed. */
+export async function beginTwoFactorEnrolment(username: string): Promise<string> {
+  const secret = generateTotpSecret();
+
+  return updateStoredUser(username, (user) => {
+    if (user.twoFactor) {
+      throw new UserStoreError('Two-factor authentication is already enabled', 409);
+    }
+
+    return { user: { ...user, pendingTwoFactorSecret: secret }, result: secret };
+  });
+}
+
+/** Activates the pending secret and returns fresh recovery codes in plaintext, once. */
+export async function confirmTwoFactorEnrolment(username: string, code: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  return updateStoredUser(username, (user) => {
+    const step = user.pendingTwoFactorSecret ? verifyTotp(user.pendingTwoFactorSecret, code) : null;
+    if (!user.pendingTwoFactorSecret || step === null) {
+      throw new UserStoreError('Invalid verification code');
+    }
+
+    const { pendingTwoFactorSecret: secret, ...rest } = user;
+    return {
+      user: {
+        ...rest,
+        twoFactor: {
+          secret,
+          enabledAt: new Date().toISOString(),
+          lastUsedStep: step,
+          recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+        },
+      },
+      result: recoveryCodes,
+    };
+  });
+}
+
+/**
+ * Checks a TOTP code or an unused recovery code. A matching TOTP step is
+ * remembered so the same code can't be replayed; recovery codes are consumed.
+ */
+export async function verifySecondFactor(username: string, code: string): Promise<boolean> {
+  return updateStoredUser(username, (user) => {
+    if (!user.twoFactor) {
+      return { user, result: false };
+    }
+
+    const step = verifyTotp(user.twoFactor.secret, code, { lastUsedStep: user.twoFactor.lastUsedStep });
+    if (step !== null) {
+      return { user: { ...user, twoFactor: { ...user.twoFactor, lastUsedStep: step } }, result: true };
+    }
+
+    const codeHash = hashRecoveryCode(code);
+    const remaining = user.twoFactor.recoveryCodeHashes.filter((hash) => hash !== codeHash);
+    if (remaining.length === user.twoFactor.recoveryCodeHashes.length) {
+      return { user, result: false };
+    }
+
+    return { user: { ...user, twoFactor: { ...user.twoFactor, recoveryCodeHashes: remaining } }, result: true };
+  });
+}
+
+export async function regenerateRecoveryCodes(username: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  return updateStoredUser(username, (user) => {
+    if (!user.twoFactor) {
+      throw new UserStoreError('Two-factor authentication is not enabled');
+    }
+
+    return {
+      user: {
+        ...user,
+        twoFactor: { ...user.twoFactor, recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+      },
+      result: recoveryCodes,
+    };
+  });
+}
+
+export async function disableTwoFactor(username: string): Promise<void> {
+  await updateStoredUser(username, ({ twoFactor: _twoFactor, pendingTwoFactorSecret: _pending, ...user }) => ({
+    user,
+    result: undefined,
+  }));
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'bun:test';
+import assert from 'node:assert/strict';
+import { hasPermission, normalizeUsername, parseUserRole } from './users';
+
+describe('normalizeUsername', () => {
+  it('lowercases valid usernames', () => {
+    assert.equal(normalizeUsername(' Alice.Wu '), 'alice.wu');
+  });
+
+  it('rejects short, long or unusual names', () => {
+    assert.equal(normalizeUsername('a'), null);
+    assert.equal(normalizeUsername('a'.repeat(33)), null);
+    assert.equal(normalizeUsername('bob smith'), null);
+    assert.equal(normalizeUsername('-bob'), null);
+    assert.equal(normalizeUsername(42), null);
+  });
+});
+
+describe('parseUserRole', () => {
+  it('accepts known roles only', () => {
+    assert.equal(parseUserRole('Viewer'), 'viewer');
+    assert.equal(parseUserRole('owner'), null);
+  });
+});
+
+describe('hasPermission', () => {
+  it('lets viewers list but not upload or delete', () => {
+    assert.equal(hasPermission('viewer', 'list'), true);
+    assert.equal(hasPermission('viewer', 'upload'), false);
+    assert.equal(hasPermission('viewer', 'delete'), false);
+  });
+
+  it('keeps deleting to admins', () => {
+    assert.equal(hasPermission('uploader', 'upload'), true);
+    assert.equal(hasPermission('uploader', 'delete'), false);
+    assert.equal(hasPermission('admin', 'delete'), true);
+  });
+});
@@ -0,0 +1,48 @@
+export type UserRole = 'admin' | 'uploader' | 'viewer';
+export type Permission = 'list' | 'upload' | 'delete';
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
+
+export const USER_ROLES: UserRole[] = ['admin', 'uploader', 'viewer'];
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Username used when no user store exists yet and `ADMIN_PASSWORD` signs in. */
+export const BOOTSTRAP_ADMIN_USERNAME = 'admin';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['list', 'upload', 'delete'],
+  uploader: ['list', 'upload'],
+  viewer: ['list'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: '管理员',
+  uploader: '上传者',
+  viewer: '只读',
+};
+
+export function parseUserRole(value: unknown): UserRole | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return USER_ROLES.find((role) => role === normalized) ?? null;
+}
+
+/** Usernames are case-insensitive: 2-32 letters, digits, `.`, `_` or `-`. */
+export function normalizeUsername(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return /^[a-z0-9][a-z0-9._-]{1,31}$/.test(normalized) ? normalized : null;
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -6,10 +6,32 @@ export default [
     index('routes/home.tsx'),
     route('gallery', 'routes/gallery.tsx'),
     route('about', 'routes/about.tsx'),
+    route('users', 'routes/users.tsx'),
+    route('settings', 'routes/settings.tsx'),
+    route('sessions', 'routes/sessions.tsx'),
   ]),
   route('api/upload', 'routes/api.upload.ts'),
+  route('api/upload/presign', 'routes/api.upload.presign.ts'),
+  route('api/upload/complete', 'routes/api.upload.complete.ts'),
+  route('api/upload/parts', 'routes/api.upload.parts.ts'),
+  route('api/upload/abort', 'routes/api.upload.abort.ts'),
+  route('api/upload/remote', 'routes/api.upload.remote.ts'),
   route('api/images', 'routes/api.images.ts'),
+  route('api/images/metadata', 'routes/api.images.metadata.ts'),
+  route('api/images/visibility', 'routes/api.images.visibility.ts'),
+  route('api/images/share', 'routes/api.images.share.ts'),
+  route('api/folders', 'routes/api.folders.ts'),
+  route('api/object-index', 'routes/api.object-index.ts'),
+  route('api/trash', 'routes/api.trash.ts'),
+  route('api/link-templates', 'routes/api.link-templates.ts'),
+  route('api/users', 'routes/api.users.ts'),
+  route('api/tokens', 'routes/api.tokens.ts'),
+  route('api/sessions', 'routes/api.sessions.ts'),
+  route('api/two-factor', 'routes/api.two-factor.ts'),
   route('api/auth/login', 'routes/api.auth.login.ts'),
+  route('api/auth/two-factor', 'routes/api.auth.two-factor.ts'),
   route('api/auth/logout', 'routes/api.auth.logout.ts'),
   route('api/auth/verify', 'routes/api.auth.verify.ts'),
+  route('files/*', 'routes/files.$.ts'),
+  route('i/*', 'routes/i.$.ts'),
 ] satisfies RouteConfig;
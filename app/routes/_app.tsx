@@ -5,14 +5,14 @@ import AppShell from '~/components/AppShell';
 import { requireAuthenticatedRequest } from '~/lib/session.server';
 
 export async function loader({ request }: Route.LoaderArgs) {
-  await requireAuthenticatedRequest(request);
-  return null;
+  const user = await requireAuthenticatedRequest(request);
+  return { user };
 }
 
-export default function ProtectedAppLayout() {
+export default function ProtectedAppLayout({ loaderData }: Route.ComponentProps) {
   return (
-    <AppShell authenticated>
-      <Outlet />
+    <AppShell authenticated user={loaderData.user}>
+      <Outlet context={loaderData.user} />
     </AppShell>
   );
 }
@@ -3,7 +3,7 @@ import type { Route } from './+types/about';
 const sections = [
   { title: '上传', items: ['拖拽、粘贴、批量选择', '可选随机文件名', '浏览器端 WebP 压缩'] },
   { title: '图库', items: ['分页 / 全量读取', '网格 / 列表视图', '复制链接与批量删除'] },
-  { title: '认证', items: ['管理员密码登录', '签名 Cookie 会话', '接口持续校验'] },
+  { title: '认证', items: ['多用户与角色', '两步验证', '签名 Cookie 会话', '接口持续校验'] },
 ];
 
 export const meta: Route.MetaFunction = () => [{ title: 'About - Lightframe Archive' }];
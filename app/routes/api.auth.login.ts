@@ -1,14 +1,33 @@
 import type { Route } from './+types/api.auth.login';
 
-import { commitAuthenticatedSession, getSafeNextPath, verifyPassword } from '~/lib/session.server';
+import { getClientIp } from '~/lib/client-ip';
+import { getLoginAccountKey, getLoginThrottle, tooManyLoginAttempts } from '~/lib/login-throttle.server';
+import {
+  commitAuthenticatedSession,
+  commitPendingTwoFactorSession,
+  getSafeNextPath,
+} from '~/lib/session.server';
+import { authenticateUser, isTwoFactorEnabled } from '~/lib/user-store.server';
+import { BOOTSTRAP_ADMIN_USERNAME, normalizeUsername } from '~/lib/users';
 
 export async function action({ request }: Route.ActionArgs) {
   if (request.method !== 'POST') {
     return Response.json({ error: 'Method not allowed' }, { status: 405 });
   }
 
+  const throttle = getLoginThrottle();
+  const clientIp = getClientIp(request);
+  const throttleStatus = throttle.check(clientIp);
+  if (!throttleStatus.allowed) {
+    return tooManyLoginAttempts(throttleStatus);
+  }
+
   try {
-    const body = (await request.json()) as { password?: unknown; next?: unknown };
+    const body = (await request.json()) as { username?: unknown; password?: unknown; next?: unknown };
+    const username =
+      typeof body.username === 'string' && body.username.trim()
+        ? normalizeUsername(body.username)
+        : BOOTSTRAP_ADMIN_USERNAME;
     const password = typeof body.password === 'string' ? body.password : '';
     const nextPath = getSafeNextPath(typeof body.next === 'string' ? body.next : null);
 
@@ -22,9 +41,28 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    if (!verifyPassword(password)) {
+    // Names that can't exist share one bucket.
+    const accountKey = getLoginAccountKey(username ?? '');
+    const accountStatus = throttle.check(accountKey);
+    if (!accountStatus.allowed) {
+      return tooManyLoginAttempts(accountStatus);
+    }
+
+    const user = username ? await authenticateUser(username, password) : null;
+
+    if (!user) {
+      const accountFailureStatus = throttle.recordFailure(accountKey);
+      const ipFailureStatus = throttle.recordFailure(clientIp);
+      const failureStatus = accountFailureStatus.allowed ? ipFailureStatus : accountFailureStatus;
+      if (!failureStatus.allowed && failureStatus.locked) {
+        return tooManyLoginAttempts(failureStatus);
+      }
+
       return Response.json(
-        { error: 'Invalid password' },
+        {
+          error: 'Invalid username or password',
+          retryAfter: failureStatus.allowed ? undefined : failureStatus.retryAfterSeconds,
+        },
         {
           status: 401,
           headers: { 'Cache-Control': 'no-store' },
@@ -32,7 +70,25 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    const cookie = await commitAuthenticatedSession();
+    // The throttle is only cleared once the second factor is verified too.
+    if (await isTwoFactorEnabled(user.username)) {
+      return Response.json(
+        {
+          success: true,
+          twoFactorRequired: true,
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+            'Set-Cookie': await commitPendingTwoFactorSession(user, request),
+          },
+        }
+      );
+    }
+
+    throttle.recordSuccess(clientIp);
+    throttle.recordSuccess(accountKey);
+    const cookie = await commitAuthenticatedSession(user, request);
 
     return Response.json(
       {
@@ -0,0 +1,106 @@
+import type { Route } from './+types/api.auth.two-factor';
+
+import { getClientIp } from '~/lib/client-ip';
+import { getLoginAccountKey, getLoginThrottle, tooManyLoginAttempts } from '~/lib/login-throttle.server';
+import {
+  commitAuthenticatedSession,
+  getPendingTwoFactorUser,
+  getSafeNextPath,
+} from '~/lib/session.server';
+import { verifySecondFactor } from '~/lib/user-store.server';
+
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const throttle = getLoginThrottle();
+  const clientIp = getClientIp(request);
+  const throttleStatus = throttle.check(clientIp);
+  if (!throttleStatus.allowed) {
+    return tooManyLoginAttempts(throttleStatus);
+  }
+
+  try {
+    const user = await getPendingTwoFactorUser(request);
+    if (!user) {
+      return Response.json(
+        { error: 'Login expired, please sign in again' },
+        {
+          status: 401,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    // Codes are also throttled per account, so spreading guesses over many addresses does not help.
+    const accountKey = `two-factor:${user.username}`;
+    const accountStatus = throttle.check(accountKey);
+    if (!accountStatus.allowed) {
+      return tooManyLoginAttempts(accountStatus);
+    }
+
+    const body = (await request.json()) as { code?: unknown; next?: unknown };
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    const nextPath = getSafeNextPath(typeof body.next === 'string' ? body.next : null);
+
+    if (!code) {
+      return Response.json(
+        { error: 'Verification code is required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    if (!(await verifySecondFactor(user.username, code))) {
+      const accountFailureStatus = throttle.recordFailure(accountKey);
+      const ipFailureStatus = throttle.recordFailure(clientIp);
+      const failureStatus = accountFailureStatus.allowed ? ipFailureStatus : accountFailureStatus;
+      if (!failureStatus.allowed && failureStatus.locked) {
+        return tooManyLoginAttempts(failureStatus);
+      }
+
+      return Response.json(
+        {
+          error: 'Invalid verification code',
+          retryAfter: failureStatus.allowed ? undefined : failureStatus.retryAfterSeconds,
+        },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    throttle.recordSuccess(clientIp);
+    throttle.recordSuccess(accountKey);
+    throttle.recordSuccess(getLoginAccountKey(user.username));
+    const cookie = await commitAuthenticatedSession(user, request);
+
+    return Response.json(
+      {
+        success: true,
+        redirectTo: nextPath,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+          'Set-Cookie': cookie,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      {
+        status: 500,
+        headers: { 'Cache-Control': 'no-store' },
+      }
+    );
+  }
+}
@@ -1,12 +1,13 @@
 import type { Route } from './+types/api.auth.verify';
 
-import { isAuthenticated } from '~/lib/session.server';
+import { getAuthenticatedUser } from '~/lib/session.server';
 
 export async function loader({ request }: Route.LoaderArgs) {
-  const authenticated = await isAuthenticated(request);
+  const user = await getAuthenticatedUser(request);
+  const authenticated = user !== null;
 
   return Response.json(
-    { authenticated },
+    { authenticated, user },
     {
       status: authenticated ? 200 : 401,
       headers: {
@@ -0,0 +1,217 @@
+import type { Route } from './+types/api.folders';
+
+import { normalizeFolderPath } from '~/lib/images-api';
+import {
+  createFolder,
+  deleteFolder,
+  folderExists,
+  listFolders,
+  moveFolder,
+} from '~/lib/r2.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request);
+  if (authError) {
+    return authError;
+  }
+
+  const requestedPrefix = normalizeFolderPath(new URL(request.url).searchParams.get('prefix') || '');
+  if (requestedPrefix === null) {
+    return Response.json(
+      { error: 'Invalid folder path' },
+      {
+        status: 400,
+        headers: { 'Cache-Control': 'no-store' },
+      }
+    );
+  }
+
+  const prefix = requestedPrefix || (await getApiPrincipal(request))?.allowedPrefix || '';
+  const prefixError = await ensureKeysWithinAllowedPrefix(request, [prefix]);
+  if (prefixError) {
+    return prefixError;
+  }
+
+  try {
+    const folders = await listFolders(prefix);
+
+    return Response.json(
+      {
+        success: true,
+        data: folders,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List folders error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list folders',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(
+    request,
+    request.method === 'DELETE' ? 'delete' : 'upload'
+  );
+  if (authError) {
+    return authError;
+  }
+
+  if (!['POST', 'PATCH', 'DELETE'].includes(request.method)) {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { path?: unknown; from?: unknown; to?: unknown }
+      | null;
+
+    if (request.method === 'PATCH') {
+      const from = normalizeFolderPath(payload?.from);
+      const to = normalizeFolderPath(payload?.to);
+
+      if (!from || !to) {
+        return Response.json(
+          { error: 'Both source and destination folders are required' },
+          {
+            status: 400,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      if (to.startsWith(from)) {
+        return Response.json(
+          { error: 'Cannot move a folder into itself' },
+          {
+            status: 400,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      const prefixError = await ensureKeysWithinAllowedPrefix(request, [from, to]);
+      if (prefixError) {
+        return prefixError;
+      }
+
+      if (await folderExists(to)) {
+        return Response.json(
+          { error: 'Destination folder already exists' },
+          {
+            status: 409,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      const result = await moveFolder(from, to);
+
+      return Response.json(
+        {
+          success: result.conflicts.length === 0 && result.failed.length === 0,
+          moved: result.moved,
+          conflicts: result.conflicts,
+          failed: result.failed,
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const folder = normalizeFolderPath(payload?.path);
+    if (!folder) {
+      return Response.json(
+        { error: 'Folder path is required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [folder]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    if (request.method === 'POST') {
+      if (await folderExists(folder)) {
+        return Response.json(
+          { error: 'Folder already exists' },
+          {
+            status: 409,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      await createFolder(folder);
+
+      return Response.json(
+        {
+          success: true,
+          data: folder,
+        },
+        {
+          status: 201,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const result = await deleteFolder(folder, (await getApiPrincipal(request))?.user.username);
+
+    return Response.json(
+      {
+        success: result.failed.length === 0,
+        deleted: result.deleted,
+        failed: result.failed,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Folder operation error:', error);
+    return Response.json(
+      {
+        error: 'Folder operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import type { Route } from './+types/api.images.metadata';
+
+import { parseImageMetadataUpdate } from '~/lib/image-metadata';
+import { updateImageMetadata } from '~/lib/image-metadata.server';
+import { normalizeObjectKey } from '~/lib/images-api';
+import { getImage } from '~/lib/r2.server';
+import { ensureAuthenticatedApiRequest, ensureKeysWithinAllowedPrefix } from '~/lib/session.server';
+
+/** Edits an image's title, alt text and tags: `PATCH { key, title?, alt?, tags? }`. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'PATCH') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { key?: unknown; title?: unknown; alt?: unknown; tags?: unknown }
+      | null;
+    const key = normalizeObjectKey(payload?.key);
+    const update = parseImageMetadataUpdate(payload);
+
+    if (!key || !update) {
+      return Response.json(
+        { error: 'A valid key and at least one of title, alt or tags are required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [key]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    if (!(await getImage(key))) {
+      return Response.json(
+        { error: 'Image not found' },
+        {
+          status: 404,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    await updateImageMetadata(key, update);
+
+    return Response.json(
+      {
+        success: true,
+        data: await getImage(key),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Update image metadata error:', error);
+    return Response.json(
+      {
+        error: 'Failed to update image metadata',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import type { Route } from './+types/api.images.share';
+
+import { DEFAULT_SHARE_HOURS, getImageVisibility, parseShareHours } from '~/lib/image-visibility';
+import { createSignedObjectUrl } from '~/lib/image-visibility.server';
+import { normalizeObjectKey } from '~/lib/images-api';
+import { getImage } from '~/lib/r2.server';
+import { ensureAuthenticatedApiRequest, ensureKeysWithinAllowedPrefix } from '~/lib/session.server';
+
+const HOUR_SECONDS = 60 * 60;
+
+/**
+ * Creates a link to a private image that expires after the given number of
+ * hours: `POST { key, hours? }`. Links cannot be revoked early, other than
+ * by making the image public or deleting it.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request);
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { key?: unknown; hours?: unknown } | null;
+    const key = normalizeObjectKey(payload?.key);
+    const hours = payload?.hours === undefined ? DEFAULT_SHARE_HOURS : parseShareHours(payload.hours);
+
+    if (!key || !hours) {
+      return Response.json(
+        { error: 'A valid key and a whole number of hours are required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    if (getImageVisibility(key) !== 'private') {
+      return Response.json(
+        { error: 'Only private images need a share link' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [key]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    if (!(await getImage(key))) {
+      return Response.json(
+        { error: 'Image not found' },
+        {
+          status: 404,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const url = await createSignedObjectUrl(key, hours * HOUR_SECONDS);
+
+    return Response.json(
+      {
+        success: true,
+        data: {
+          url: new URL(url, request.url).toString(),
+          expiresAt: new Date(Date.now() + hours * HOUR_SECONDS * 1000).toISOString(),
+        },
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Share image error:', error);
+    return Response.json(
+      {
+        error: 'Failed to create share link',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
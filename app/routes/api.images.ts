@@ -1,8 +1,18 @@
 import type { Route } from './+types/api.images';
 
-import { parseDeleteKeys, parseImageListQuery } from '~/lib/images-api';
-import { deleteImages, listImages } from '~/lib/r2.server';
-import { ensureAuthenticatedApiRequest } from '~/lib/session.server';
+import {
+  hasImageFilters,
+  parseDeleteKeys,
+  parseImageListQuery,
+  normalizeFolderPath,
+  parseMovePayload,
+} from '~/lib/images-api';
+import { deleteImages, listImages, moveImages, searchImages } from '~/lib/r2.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
 
 export async function loader({ request }: Route.LoaderArgs) {
   const authError = await ensureAuthenticatedApiRequest(request);
@@ -11,13 +21,34 @@ export async function loader({ request }: Route.LoaderArgs) {
   }
 
   try {
-    const { limit, cursor, prefix } = parseImageListQuery(new URL(request.url));
-    const result = await listImages(prefix, limit, cursor);
+    const query = parseImageListQuery(new URL(request.url));
+    const requestedPrefix = normalizeFolderPath(query.prefix);
+    if (requestedPrefix === null) {
+      return Response.json(
+        { error: 'Invalid folder path' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const prefix = requestedPrefix || (await getApiPrincipal(request))?.allowedPrefix || '';
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [prefix]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    // Filters apply across every folder under the prefix, so they ignore the delimiter.
+    const result = hasImageFilters(query.filters)
+      ? await searchImages(prefix, query.filters, query.limit, query.cursor, query.sort)
+      : await listImages(prefix, query.limit, query.cursor, query.delimiter, query.sort);
 
     return Response.json(
       {
         success: true,
         data: result.images,
+        folders: result.folders,
         pagination: {
           nextCursor: result.nextCursor,
           hasMore: result.hasMore,
@@ -47,11 +78,18 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  const authError = await ensureAuthenticatedApiRequest(request);
+  const authError = await ensureAuthenticatedApiRequest(
+    request,
+    request.method === 'DELETE' ? 'delete' : 'upload'
+  );
   if (authError) {
     return authError;
   }
 
+  if (request.method === 'PATCH') {
+    return handleMove(request);
+  }
+
   if (request.method !== 'DELETE') {
     return Response.json({ error: 'Method not allowed' }, { status: 405 });
   }
@@ -64,7 +102,7 @@ export async function action({ request }: Route.ActionArgs) {
 
     if (keys.length === 0) {
       return Response.json(
-        { error: 'No keys provided' },
+        { error: 'No valid keys provided' },
         {
           status: 400,
           headers: {
@@ -74,7 +112,12 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    const result = await deleteImages(keys);
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, keys);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    const result = await deleteImages(keys, (await getApiPrincipal(request))?.user.username);
 
     return Response.json(
       {
@@ -104,3 +147,65 @@ export async function action({ request }: Route.ActionArgs) {
     );
   }
 }
+
+async function handleMove(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { from?: unknown; to?: unknown; keys?: unknown; folder?: unknown; moves?: unknown }
+      | null;
+    const moves = parseMovePayload(payload);
+
+    if (!moves || moves.length === 0) {
+      return Response.json(
+        { error: 'Invalid or missing source/destination keys' },
+        {
+          status: 400,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const prefixError = await ensureKeysWithinAllowedPrefix(
+      request,
+      moves.flatMap((move) => [move.from, move.to])
+    );
+    if (prefixError) {
+      return prefixError;
+    }
+
+    const result = await moveImages(moves);
+    const onlyConflicts = result.moved.length === 0 && result.failed.length === 0;
+
+    return Response.json(
+      {
+        success: result.conflicts.length === 0 && result.failed.length === 0,
+        moved: result.moved,
+        conflicts: result.conflicts,
+        failed: result.failed,
+        ...(onlyConflicts ? { error: 'Destination already exists' } : {}),
+      },
+      {
+        status: onlyConflicts ? 409 : 200,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Move image error:', error);
+    return Response.json(
+      {
+        error: 'Failed to move image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
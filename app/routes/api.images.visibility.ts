@@ -0,0 +1,122 @@
+import type { Route } from './+types/api.images.visibility';
+
+import { getKeyForVisibility, parseVisibilityPayload } from '~/lib/image-visibility';
+import { getPrivateImagesUnavailableReason } from '~/lib/image-visibility.server';
+import { folderExists, setFolderVisibility, setImageVisibility } from '~/lib/r2.server';
+import { ensureAuthenticatedApiRequest, ensureKeysWithinAllowedPrefix } from '~/lib/session.server';
+
+/**
+ * Makes images private or public again: `PATCH { keys, visibility }` or
+ * `PATCH { folder, visibility }`. The images move to or from `.private/`,
+ * so their public URLs stop working as soon as they are private.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'PATCH') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { keys?: unknown; folder?: unknown; visibility?: unknown }
+      | null;
+    const change = parseVisibilityPayload(payload);
+
+    if (!change) {
+      return Response.json(
+        { error: 'A visibility of public or private and either keys or a folder are required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const unavailableReason = change.visibility === 'private' ? getPrivateImagesUnavailableReason() : null;
+    if (unavailableReason) {
+      return Response.json(
+        { error: `Private images are not available: ${unavailableReason}` },
+        {
+          status: 501,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const sources = 'folder' in change ? [change.folder] : change.keys;
+    const prefixError = await ensureKeysWithinAllowedPrefix(
+      request,
+      sources.flatMap((key) => [key, getKeyForVisibility(key, change.visibility)])
+    );
+    if (prefixError) {
+      return prefixError;
+    }
+
+    if ('folder' in change) {
+      const destination = getKeyForVisibility(change.folder, change.visibility);
+      if (destination !== change.folder && (await folderExists(destination))) {
+        return Response.json(
+          { error: 'Destination folder already exists' },
+          {
+            status: 409,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      const result = await setFolderVisibility(change.folder, change.visibility);
+
+      return Response.json(
+        {
+          success: result.conflicts.length === 0 && result.failed.length === 0,
+          moved: result.moved,
+          conflicts: result.conflicts,
+          failed: result.failed,
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const result = await setImageVisibility(change.keys, change.visibility);
+    const onlyConflicts =
+      result.conflicts.length > 0 && result.moved.length === 0 && result.failed.length === 0;
+
+    return Response.json(
+      {
+        success: result.conflicts.length === 0 && result.failed.length === 0,
+        moved: result.moved,
+        conflicts: result.conflicts,
+        failed: result.failed,
+        ...(onlyConflicts ? { error: 'Destination already exists' } : {}),
+      },
+      {
+        status: onlyConflicts ? 409 : 200,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Change image visibility error:', error);
+    return Response.json(
+      {
+        error: 'Failed to change image visibility',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import type { Route } from './+types/api.link-templates';
+
+import { parseLinkTemplates } from '~/lib/link-formats';
+import { listLinkTemplates, saveLinkTemplates } from '~/lib/link-template-store.server';
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  try {
+    return Response.json(
+      {
+        success: true,
+        data: await listLinkTemplates(principal.user.username),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List link templates error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list link templates',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+/** `PUT { templates }` replaces the signed-in user's copy templates. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'PUT') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { templates?: unknown } | null;
+    const templates = parseLinkTemplates(payload);
+
+    if (!templates) {
+      return Response.json(
+        { error: 'Invalid templates' },
+        {
+          status: 400,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        success: true,
+        data: await saveLinkTemplates(principal.user.username, templates),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Save link templates error:', error);
+    return Response.json(
+      {
+        error: 'Failed to save link templates',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import type { Route } from './+types/api.object-index';
+
+import { getObjectIndexStats, reconcileObjectIndex } from '~/lib/object-index.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request);
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const prefix =
+      new URL(request.url).searchParams.get('prefix')?.trim() ||
+      (await getApiPrincipal(request))?.allowedPrefix ||
+      '';
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [prefix]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    return Response.json(
+      {
+        success: true,
+        data: await getObjectIndexStats(prefix),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Object index stats error:', error);
+    return Response.json(
+      {
+        error: 'Failed to read the object index',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+/** Re-syncs the index with the bucket, e.g. after objects were changed outside the app. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'admin');
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    return Response.json(
+      {
+        success: true,
+        data: await reconcileObjectIndex(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Object index reconcile error:', error);
+    return Response.json(
+      {
+        error: 'Failed to reconcile the object index',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import type { Route } from './+types/api.sessions';
+
+import {
+  getPublicSessionId,
+  listActiveSessions,
+  revokeSession,
+  revokeSessionsForUser,
+} from '~/lib/session-store.server';
+import {
+  destroyAuthenticatedSession,
+  ensureAuthenticatedApiRequest,
+  getApiPrincipal,
+  getCurrentSessionId,
+} from '~/lib/session.server';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  try {
+    const { user } = principal;
+    const currentSessionId = await getCurrentSessionId(request);
+    const currentPublicId = currentSessionId ? getPublicSessionId(currentSessionId) : null;
+    const sessions = await listActiveSessions(user.role === 'admin' ? undefined : user.username);
+
+    return Response.json(
+      {
+        success: true,
+        data: sessions.map((session) => ({ ...session, current: session.id === currentPublicId })),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list sessions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { user } = principal;
+    const payload = (await request.json().catch(() => null)) as { id?: unknown; all?: unknown } | null;
+
+    if (payload?.all === true) {
+      const revoked = await revokeSessionsForUser(user.username);
+      const cookie = await destroyAuthenticatedSession(request);
+
+      return Response.json(
+        {
+          success: true,
+          revoked,
+          redirectTo: '/login',
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+            'Set-Cookie': cookie,
+          },
+        }
+      );
+    }
+
+    const revoked =
+      typeof payload?.id === 'string' &&
+      (await revokeSession(payload.id, user.role === 'admin' ? undefined : user.username));
+
+    return Response.json(
+      revoked ? { success: true } : { error: 'Session not found' },
+      {
+        status: revoked ? 200 : 404,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return Response.json(
+      {
+        error: 'Failed to revoke session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import type { Route } from './+types/api.tokens';
+
+import { createApiToken, listApiTokens, revokeApiToken } from '~/lib/api-token-store.server';
+import { parseAllowedPrefix, parseTokenExpiryDays, parseTokenScopes } from '~/lib/api-tokens';
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+import { hasPermission } from '~/lib/users';
+
+const MAX_TOKEN_NAME_LENGTH = 64;
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  try {
+    return Response.json(
+      {
+        success: true,
+        data: await listApiTokens(principal.user.username),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List API tokens error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list API tokens',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { user } = principal;
+    const payload = (await request.json().catch(() => null)) as
+      | { id?: unknown; name?: unknown; scopes?: unknown; expiresInDays?: unknown; allowedPrefix?: unknown }
+      | null;
+
+    if (request.method === 'DELETE') {
+      const revoked = typeof payload?.id === 'string' && (await revokeApiToken(payload.id, user.username));
+
+      return Response.json(
+        revoked ? { success: true } : { error: 'Token not found' },
+        {
+          status: revoked ? 200 : 404,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const name = typeof payload?.name === 'string' ? payload.name.trim() : '';
+    const scopes = parseTokenScopes(payload?.scopes);
+    const expiresInDays = parseTokenExpiryDays(payload?.expiresInDays);
+    const allowedPrefix = parseAllowedPrefix(payload?.allowedPrefix);
+
+    if (!name || name.length > MAX_TOKEN_NAME_LENGTH || !scopes || expiresInDays === undefined || allowedPrefix === null) {
+      return Response.json(
+        { error: 'A name, at least one valid scope, a valid expiry and a valid prefix are required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    if (scopes.some((scope) => !hasPermission(user.role, scope))) {
+      return Response.json(
+        { error: 'Requested scopes exceed your role' },
+        {
+          status: 403,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const result = await createApiToken({ owner: user, name, scopes, expiresInDays, allowedPrefix });
+
+    return Response.json(
+      {
+        success: true,
+        data: result.token,
+        token: result.value,
+      },
+      {
+        status: 201,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('API token operation error:', error);
+    return Response.json(
+      {
+        error: 'API token operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
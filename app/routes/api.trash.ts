@@ -0,0 +1,140 @@
+import type { Route } from './+types/api.trash';
+
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+import { parseTrashIds } from '~/lib/trash';
+import {
+  getTrashItems,
+  getTrashRetentionDays,
+  listTrash,
+  purgeTrash,
+  restoreFromTrash,
+} from '~/lib/trash.server';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'delete');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const prefix = (await getApiPrincipal(request))?.allowedPrefix || '';
+
+    return Response.json(
+      {
+        success: true,
+        data: await listTrash(prefix),
+        retentionDays: getTrashRetentionDays(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List trash error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list trash',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+/** `POST { ids }` restores trashed images, `DELETE { ids }` removes them permanently. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'delete');
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { ids?: unknown } | null;
+    const ids = parseTrashIds(payload);
+
+    if (ids.length === 0) {
+      return Response.json(
+        { error: 'No trash items provided' },
+        {
+          status: 400,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const prefixError = await ensureKeysWithinAllowedPrefix(
+      request,
+      (await getTrashItems(ids)).map((item) => item.key)
+    );
+    if (prefixError) {
+      return prefixError;
+    }
+
+    if (request.method === 'DELETE') {
+      const result = await purgeTrash(ids);
+
+      return Response.json(
+        {
+          success: result.failed.length === 0,
+          purged: result.purged,
+          failed: result.failed,
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const result = await restoreFromTrash(ids);
+    const onlyConflicts = result.restored.length === 0 && result.failed.length === 0;
+
+    return Response.json(
+      {
+        success: result.conflicts.length === 0 && result.failed.length === 0,
+        restored: result.restored,
+        conflicts: result.conflicts,
+        failed: result.failed,
+        ...(onlyConflicts ? { error: 'Original location is taken' } : {}),
+      },
+      {
+        status: onlyConflicts ? 409 : 200,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Trash action error:', error);
+    return Response.json(
+      {
+        error: request.method === 'DELETE' ? 'Failed to empty trash' : 'Failed to restore images',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
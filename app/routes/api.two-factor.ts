@@ -0,0 +1,175 @@
+import QRCode from 'qrcode';
+
+import type { Route } from './+types/api.two-factor';
+
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+import { buildOtpauthUri } from '~/lib/totp.server';
+import {
+  UserStoreError,
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from '~/lib/user-store.server';
+
+const TOTP_ISSUER = 'Lightframe Archive';
+
+function invalidCode() {
+  return Response.json(
+    { error: 'Invalid verification code' },
+    {
+      status: 400,
+      headers: { 'Cache-Control': 'no-store' },
+    }
+  );
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  try {
+    return Response.json(
+      {
+        success: true,
+        data: await getTwoFactorStatus(principal.user.username),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return Response.json(
+      {
+        error: 'Failed to load two-factor status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+/**
+ * POST `{ action: 'begin' }` starts enrolment, `{ action: 'confirm', code }`
+ * enables it, `{ action: 'regenerate', code }` replaces the recovery codes;
+ * DELETE `{ code }` turns two-factor off. Recovery codes are only ever
+ * returned by confirm and regenerate.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'session');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { username } = principal.user;
+    const payload = (await request.json().catch(() => null)) as { action?: unknown; code?: unknown } | null;
+    const code = typeof payload?.code === 'string' ? payload.code.trim() : '';
+
+    if (request.method === 'DELETE') {
+      if (!code || !(await verifySecondFactor(username, code))) {
+        return invalidCode();
+      }
+
+      await disableTwoFactor(username);
+      return Response.json({ success: true }, { headers: { 'Cache-Control': 'no-store' } });
+    }
+
+    if (payload?.action === 'begin') {
+      const secret = await beginTwoFactorEnrolment(username);
+      const uri = buildOtpauthUri({ issuer: TOTP_ISSUER, account: username, secret });
+
+      return Response.json(
+        {
+          success: true,
+          secret,
+          uri,
+          qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 224 }),
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    if (payload?.action === 'confirm' || payload?.action === 'regenerate') {
+      if (!code) {
+        return invalidCode();
+      }
+
+      let recoveryCodes: string[];
+      if (payload.action === 'confirm') {
+        recoveryCodes = await confirmTwoFactorEnrolment(username, code);
+      } else {
+        if (!(await verifySecondFactor(username, code))) {
+          return invalidCode();
+        }
+        recoveryCodes = await regenerateRecoveryCodes(username);
+      }
+
+      return Response.json(
+        {
+          success: true,
+          recoveryCodes,
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    return Response.json(
+      { error: 'Unknown action' },
+      {
+        status: 400,
+        headers: { 'Cache-Control': 'no-store' },
+      }
+    );
+  } catch (error) {
+    if (error instanceof UserStoreError) {
+      return Response.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    console.error('Two-factor operation error:', error);
+    return Response.json(
+      {
+        error: 'Two-factor operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
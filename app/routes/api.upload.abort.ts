@@ -0,0 +1,64 @@
+import type { Route } from './+types/api.upload.abort';
+
+import { abortDirectUpload } from '~/lib/direct-upload.server';
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+
+/** Cancels a direct upload and deletes any parts already uploaded for it. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { id?: unknown } | null;
+    if (typeof payload?.id !== 'string' || !payload.id) {
+      return Response.json(
+        { error: 'Upload id is required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const aborted = await abortDirectUpload(payload.id, principal.user.username);
+    if (!aborted) {
+      return Response.json(
+        { error: 'Upload not found or expired' },
+        {
+          status: 404,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    return Response.json(
+      { success: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Abort upload error:', error);
+    return Response.json(
+      {
+        error: 'Failed to abort upload',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import type { Route } from './+types/api.upload.complete';
+
+import { parseUploadedParts } from '~/lib/direct-upload';
+import {
+  DirectUploadError,
+  completeDirectUpload,
+  getDirectUploadPartCount,
+} from '~/lib/direct-upload.server';
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { id?: unknown; parts?: unknown } | null;
+    if (typeof payload?.id !== 'string' || !payload.id) {
+      return Response.json(
+        { error: 'Upload id is required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const owner = principal.user.username;
+    const parts =
+      payload.parts === undefined
+        ? undefined
+        : parseUploadedParts(payload.parts, await getDirectUploadPartCount(payload.id, owner));
+    if (parts === null) {
+      return Response.json(
+        { error: 'Every part must be listed once with its ETag' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const image = await completeDirectUpload(payload.id, owner, parts);
+
+    return Response.json(
+      {
+        success: true,
+        data: image,
+        deduplicated: false,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof DirectUploadError) {
+      return Response.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    console.error('Complete upload error:', error);
+    return Response.json(
+      {
+        error: 'Failed to complete upload',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
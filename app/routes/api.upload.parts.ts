@@ -0,0 +1,85 @@
+import type { Route } from './+types/api.upload.parts';
+
+import { parsePartNumbers } from '~/lib/direct-upload';
+import {
+  DirectUploadError,
+  getDirectUploadPartCount,
+  presignDirectUploadParts,
+} from '~/lib/direct-upload.server';
+import { ensureAuthenticatedApiRequest, getApiPrincipal } from '~/lib/session.server';
+
+/** Presigns PUT URLs for a batch of parts of a multipart upload started via `/api/upload/presign`. */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as { id?: unknown; partNumbers?: unknown } | null;
+    if (typeof payload?.id !== 'string' || !payload.id) {
+      return Response.json(
+        { error: 'Upload id is required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const owner = principal.user.username;
+    const partNumbers = parsePartNumbers(payload.partNumbers, await getDirectUploadPartCount(payload.id, owner));
+    if (!partNumbers) {
+      return Response.json(
+        { error: 'Invalid part numbers' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const parts = await presignDirectUploadParts(payload.id, owner, partNumbers);
+
+    return Response.json(
+      {
+        success: true,
+        data: parts,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof DirectUploadError) {
+      return Response.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    console.error('Presign upload parts error:', error);
+    return Response.json(
+      {
+        error: 'Failed to prepare upload parts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import type { Route } from './+types/api.upload.presign';
+
+import { parseDirectUploadRequest } from '~/lib/direct-upload';
+import { DirectUploadError, createDirectUpload } from '~/lib/direct-upload.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+
+/**
+ * Issues a presigned PUT for one file. The client uploads straight to the
+ * bucket and then calls `/api/upload/complete` with the returned `id`.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  const principal = await getApiPrincipal(request);
+  if (authError || !principal) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const uploadRequest = parseDirectUploadRequest(await request.json().catch(() => null));
+    if (!uploadRequest) {
+      return Response.json(
+        { error: 'A file name, content type, size and valid folder are required' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const folder = uploadRequest.folder || principal.allowedPrefix;
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [folder]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    const result = await createDirectUpload(principal.user.username, { ...uploadRequest, folder });
+
+    return Response.json(
+      {
+        success: true,
+        data: result,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof DirectUploadError) {
+      return Response.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    console.error('Presign upload error:', error);
+    return Response.json(
+      {
+        error: 'Failed to prepare upload',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
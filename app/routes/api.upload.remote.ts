@@ -0,0 +1,129 @@
+import type { Route } from './+types/api.upload.remote';
+
+import { parseImageProcessingOptions } from '~/lib/image-processing';
+import { normalizeFolderPath } from '~/lib/images-api';
+import { getDefaultImageProcessingOptions } from '~/lib/image-processing.server';
+import { parseRemoteImageUrls } from '~/lib/remote-upload';
+import { RemoteImageError, importRemoteImage } from '~/lib/remote-upload.server';
+import type { ImageInfo } from '~/lib/r2.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+
+/**
+ * Imports images by URL: the server downloads each one and stores it like a
+ * form upload. Accepts the same form fields as `/api/upload`, with one or
+ * more `url` values in place of `file`.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
+  if (authError) {
+    return authError;
+  }
+
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const parsedUrls = parseRemoteImageUrls(
+      formData.getAll('url').filter((value): value is string => typeof value === 'string')
+    );
+
+    if (!parsedUrls.ok) {
+      return Response.json(
+        { error: parsedUrls.error },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const requestedFolder = normalizeFolderPath(formData.get('folder') ?? '');
+    if (requestedFolder === null) {
+      return Response.json(
+        { error: 'Invalid folder path' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const principal = await getApiPrincipal(request);
+    const folder = requestedFolder || principal?.allowedPrefix || '';
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [folder]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    const processing = parseImageProcessingOptions(formData, getDefaultImageProcessingOptions());
+    if (!processing) {
+      return Response.json(
+        { error: 'maxWidth and maxHeight must be positive whole numbers' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const options = {
+      useHashName: formData.get('useHashName') === 'true',
+      useContentHash: formData.get('useContentHash') === 'true',
+      processing,
+      folder,
+      uploadedBy: principal?.user.username,
+    };
+    const uploaded: Array<{ url: string; image: ImageInfo; deduplicated: boolean }> = [];
+    const failed: Array<{ url: string; error: string }> = [];
+
+    // One at a time: each download may hold up to MAX_FILE_SIZE in memory.
+    for (const url of parsedUrls.urls) {
+      try {
+        const result = await importRemoteImage(url, options);
+        uploaded.push({ url, image: result.image, deduplicated: result.deduplicated });
+      } catch (error) {
+        if (!(error instanceof RemoteImageError)) {
+          console.error('Remote upload error:', error);
+        }
+
+        failed.push({
+          url,
+          error: error instanceof RemoteImageError ? error.message : 'Upload failed',
+        });
+      }
+    }
+
+    return Response.json(
+      {
+        success: failed.length === 0,
+        uploaded,
+        failed,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Remote upload error:', error);
+    return Response.json(
+      {
+        error: 'Upload failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -1,12 +1,18 @@
 import type { Route } from './+types/api.upload';
 
-import { getMaxFileSize, uploadImage } from '~/lib/r2.server';
-import { ensureAuthenticatedApiRequest } from '~/lib/session.server';
-
-const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
+import { parseImageProcessingOptions } from '~/lib/image-processing';
+import { normalizeFolderPath } from '~/lib/images-api';
+import { getDefaultImageProcessingOptions } from '~/lib/image-processing.server';
+import { uploadImage } from '~/lib/r2.server';
+import {
+  ensureAuthenticatedApiRequest,
+  ensureKeysWithinAllowedPrefix,
+  getApiPrincipal,
+} from '~/lib/session.server';
+import { validateImageUpload } from '~/lib/upload-validation.server';
 
 export async function action({ request }: Route.ActionArgs) {
-  const authError = await ensureAuthenticatedApiRequest(request);
+  const authError = await ensureAuthenticatedApiRequest(request, 'upload');
   if (authError) {
     return authError;
   }
@@ -29,10 +35,10 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    const maxSize = getMaxFileSize();
-    if (file.size > maxSize) {
+    const requestedFolder = normalizeFolderPath(formData.get('folder') ?? '');
+    if (requestedFolder === null) {
       return Response.json(
-        { error: `File size exceeds limit of ${maxSize / 1024 / 1024}MB` },
+        { error: 'Invalid folder path' },
         {
           status: 400,
           headers: { 'Cache-Control': 'no-store' },
@@ -40,9 +46,17 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    if (!allowedTypes.includes(file.type)) {
+    const principal = await getApiPrincipal(request);
+    const folder = requestedFolder || principal?.allowedPrefix || '';
+    const prefixError = await ensureKeysWithinAllowedPrefix(request, [folder]);
+    if (prefixError) {
+      return prefixError;
+    }
+
+    const processing = parseImageProcessingOptions(formData, getDefaultImageProcessingOptions());
+    if (!processing) {
       return Response.json(
-        { error: 'Invalid file type. Only images are allowed.' },
+        { error: 'maxWidth and maxHeight must be positive whole numbers' },
         {
           status: 400,
           headers: { 'Cache-Control': 'no-store' },
@@ -50,14 +64,30 @@ export async function action({ request }: Route.ActionArgs) {
       );
     }
 
-    const imageInfo = await uploadImage(file, {
+    const validation = await validateImageUpload(file);
+    if (!validation.ok) {
+      return Response.json(
+        { error: validation.error },
+        {
+          status: validation.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    const result = await uploadImage(validation.file, {
       useHashName: formData.get('useHashName') === 'true',
+      useContentHash: formData.get('useContentHash') === 'true',
+      processing,
+      folder,
+      uploadedBy: principal?.user.username,
     });
 
     return Response.json(
       {
         success: true,
-        data: imageInfo,
+        data: result.image,
+        deduplicated: result.deduplicated,
       },
       {
         headers: {
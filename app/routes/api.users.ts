@@ -0,0 +1,183 @@
+import type { Route } from './+types/api.users';
+
+import { revokeApiTokensForUser } from '~/lib/api-token-store.server';
+import { deleteLinkTemplatesForUser } from '~/lib/link-template-store.server';
+import { revokeSessionsForUser } from '~/lib/session-store.server';
+import { ensureAuthenticatedApiRequest } from '~/lib/session.server';
+import {
+  UserStoreError,
+  createUser,
+  deleteUser,
+  disableTwoFactor,
+  listUsers,
+  updateUser,
+} from '~/lib/user-store.server';
+import { normalizeUsername, parseUserRole } from '~/lib/users';
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'admin');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    return Response.json(
+      {
+        success: true,
+        data: await listUsers(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('List users error:', error);
+    return Response.json(
+      {
+        error: 'Failed to list users',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const authError = await ensureAuthenticatedApiRequest(request, 'admin');
+  if (authError) {
+    return authError;
+  }
+
+  if (!['POST', 'PATCH', 'DELETE'].includes(request.method)) {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { username?: unknown; password?: unknown; role?: unknown; resetTwoFactor?: unknown }
+      | null;
+    const username = normalizeUsername(payload?.username);
+    const password = typeof payload?.password === 'string' ? payload.password : undefined;
+    const role = payload?.role === undefined ? undefined : parseUserRole(payload.role);
+
+    if (!username) {
+      return Response.json(
+        { error: 'Invalid username' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    if (role === null) {
+      return Response.json(
+        { error: 'Invalid role' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    if (request.method === 'DELETE') {
+      await deleteUser(username);
+      await revokeSessionsForUser(username);
+      await revokeApiTokensForUser(username);
+      await deleteLinkTemplatesForUser(username);
+
+      return Response.json(
+        { success: true },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    if (request.method === 'POST') {
+      if (!password || !role) {
+        return Response.json(
+          { error: 'Password and role are required' },
+          {
+            status: 400,
+            headers: { 'Cache-Control': 'no-store' },
+          }
+        );
+      }
+
+      const user = await createUser({ username, password, role });
+
+      return Response.json(
+        {
+          success: true,
+          data: user,
+        },
+        {
+          status: 201,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    // Lets an admin recover someone who lost both their authenticator and recovery codes.
+    if (payload?.resetTwoFactor === true) {
+      await disableTwoFactor(username);
+    }
+
+    const user = await updateUser(username, { role, password: password || undefined });
+    if (password || payload?.resetTwoFactor === true) {
+      await revokeSessionsForUser(username);
+    }
+    // A password reset usually means the account was compromised; tokens made with it go too.
+    if (password) {
+      await revokeApiTokensForUser(username);
+    }
+
+    return Response.json(
+      {
+        success: true,
+        data: user,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof UserStoreError) {
+      return Response.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    console.error('User operation error:', error);
+    return Response.json(
+      {
+        error: 'User operation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import type { Route } from './+types/files.$';
+
+import { isPrivateObjectKey } from '~/lib/image-visibility';
+import { verifySignedObjectUrl } from '~/lib/image-visibility.server';
+import { getStorageBackend } from '~/lib/storage.server';
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const key = params['*'] || '';
+
+  if (!key) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  // Private objects are only served through a signed, unexpired link.
+  const url = new URL(request.url);
+  const expires = url.searchParams.get('expires');
+  if (isPrivateObjectKey(key) && !verifySignedObjectUrl(key, expires, url.searchParams.get('signature'))) {
+    return new Response('Link expired or invalid', {
+      status: 403,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  try {
+    const object = await getStorageBackend().getObject(key);
+
+    if (!object) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const cacheControl = isPrivateObjectKey(key)
+      ? `private, max-age=${Math.max(0, Number(expires) - Math.floor(Date.now() / 1000))}`
+      : 'public, max-age=31536000';
+
+    return new Response(new Uint8Array(object.body), {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': object.size.toString(),
+        'Cache-Control': cacheControl,
+        'Last-Modified': object.lastModified.toUTCString(),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox",
+      },
+    });
+  } catch (error) {
+    console.error('Serve file error:', error);
+    return new Response('Not found', { status: 404 });
+  }
+}
@@ -1,9 +1,18 @@
-import type { Route } from './+types/gallery';
+import { useOutletContext } from 'react-router';
 
+import type { Route } from './+types/gallery';
 import ImageGallery from '~/components/ImageGallery';
+import { hasPermission, type AuthUser } from '~/lib/users';
 
 export const meta: Route.MetaFunction = () => [{ title: '内容档案 - Lightframe Archive' }];
 
 export default function GalleryRoute() {
-  return <ImageGallery />;
+  const user = useOutletContext<AuthUser>();
+
+  return (
+    <ImageGallery
+      canUpload={hasPermission(user.role, 'upload')}
+      canDelete={hasPermission(user.role, 'delete')}
+    />
+  );
 }
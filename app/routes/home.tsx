@@ -1,9 +1,16 @@
 import type { Route } from './+types/home';
 
 import ImageUploader from '~/components/ImageUploader';
+import { getDefaultImageProcessingOptions } from '~/lib/image-processing.server';
+import { requireAuthenticatedRequest } from '~/lib/session.server';
 
 export const meta: Route.MetaFunction = () => [{ title: '上传工作台 - Lightframe Archive' }];
 
-export default function HomeRoute() {
-  return <ImageUploader />;
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAuthenticatedRequest(request, 'upload');
+  return { serverProcessing: getDefaultImageProcessingOptions().enabled };
+}
+
+export default function HomeRoute({ loaderData }: Route.ComponentProps) {
+  return <ImageUploader serverProcessing={loaderData.serverProcessing} />;
 }
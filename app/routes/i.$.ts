@@ -0,0 +1,66 @@
+import type { Route } from './+types/i.$';
+
+import { parseImageTransform } from '~/lib/image-transform';
+import {
+  ImageTransformError,
+  getAllowedTransformSizes,
+  getTransformedImage,
+} from '~/lib/image-transform.server';
+import { isPrivateObjectKey } from '~/lib/image-visibility';
+import { normalizeObjectKey } from '~/lib/images-api';
+
+/**
+ * `/i/<key>?w=&h=&fit=&fmt=&q=` serves a resized or re-encoded copy of an
+ * image. Only allowlisted values are accepted, since each combination is
+ * rendered once and then cached in the bucket; an image with a full cache
+ * answers new combinations with 429. Private images are never transformed,
+ * since the output would be public.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const key = normalizeObjectKey(params['*'] || '');
+  if (!key || isPrivateObjectKey(key)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const parsed = parseImageTransform(new URL(request.url).searchParams, getAllowedTransformSizes());
+  if (!parsed.ok) {
+    return new Response(parsed.error, {
+      status: 400,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  try {
+    const image = await getTransformedImage(key, parsed.transform);
+
+    return new Response(new Uint8Array(image.body), {
+      headers: {
+        'Content-Type': image.mimeType,
+        'Content-Length': image.body.length.toString(),
+        'Cache-Control': 'public, max-age=31536000',
+        'Last-Modified': image.lastModified.toUTCString(),
+        'X-Content-Type-Options': 'nosniff',
+        'X-Transform-Cache': image.cached ? 'HIT' : 'MISS',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImageTransformError) {
+      return new Response(error.message, {
+        status: error.status,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    console.error('Transform image error:', error);
+    return new Response('Failed to transform image', {
+      status: 500,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { useOutletContext } from 'react-router';
+
+import type { Route } from './+types/sessions';
+import SessionManager from '~/components/SessionManager';
+import type { AuthUser } from '~/lib/users';
+
+export const meta: Route.MetaFunction = () => [{ title: '登录会话 - Lightframe Archive' }];
+
+export default function SessionsRoute() {
+  const user = useOutletContext<AuthUser>();
+
+  return <SessionManager showUsernames={user.role === 'admin'} />;
+}
@@ -0,0 +1,22 @@
+import { useOutletContext } from 'react-router';
+
+import type { Route } from './+types/settings';
+import ApiTokenManager from '~/components/ApiTokenManager';
+import LinkTemplateManager from '~/components/LinkTemplateManager';
+import TwoFactorSettings from '~/components/TwoFactorSettings';
+import { TOKEN_SCOPES } from '~/lib/api-tokens';
+import { hasPermission, type AuthUser } from '~/lib/users';
+
+export const meta: Route.MetaFunction = () => [{ title: '设置 - Lightframe Archive' }];
+
+export default function SettingsRoute() {
+  const user = useOutletContext<AuthUser>();
+
+  return (
+    <div className="space-y-4">
+      <TwoFactorSettings />
+      <ApiTokenManager availableScopes={TOKEN_SCOPES.filter((scope) => hasPermission(user.role, scope))} />
+      <LinkTemplateManager />
+    </div>
+  );
+}
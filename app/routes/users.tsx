@@ -0,0 +1,14 @@
+import type { Route } from './+types/users';
+import UserManager from '~/components/UserManager';
+import { requireAdminRequest } from '~/lib/session.server';
+
+export const meta: Route.MetaFunction = () => [{ title: '用户管理 - Lightframe Archive' }];
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireAdminRequest(request);
+  return { username: user.username };
+}
+
+export default function UsersRoute({ loaderData }: Route.ComponentProps) {
+  return <UserManager currentUsername={loaderData.username} />;
+}
@@ -7,7 +7,22 @@ declare global {
       R2_BUCKET_NAME: string;
       R2_ENDPOINT: string;
       R2_PUBLIC_URL: string;
+      R2_REGION?: string;
+      R2_PRIVATE_BUCKET_NAME?: string;
       MAX_FILE_SIZE?: string;
+      DATA_DIR?: string;
+      SESSION_SECRETS?: string;
+      STORAGE_DRIVER?: string;
+      STORAGE_LOCAL_ROOT?: string;
+      STORAGE_PUBLIC_URL?: string;
+      SVG_UPLOADS?: string;
+      IMAGE_PROCESSING?: string;
+      IMAGE_STRIP_METADATA?: string;
+      IMAGE_AUTO_ORIENT?: string;
+      IMAGE_MAX_WIDTH?: string;
+      IMAGE_MAX_HEIGHT?: string;
+      IMAGE_OUTPUT_FORMAT?: string;
+      IMAGE_QUALITY?: string;
     }
   }
 }